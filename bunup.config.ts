@@ -7,6 +7,9 @@ export default defineConfig({
     "lib/operators/index.ts",
     "lib/operators/basic/index.ts",
     "lib/operators/set/index.ts",
+    "lib/operators/collection/index.ts",
+    "lib/operators/enumeration/index.ts",
+    "lib/operators/pipeable/index.ts",
     "lib/operators/errors/index.ts",
     "lib/operators/utils/index.ts",
   ],
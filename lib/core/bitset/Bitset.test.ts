@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+
+import { Bitset } from "./Bitset";
+
+describe("Bitset", () => {
+  describe("fromBigInt()", () => {
+    test("stores 0n as a zero-length bitset", () => {
+      // input: 0n -> expected: no words
+      expect(Bitset.fromBigInt(0n).length).toBe(0);
+    });
+
+    test("splits a value into little-endian 32-bit words", () => {
+      // input: (1n << 32n) | 5n -> expected: [5, 1]
+      expect([...Bitset.fromBigInt((1n << 32n) | 5n)]).toEqual([5, 1]);
+    });
+
+    test("keeps the top bit of a word unsigned", () => {
+      // input: 0x80000000n -> expected: [2147483648]
+      expect([...Bitset.fromBigInt(0x80000000n)]).toEqual([0x80000000]);
+    });
+
+    test("throws RangeError for a negative value", () => {
+      // input: -1n -> a bitset has no sign
+      expect(() => Bitset.fromBigInt(-1n)).toThrow(RangeError);
+    });
+  });
+
+  describe("toBigInt()", () => {
+    test("round-trips large values", () => {
+      // input: (1n << 300n) | 7n -> expected: same bigint back
+      const value = (1n << 300n) | 7n;
+      expect(Bitset.fromBigInt(value).toBigInt()).toBe(value);
+    });
+
+    test("ignores trailing zero words", () => {
+      // input: [3, 0, 0] -> expected: 3n
+      expect(new Bitset([3, 0, 0]).toBigInt()).toBe(3n);
+    });
+  });
+
+  describe("toString()", () => {
+    test("formats the numeric value in decimal by default", () => {
+      // input: 1n << 40n -> expected: "1099511627776", not a word list
+      expect(Bitset.fromBigInt(1n << 40n).toString()).toBe("1099511627776");
+    });
+
+    test("honours the radix argument", () => {
+      // input: 5n, radix 2 -> expected: "101"
+      expect(Bitset.fromBigInt(5n).toString(2)).toBe("101");
+    });
+
+    test("formats zero as \"0\"", () => {
+      // input: empty bitset -> expected: "0"
+      expect(new Bitset(0).toString()).toBe("0");
+    });
+
+    test("is used by template literals", () => {
+      // input: `${bitset}` -> expected: decimal value
+      expect(`${Bitset.fromBigInt(12n)}`).toBe("12");
+    });
+  });
+});
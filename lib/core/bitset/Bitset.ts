@@ -0,0 +1,82 @@
+/**
+ * A multi-word bit vector backed by a `Uint32Array`.
+ *
+ * Word `i` holds bits `32 * i` through `32 * i + 31` (little-endian word
+ * order), so bit `n` lives at `bitset[n >>> 5] & (1 << (n & 31))`. Words past
+ * the end of the array are treated as zero, which means two bitsets that
+ * differ only in trailing zero words describe the same value.
+ *
+ * `Bitset` overrides `toString` to print the numeric value instead of the
+ * comma-separated word list inherited from `Uint32Array`, so a bitset can be
+ * formatted, serialized and parsed back exactly like `number` and `bigint`
+ * bits.
+ *
+ * Registries and the {@link BitsetCombinator} hand out bitsets nothing else
+ * holds: `get()`, `values()`, `entries()`, `fullBits` and
+ * `BitsetCombinator.one` return copies, and `BitsetCombinator.zero` is
+ * frozen. The bits of a flag still belong to that flag, so treat them as
+ * immutable like any other flag state.
+ *
+ * @category Bitset
+ */
+export class Bitset extends Uint32Array {
+  /**
+   * Creates a bitset holding the same bits as a non-negative `bigint`.
+   *
+   * @param value - The value to convert.
+   * @returns A bitset with no trailing zero words.
+   * @throws {RangeError} If `value` is negative.
+   *
+   * @example
+   * ```ts
+   * Bitset.fromBigInt(5n);         // Bitset [5]
+   * Bitset.fromBigInt(1n << 32n);  // Bitset [0, 1]
+   * ```
+   */
+  static fromBigInt(value: bigint): Bitset {
+    if (value < 0n)
+      throw new RangeError(`Bitset requires a non-negative bigint, got ${value}`);
+
+    const words: number[] = [];
+
+    for (let n = value; n > 0n; n >>= 32n) {
+      words.push(Number(n & 0xffffffffn));
+    }
+
+    return new Bitset(words);
+  }
+
+  /**
+   * Converts the bitset to an equivalent non-negative `bigint`.
+   *
+   * @example
+   * ```ts
+   * Bitset.fromBigInt(1n << 40n).toBigInt(); // 1099511627776n
+   * ```
+   */
+  toBigInt(): bigint {
+    let out = 0n;
+
+    for (let i = this.length - 1; i >= 0; i--) {
+      out = (out << 32n) | BigInt(this[i] ?? 0);
+    }
+
+    return out;
+  }
+
+  /**
+   * Returns the numeric value of the bitset as a string.
+   *
+   * @param radix - The radix used for formatting (e.g. `2` for binary,
+   *   `16` for hex). Defaults to `10`.
+   *
+   * @example
+   * ```ts
+   * Bitset.fromBigInt(5n).toString();  // "5"
+   * Bitset.fromBigInt(5n).toString(2); // "101"
+   * ```
+   */
+  override toString(radix?: number): string {
+    return this.toBigInt().toString(radix);
+  }
+}
@@ -0,0 +1 @@
+export { Bitset } from "./Bitset";
@@ -17,6 +17,30 @@ describe("BigIntCombinator", () => {
     });
   });
 
+  describe("one", () => {
+    test("is 1n", () => {
+      // expected: only bit 0 set
+      expect(c.one).toBe(1n);
+    });
+  });
+
+  describe("equals", () => {
+    test("returns true for identical values", () => {
+      // input: 5n, 5n -> expected: true
+      expect(c.equals(5n, 5n)).toBe(true);
+    });
+
+    test("returns false for different values", () => {
+      // input: 5n, 4n -> expected: false
+      expect(c.equals(5n, 4n)).toBe(false);
+    });
+
+    test("zero equals zero", () => {
+      // input: zero, 0n -> expected: true
+      expect(c.equals(c.zero, 0n)).toBe(true);
+    });
+  });
+
   describe("popcount", () => {
     test("returns 0 for 0n", () => {
       // input: 0n -> expected: 0 bits set
@@ -105,6 +129,17 @@ describe("BigIntCombinator", () => {
     });
   });
 
+  describe("orAll", () => {
+    test("combines every value", () => {
+      // input: 1 | 4 | 8 -> expected: 13
+      expect(c.orAll([1n, 4n, 8n])).toBe(13n);
+    });
+
+    test("returns 0n for no values", () => {
+      expect(c.orAll([])).toBe(0n);
+    });
+  });
+
   describe("and", () => {
     test("0n & 0n === 0n", () => {
       expect(c.and(0n, 0n)).toBe(0n);
@@ -280,4 +315,57 @@ describe("BigIntCombinator", () => {
       expect(c.popcount(c.shiftL(1n, 63))).toBe(1);
     });
   });
+
+  describe("shiftR", () => {
+    test("drops bits shifted past position 0", () => {
+      // input: 0b1011n >> 2 -> expected: 0b10n
+      expect(c.shiftR(0b1011n, 2)).toBe(0b10n);
+    });
+
+    test("shifts far beyond 64 bits", () => {
+      // input: (1 << 200) >> 199 -> expected: 2n
+      expect(c.shiftR(1n << 200n, 199)).toBe(2n);
+    });
+
+    test("shifting every bit out yields zero", () => {
+      // input: 5n >> 3 -> expected: 0n
+      expect(c.shiftR(5n, 3)).toBe(0n);
+    });
+  });
+
+  describe("lowestBit and highestBit", () => {
+    test("isolate the lowest and highest set bits", () => {
+      // input: (1 << 100) | 0b110 -> expected: 0b10 and 1 << 100
+      const a = (1n << 100n) | 0b110n;
+      expect(c.lowestBit(a)).toBe(0b10n);
+      expect(c.highestBit(a)).toBe(1n << 100n);
+    });
+
+    test("return 0n for 0n", () => {
+      expect(c.lowestBit(0n)).toBe(0n);
+      expect(c.highestBit(0n)).toBe(0n);
+    });
+
+    test("highestBit throws RangeError for a negative value", () => {
+      expect(() => c.highestBit(-1n)).toThrow(RangeError);
+    });
+  });
+
+  describe("bitLength and trailingZeros", () => {
+    test("locate the highest and lowest set bits", () => {
+      // input: (1 << 99) | (1 << 3) -> expected: length 100, 3 trailing zeros
+      const a = (1n << 99n) | (1n << 3n);
+      expect(c.bitLength(a)).toBe(100);
+      expect(c.trailingZeros(a)).toBe(3);
+    });
+
+    test("return 0 and -1 for 0n", () => {
+      expect(c.bitLength(0n)).toBe(0);
+      expect(c.trailingZeros(0n)).toBe(-1);
+    });
+
+    test("bitLength throws RangeError for a negative value", () => {
+      expect(() => c.bitLength(-8n)).toThrow(RangeError);
+    });
+  });
 });
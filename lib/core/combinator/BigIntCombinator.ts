@@ -21,6 +21,20 @@ export class BigIntCombinator implements Combinator<bigint> {
   /** Neutral element for bitwise OR — a `bigint` with no bits set. */
   readonly zero = 0n;
 
+  /** A `bigint` with only bit 0 set. */
+  readonly one = 1n;
+
+  /**
+   * Returns `true` when `a` and `b` are the same value.
+   *
+   * @param a - First operand.
+   * @param b - Second operand.
+   * @returns `a === b`.
+   */
+  equals(a: bigint, b: bigint): boolean {
+    return a === b;
+  }
+
   /**
    * Counts the number of set bits (population count) in `a`.
    *
@@ -68,6 +82,16 @@ export class BigIntCombinator implements Combinator<bigint> {
     return a | b;
   }
 
+  /**
+   * Returns the bitwise OR of every value in `values`.
+   *
+   * @param values - The values to combine.
+   * @returns The bitwise OR of `values`, or `0n` if it is empty.
+   */
+  orAll(values: readonly bigint[]): bigint {
+    return values.reduce((mask, value) => mask | value, 0n);
+  }
+
   /**
    * Returns the bitwise AND of `a` and `b`.
    *
@@ -133,4 +157,91 @@ export class BigIntCombinator implements Combinator<bigint> {
   shiftL(value: bigint, shift: number): bigint {
     return value << BigInt(shift);
   }
+
+  /**
+   * Shifts `value` right by `shift` bit positions.
+   *
+   * @param value - Value to shift.
+   * @param shift - Number of positions to shift right (no upper bound enforced).
+   * @returns `value >> BigInt(shift)` as a `bigint`.
+   *
+   * @example
+   * ```ts
+   * c.shiftR(2n ** 100n, 99) // → 2n
+   * ```
+   */
+  shiftR(value: bigint, shift: number): bigint {
+    return value >> BigInt(shift);
+  }
+
+  /**
+   * Isolates the lowest set bit of `a` with `a & -a`.
+   *
+   * @param a - Value to inspect.
+   * @returns The lowest set bit of `a`, or `0n`.
+   *
+   * @example
+   * ```ts
+   * c.lowestBit(0b1100n) // → 0b0100n
+   * ```
+   */
+  lowestBit(a: bigint): bigint {
+    return a & -a;
+  }
+
+  /**
+   * Isolates the highest set bit of `a`.
+   *
+   * @param a - Non-negative value to inspect.
+   * @returns The highest set bit of `a`, or `0n`.
+   * @throws {RangeError} If `a` is negative.
+   *
+   * @example
+   * ```ts
+   * c.highestBit((1n << 100n) | 1n) // → 1n << 100n
+   * ```
+   */
+  highestBit(a: bigint): bigint {
+    const length = this.bitLength(a);
+
+    return length === 0 ? 0n : 1n << BigInt(length - 1);
+  }
+
+  /**
+   * Returns the position of the highest set bit of `a` plus one.
+   *
+   * A negative value has infinitely many leading `1` bits and no bit length,
+   * so it throws like {@link popcount}.
+   *
+   * @param a - Non-negative value to measure.
+   * @returns The bit length of `a`, or `0` for `0n`.
+   * @throws {RangeError} If `a` is negative.
+   *
+   * @example
+   * ```ts
+   * c.bitLength(0n)        // → 0
+   * c.bitLength(1n << 99n) // → 100
+   * ```
+   */
+  bitLength(a: bigint): number {
+    if (a < 0n)
+      throw new RangeError(`bitLength requires a non-negative bigint, got ${a}`);
+
+    return a === 0n ? 0 : a.toString(2).length;
+  }
+
+  /**
+   * Returns the position of the lowest set bit of `a`.
+   *
+   * @param a - Value to inspect.
+   * @returns The position of the lowest set bit, or `-1` for `0n`.
+   *
+   * @example
+   * ```ts
+   * c.trailingZeros(1n << 100n) // → 100
+   * ```
+   */
+  trailingZeros(a: bigint): number {
+    return this.bitLength(a & -a) - 1;
+  }
 }
@@ -0,0 +1,287 @@
+import { describe, expect, test } from "bun:test";
+
+import { Bitset } from "@/core/bitset";
+
+import { BitsetCombinator } from "./BitsetCombinator";
+
+const c = new BitsetCombinator();
+
+const b = (value: bigint) => Bitset.fromBigInt(value);
+
+describe("BitsetCombinator", () => {
+  describe("zero", () => {
+    test("is a zero-length Bitset", () => {
+      // expected: Bitset instance with no words
+      expect(c.zero).toBeInstanceOf(Bitset);
+      expect(c.zero.length).toBe(0);
+    });
+
+    test("is frozen", () => {
+      // expected: no property of the shared zero can be changed
+      expect(Object.isFrozen(c.zero)).toBe(true);
+    });
+  });
+
+  describe("one", () => {
+    test("has only bit 0 set", () => {
+      // expected: [1]
+      expect(c.one.toBigInt()).toBe(1n);
+    });
+
+    test("is a new bitset on every read", () => {
+      // input: one[0] = 2 -> expected: the next read is still [1]
+      const one = c.one;
+      one[0] = 2;
+      expect(c.one).not.toBe(one);
+      expect(c.one.toBigInt()).toBe(1n);
+    });
+  });
+
+  describe("equals", () => {
+    test("returns true for bitsets with the same words", () => {
+      // input: two separately allocated [5] -> expected: true
+      expect(c.equals(b(5n), b(5n))).toBe(true);
+    });
+
+    test("returns false for different values", () => {
+      // input: 5, 4 -> expected: false
+      expect(c.equals(b(5n), b(4n))).toBe(false);
+    });
+
+    test("ignores trailing zero words", () => {
+      // input: [5] vs [5, 0, 0] -> expected: true
+      expect(c.equals(b(5n), new Bitset([5, 0, 0]))).toBe(true);
+    });
+
+    test("compares high words", () => {
+      // input: 1 << 40 vs 1 << 41 -> expected: false
+      expect(c.equals(b(1n << 40n), b(1n << 41n))).toBe(false);
+    });
+  });
+
+  describe("popcount", () => {
+    test("returns 0 for zero", () => {
+      // input: zero -> expected: 0
+      expect(c.popcount(c.zero)).toBe(0);
+    });
+
+    test("counts bits in a single word", () => {
+      // input: 0b111 -> expected: 3
+      expect(c.popcount(b(7n))).toBe(3);
+    });
+
+    test("counts a full 32-bit word", () => {
+      // input: 0xFFFFFFFF -> expected: 32 (no sign coercion)
+      expect(c.popcount(b(0xffffffffn))).toBe(32);
+    });
+
+    test("counts bits across many words", () => {
+      // input: (1 << 128) - 1 -> expected: 128
+      expect(c.popcount(b((1n << 128n) - 1n))).toBe(128);
+    });
+  });
+
+  describe("or", () => {
+    test("combines bits from both operands", () => {
+      // input: 1 | 4 -> expected: 5
+      expect(c.or(b(1n), b(4n)).toBigInt()).toBe(5n);
+    });
+
+    test("handles operands of different lengths", () => {
+      // input: 1 | (1 << 64) -> expected: (1 << 64) + 1
+      expect(c.or(b(1n), b(1n << 64n)).toBigInt()).toBe((1n << 64n) | 1n);
+    });
+
+    test("zero is the identity", () => {
+      // input: zero | 6 -> expected: 6
+      expect(c.equals(c.or(c.zero, b(6n)), b(6n))).toBe(true);
+    });
+
+    test("does not modify its operands", () => {
+      // input: x = 1, x | 2 -> expected: x still 1
+      const x = b(1n);
+      c.or(x, b(2n));
+      expect(x.toBigInt()).toBe(1n);
+    });
+  });
+
+  describe("orAll", () => {
+    test("combines every value", () => {
+      // input: 1 | 4 | (1 << 64) -> expected: (1 << 64) + 5
+      expect(c.orAll([b(1n), b(4n), b(1n << 64n)]).toBigInt()).toBe(
+        (1n << 64n) | 5n,
+      );
+    });
+
+    test("returns zero for no values", () => {
+      // input: [] -> expected: zero-length bitset
+      expect(c.orAll([]).length).toBe(0);
+    });
+
+    test("drops trailing zero words of its operands", () => {
+      // input: [5, 0, 0] | [2] -> expected: [7]
+      expect(Array.from(c.orAll([new Bitset([5, 0, 0]), b(2n)]))).toEqual([7]);
+    });
+
+    test("does not modify its operands", () => {
+      // input: x = 1, orAll([x, 2]) -> expected: x still 1
+      const x = b(1n);
+      c.orAll([x, b(2n)]);
+      expect(x.toBigInt()).toBe(1n);
+    });
+  });
+
+  describe("and", () => {
+    test("keeps only shared bits", () => {
+      // input: 6 & 3 -> expected: 2
+      expect(c.and(b(6n), b(3n)).toBigInt()).toBe(2n);
+    });
+
+    test("drops trailing zero words from the result", () => {
+      // input: ((1 << 64) | 1) & ((1 << 32) | 1) -> expected: 1, length 1
+      const result = c.and(b((1n << 64n) | 1n), b((1n << 32n) | 1n));
+      expect(result.toBigInt()).toBe(1n);
+      expect(result.length).toBe(1);
+    });
+
+    test("returns zero-length bitset for disjoint operands", () => {
+      // input: (1 << 40) & 1 -> expected: zero, length 0
+      const result = c.and(b(1n << 40n), b(1n));
+      expect(result.length).toBe(0);
+      expect(c.equals(result, c.zero)).toBe(true);
+    });
+  });
+
+  describe("andNot", () => {
+    test("clears bits of b from a", () => {
+      // input: 7 & ~2 -> expected: 5
+      expect(c.andNot(b(7n), b(2n)).toBigInt()).toBe(5n);
+    });
+
+    test("keeps high words of a when b is shorter", () => {
+      // input: ((1 << 100) | 1) & ~1 -> expected: 1 << 100
+      expect(c.andNot(b((1n << 100n) | 1n), b(1n)).toBigInt()).toBe(1n << 100n);
+    });
+
+    test("clearing every bit yields zero", () => {
+      // input: 5 & ~5 -> expected: zero
+      expect(c.equals(c.andNot(b(5n), b(5n)), c.zero)).toBe(true);
+    });
+  });
+
+  describe("xor", () => {
+    test("flips shared bits off and unique bits on", () => {
+      // input: 6 ^ 3 -> expected: 5
+      expect(c.xor(b(6n), b(3n)).toBigInt()).toBe(5n);
+    });
+
+    test("x ^ x is zero", () => {
+      // input: (1 << 70) ^ (1 << 70) -> expected: zero
+      expect(c.equals(c.xor(b(1n << 70n), b(1n << 70n)), c.zero)).toBe(true);
+    });
+  });
+
+  describe("not", () => {
+    test("inverts bits within the operand's words", () => {
+      // input: ~0xFFFFFFFE (one word) -> expected: 1
+      expect(c.not(b(0xfffffffen)).toBigInt()).toBe(1n);
+    });
+
+    test("not(zero) is zero", () => {
+      // a bitset has no infinite leading ones to invert
+      expect(c.equals(c.not(c.zero), c.zero)).toBe(true);
+    });
+  });
+
+  describe("shiftL", () => {
+    test("shift by 0 returns the same value", () => {
+      // input: 5 << 0 -> expected: 5
+      expect(c.shiftL(b(5n), 0).toBigInt()).toBe(5n);
+    });
+
+    test("shift within a word", () => {
+      // input: 1 << 4 -> expected: 16
+      expect(c.shiftL(b(1n), 4).toBigInt()).toBe(16n);
+    });
+
+    test("shift carries bits into the next word", () => {
+      // input: 3 << 31 -> expected: 3 * 2^31
+      expect(c.shiftL(b(3n), 31).toBigInt()).toBe(3n << 31n);
+    });
+
+    test("shift by a whole number of words", () => {
+      // input: 1 << 64 -> expected: 2^64
+      expect(c.shiftL(b(1n), 64).toBigInt()).toBe(1n << 64n);
+    });
+
+    test("shift far beyond 64 bits stays exact", () => {
+      // input: 0b101 << 1000 -> expected: 5 * 2^1000
+      expect(c.shiftL(b(5n), 1000).toBigInt()).toBe(5n << 1000n);
+    });
+  });
+
+  describe("shiftR", () => {
+    test("shift by 0 returns the same value", () => {
+      // input: 5 >> 0 -> expected: 5
+      expect(c.shiftR(b(5n), 0).toBigInt()).toBe(5n);
+    });
+
+    test("shift carries bits into the lower word", () => {
+      // input: 3 << 31 >> 31 -> expected: 3
+      expect(c.shiftR(b(3n << 31n), 31).toBigInt()).toBe(3n);
+    });
+
+    test("shift by a whole number of words drops them", () => {
+      // input: ((1 << 64) | 1) >> 64 -> expected: 1, length 1
+      const result = c.shiftR(b((1n << 64n) | 1n), 64);
+      expect(result.toBigInt()).toBe(1n);
+      expect(result.length).toBe(1);
+    });
+
+    test("shifting every bit out yields zero", () => {
+      // input: (1 << 70) >> 71 -> expected: zero
+      expect(c.equals(c.shiftR(b(1n << 70n), 71), c.zero)).toBe(true);
+      expect(c.equals(c.shiftR(b(1n << 70n), 500), c.zero)).toBe(true);
+    });
+  });
+
+  describe("lowestBit and highestBit", () => {
+    test("isolate the lowest and highest set bits across words", () => {
+      // input: (1 << 100) | (1 << 40) -> expected: 1 << 40 and 1 << 100
+      const a = b((1n << 100n) | (1n << 40n));
+      expect(c.lowestBit(a).toBigInt()).toBe(1n << 40n);
+      expect(c.highestBit(a).toBigInt()).toBe(1n << 100n);
+    });
+
+    test("handle bit 31 of a word without sign issues", () => {
+      // input: 1 << 31 -> expected: 1 << 31 for both
+      expect(c.lowestBit(b(1n << 31n)).toBigInt()).toBe(1n << 31n);
+      expect(c.highestBit(b(1n << 31n)).toBigInt()).toBe(1n << 31n);
+    });
+
+    test("return zero for zero, even with zero words", () => {
+      // input: [0, 0] -> expected: zero
+      expect(c.equals(c.lowestBit(new Bitset([0, 0])), c.zero)).toBe(true);
+      expect(c.equals(c.highestBit(new Bitset([0, 0])), c.zero)).toBe(true);
+    });
+  });
+
+  describe("bitLength and trailingZeros", () => {
+    test("locate the highest and lowest set bits across words", () => {
+      // input: (1 << 99) | (1 << 33) -> expected: length 100, 33 zeros
+      const a = b((1n << 99n) | (1n << 33n));
+      expect(c.bitLength(a)).toBe(100);
+      expect(c.trailingZeros(a)).toBe(33);
+    });
+
+    test("skip trailing zero words", () => {
+      // input: [5, 0, 0] -> expected: length 3
+      expect(c.bitLength(new Bitset([5, 0, 0]))).toBe(3);
+    });
+
+    test("return 0 and -1 for zero", () => {
+      expect(c.bitLength(c.zero)).toBe(0);
+      expect(c.trailingZeros(c.zero)).toBe(-1);
+    });
+  });
+});
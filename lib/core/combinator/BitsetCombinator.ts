@@ -0,0 +1,391 @@
+import { Bitset } from "@/core/bitset";
+
+import type { Combinator } from "./types";
+
+/**
+ * Counts the set bits of a single unsigned 32-bit word (SWAR popcount).
+ *
+ * @internal
+ */
+function popcount32(word: number): number {
+  let n = word >>> 0;
+
+  n = n - ((n >>> 1) & 0x55555555);
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  n = (n + (n >>> 4)) & 0x0f0f0f0f;
+
+  return Math.imul(n, 0x01010101) >>> 24;
+}
+
+/**
+ * Returns the length of `words` without its trailing zero words.
+ *
+ * @internal
+ */
+function size(words: Bitset): number {
+  let length = words.length;
+
+  while (length > 0 && words[length - 1] === 0) length--;
+
+  return length;
+}
+
+/**
+ * Drops trailing zero words from `words` by returning a view of the same
+ * buffer, so every result of the combinator has a canonical length.
+ *
+ * @internal
+ */
+function trim(words: Bitset): Bitset {
+  const length = size(words);
+
+  if (length === words.length) return words;
+
+  return new Bitset(words.buffer, words.byteOffset, length);
+}
+
+/**
+ * Implements {@link Combinator} for {@link Bitset}, a multi-word bit vector
+ * stored in a `Uint32Array`.
+ *
+ * Every operation works word by word with JavaScript's 32-bit bitwise
+ * operators and writes its result into a freshly allocated bitset, so inputs
+ * are never modified. The result is sized before it is allocated, so an
+ * operation allocates a single bitset. Operands may have different lengths: missing words are
+ * read as zero. Results never carry trailing zero words, which keeps
+ * {@link zero} a zero-length bitset and keeps {@link equals} cheap.
+ *
+ * Unlike `bigint`, a bitset has no sign and no infinite leading ones, so
+ * {@link not} inverts only the words the operand actually has.
+ *
+ * @category Combinator
+ * @internal
+ */
+export class BitsetCombinator implements Combinator<Bitset> {
+  /**
+   * Neutral element for bitwise OR — a zero-length bitset. It has no words to
+   * write to, and is frozen, so it is safe to share.
+   */
+  readonly zero: Bitset = Object.freeze(new Bitset(0));
+
+  /** A single-word bitset with only bit 0 set, new on every read. */
+  get one(): Bitset {
+    return new Bitset([1]);
+  }
+
+  /**
+   * Returns `true` when `a` and `b` have exactly the same bits set.
+   *
+   * Trailing zero words are ignored, so `[5]` equals `[5, 0]`.
+   *
+   * @param a - First operand.
+   * @param b - Second operand.
+   * @returns `true` if every word of `a` equals the matching word of `b`.
+   */
+  equals(a: Bitset, b: Bitset): boolean {
+    if (a === b) return true;
+
+    const length = Math.max(a.length, b.length);
+
+    for (let i = 0; i < length; i++) {
+      if ((a[i] ?? 0) !== (b[i] ?? 0)) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Counts the number of set bits (population count) across all words of `a`.
+   *
+   * @param a - Value whose set bits are counted.
+   * @returns The count of bits set to `1` in `a`.
+   *
+   * @example
+   * ```ts
+   * c.popcount(Bitset.fromBigInt(0b0111n))           // → 3
+   * c.popcount(Bitset.fromBigInt((1n << 128n) - 1n)) // → 128
+   * ```
+   */
+  popcount(a: Bitset): number {
+    let c = 0;
+
+    for (const word of a) {
+      c += popcount32(word);
+    }
+
+    return c;
+  }
+
+  /**
+   * Returns the bitwise OR of `a` and `b`.
+   *
+   * @param a - First operand.
+   * @param b - Second operand.
+   * @returns `a | b` as a new bitset.
+   */
+  or(a: Bitset, b: Bitset): Bitset {
+    const out = new Bitset(Math.max(size(a), size(b)));
+
+    for (let i = 0; i < out.length; i++) {
+      out[i] = (a[i] ?? 0) | (b[i] ?? 0);
+    }
+
+    return out;
+  }
+
+  /**
+   * Returns the bitwise OR of every value in `values`. The result is sized
+   * once and every value is ORed into it in place, instead of allocating a
+   * bitset per value the way folding with {@link or} does.
+   *
+   * @param values - The values to combine.
+   * @returns The bitwise OR of `values` as a new bitset.
+   */
+  orAll(values: readonly Bitset[]): Bitset {
+    const out = new Bitset(
+      values.reduce((length, value) => Math.max(length, size(value)), 0),
+    );
+
+    for (const value of values) {
+      const length = size(value);
+
+      for (let i = 0; i < length; i++) {
+        out[i] = (out[i] ?? 0) | (value[i] ?? 0);
+      }
+    }
+
+    return out;
+  }
+
+  /**
+   * Returns the bitwise AND of `a` and `b`.
+   *
+   * @param a - First operand.
+   * @param b - Second operand.
+   * @returns `a & b` as a new bitset.
+   */
+  and(a: Bitset, b: Bitset): Bitset {
+    let length = Math.min(a.length, b.length);
+
+    while (length > 0 && ((a[length - 1] ?? 0) & (b[length - 1] ?? 0)) === 0) {
+      length--;
+    }
+
+    const out = new Bitset(length);
+
+    for (let i = 0; i < length; i++) {
+      out[i] = (a[i] ?? 0) & (b[i] ?? 0);
+    }
+
+    return out;
+  }
+
+  /**
+   * Returns the bitwise AND of `a` and `~b`.
+   * Same as `combinator.and(a, combinator.not(b))`, except that words of `a`
+   * beyond the end of `b` are kept as they are.
+   *
+   * @param a - First operand.
+   * @param b - Second operand.
+   * @returns `a & ~b` as a new bitset.
+   */
+  andNot(a: Bitset, b: Bitset): Bitset {
+    let length = a.length;
+
+    while (length > 0 && ((a[length - 1] ?? 0) & ~(b[length - 1] ?? 0)) === 0) {
+      length--;
+    }
+
+    const out = new Bitset(length);
+
+    for (let i = 0; i < length; i++) {
+      out[i] = (a[i] ?? 0) & ~(b[i] ?? 0);
+    }
+
+    return out;
+  }
+
+  /**
+   * Returns the bitwise XOR of `a` and `b`.
+   *
+   * @param a - First operand.
+   * @param b - Second operand.
+   * @returns `a ^ b` as a new bitset.
+   */
+  xor(a: Bitset, b: Bitset): Bitset {
+    let length = Math.max(a.length, b.length);
+
+    while (length > 0 && ((a[length - 1] ?? 0) ^ (b[length - 1] ?? 0)) === 0) {
+      length--;
+    }
+
+    const out = new Bitset(length);
+
+    for (let i = 0; i < length; i++) {
+      out[i] = (a[i] ?? 0) ^ (b[i] ?? 0);
+    }
+
+    return out;
+  }
+
+  /**
+   * Returns the bitwise NOT of `a`, limited to the words `a` already has.
+   *
+   * A bitset has no sign, so the inversion cannot extend to infinitely many
+   * leading ones the way `~` does for `bigint`. In particular
+   * `not(zero)` is `zero`.
+   *
+   * @param a - Value to invert.
+   * @returns `~a` over the width of `a`, as a new bitset.
+   */
+  not(a: Bitset): Bitset {
+    let length = a.length;
+
+    while (length > 0 && ~(a[length - 1] ?? 0) === 0) length--;
+
+    const out = new Bitset(length);
+
+    for (let i = 0; i < length; i++) {
+      out[i] = ~(a[i] ?? 0);
+    }
+
+    return out;
+  }
+
+  /**
+   * Shifts `value` left by `shift` bit positions.
+   *
+   * The result grows by as many words as needed, so no bits are ever lost.
+   *
+   * @param value - Value to shift.
+   * @param shift - Number of positions to shift left (no upper bound enforced).
+   * @returns `value << shift` as a new bitset.
+   *
+   * @example
+   * ```ts
+   * c.shiftL(Bitset.fromBigInt(1n), 100).toBigInt() // → 2n ** 100n
+   * ```
+   */
+  shiftL(value: Bitset, shift: number): Bitset {
+    const words = shift >>> 5;
+    const bits = shift & 31;
+
+    const out = new Bitset(value.length + words + 1);
+
+    for (let i = 0; i < value.length; i++) {
+      const word = value[i] ?? 0;
+
+      out[i + words] = (out[i + words] ?? 0) | (word << bits);
+
+      if (bits !== 0) out[i + words + 1] = word >>> (32 - bits);
+    }
+
+    return trim(out);
+  }
+
+  /**
+   * Shifts `value` right by `shift` bit positions.
+   *
+   * Bits shifted past position 0 are dropped, and the result shrinks by as
+   * many words as needed.
+   *
+   * @param value - Value to shift.
+   * @param shift - Number of positions to shift right (no upper bound enforced).
+   * @returns `value >> shift` as a new bitset.
+   *
+   * @example
+   * ```ts
+   * c.shiftR(Bitset.fromBigInt(1n << 100n), 99).toBigInt() // → 2n
+   * ```
+   */
+  shiftR(value: Bitset, shift: number): Bitset {
+    const words = shift >>> 5;
+    const bits = shift & 31;
+
+    const out = new Bitset(Math.max(value.length - words, 0));
+
+    for (let i = 0; i < out.length; i++) {
+      const low = (value[i + words] ?? 0) >>> bits;
+      const high = bits === 0 ? 0 : (value[i + words + 1] ?? 0) << (32 - bits);
+
+      out[i] = low | high;
+    }
+
+    return trim(out);
+  }
+
+  /**
+   * Isolates the lowest set bit of `a`: the lowest non-zero word, reduced to
+   * its lowest bit with `word & -word`.
+   *
+   * @param a - Value to inspect.
+   * @returns The lowest set bit of `a` as a new bitset, or {@link zero}.
+   */
+  lowestBit(a: Bitset): Bitset {
+    for (let i = 0; i < a.length; i++) {
+      const word = a[i] ?? 0;
+
+      if (word !== 0) {
+        const out = new Bitset(i + 1);
+        out[i] = word & -word;
+
+        return out;
+      }
+    }
+
+    return this.zero;
+  }
+
+  /**
+   * Isolates the highest set bit of `a`: the highest non-zero word, reduced
+   * to its highest bit with `Math.clz32`.
+   *
+   * @param a - Value to inspect.
+   * @returns The highest set bit of `a` as a new bitset, or {@link zero}.
+   */
+  highestBit(a: Bitset): Bitset {
+    const length = this.bitLength(a);
+
+    if (length === 0) return this.zero;
+
+    return this.shiftL(this.one, length - 1);
+  }
+
+  /**
+   * Returns the position of the highest set bit of `a` plus one. Trailing
+   * zero words are skipped.
+   *
+   * @param a - Value to measure.
+   * @returns The bit length of `a`, or `0` if no bit is set.
+   *
+   * @example
+   * ```ts
+   * c.bitLength(Bitset.fromBigInt(1n << 99n)) // → 100
+   * ```
+   */
+  bitLength(a: Bitset): number {
+    for (let i = a.length - 1; i >= 0; i--) {
+      const word = a[i] ?? 0;
+
+      if (word !== 0) return i * 32 + 32 - Math.clz32(word);
+    }
+
+    return 0;
+  }
+
+  /**
+   * Returns the position of the lowest set bit of `a`.
+   *
+   * @param a - Value to inspect.
+   * @returns The position of the lowest set bit, or `-1` if no bit is set.
+   */
+  trailingZeros(a: Bitset): number {
+    for (let i = 0; i < a.length; i++) {
+      const word = a[i] ?? 0;
+
+      if (word !== 0) return i * 32 + 31 - Math.clz32(word & -word);
+    }
+
+    return -1;
+  }
+}
@@ -17,6 +17,30 @@ describe("NumberCombinator", () => {
     });
   });
 
+  describe("one", () => {
+    test("is 1", () => {
+      // expected: only bit 0 set
+      expect(c.one).toBe(1);
+    });
+  });
+
+  describe("equals", () => {
+    test("returns true for identical values", () => {
+      // input: 5, 5 -> expected: true
+      expect(c.equals(5, 5)).toBe(true);
+    });
+
+    test("returns false for different values", () => {
+      // input: 5, 4 -> expected: false
+      expect(c.equals(5, 4)).toBe(false);
+    });
+
+    test("zero equals zero", () => {
+      // input: zero, 0 -> expected: true
+      expect(c.equals(c.zero, 0)).toBe(true);
+    });
+  });
+
   describe("popcount", () => {
     test("returns 0 for 0", () => {
       // input: 0 -> expected: 0 bits set
@@ -80,6 +104,17 @@ describe("NumberCombinator", () => {
     });
   });
 
+  describe("orAll", () => {
+    test("combines every value", () => {
+      // input: 1 | 4 | 8 -> expected: 13
+      expect(c.orAll([1, 4, 8])).toBe(13);
+    });
+
+    test("returns 0 for no values", () => {
+      expect(c.orAll([])).toBe(0);
+    });
+  });
+
   describe("and", () => {
     test("0 & 0 === 0", () => {
       expect(c.and(0, 0)).toBe(0);
@@ -222,4 +257,64 @@ describe("NumberCombinator", () => {
       expect(c.popcount(shifted)).toBe(1);
     });
   });
+
+  describe("shiftR", () => {
+    test("shift by 0 is identity", () => {
+      // input: 5 >> 0 -> expected: 5
+      expect(c.shiftR(5, 0)).toBe(5);
+    });
+
+    test("drops bits shifted past position 0", () => {
+      // input: 0b1011 >> 2 -> expected: 0b10
+      expect(c.shiftR(0b1011, 2)).toBe(0b10);
+    });
+
+    test("does not copy the sign bit", () => {
+      // input: 1 << 31 >> 31 -> expected: 1
+      expect(c.shiftR(c.shiftL(1, 31), 31)).toBe(1);
+    });
+
+    test("shift by 32 or more is 0", () => {
+      // input: -1 >> 32 -> expected: 0 (not -1, as >>> would give)
+      expect(c.shiftR(-1, 32)).toBe(0);
+    });
+  });
+
+  describe("lowestBit and highestBit", () => {
+    test("isolate the lowest and highest set bits", () => {
+      // input: 0b10110 -> expected: 0b10 and 0b10000
+      expect(c.lowestBit(0b10110)).toBe(0b10);
+      expect(c.highestBit(0b10110)).toBe(0b10000);
+    });
+
+    test("return 0 for 0", () => {
+      expect(c.lowestBit(0)).toBe(0);
+      expect(c.highestBit(0)).toBe(0);
+    });
+
+    test("handle bit 31", () => {
+      // input: 1 << 31 | 1 -> expected highest: 1 << 31 (signed)
+      expect(c.highestBit(c.shiftL(1, 31) | 1)).toBe(c.shiftL(1, 31));
+      expect(c.lowestBit(c.shiftL(1, 31))).toBe(c.shiftL(1, 31));
+    });
+  });
+
+  describe("bitLength and trailingZeros", () => {
+    test("locate the highest and lowest set bits", () => {
+      // input: 0b10100 -> expected: length 5, 2 trailing zeros
+      expect(c.bitLength(0b10100)).toBe(5);
+      expect(c.trailingZeros(0b10100)).toBe(2);
+    });
+
+    test("return 0 and -1 for 0", () => {
+      expect(c.bitLength(0)).toBe(0);
+      expect(c.trailingZeros(0)).toBe(-1);
+    });
+
+    test("handle bit 31", () => {
+      // input: 1 << 31 -> expected: length 32, 31 trailing zeros
+      expect(c.bitLength(c.shiftL(1, 31))).toBe(32);
+      expect(c.trailingZeros(c.shiftL(1, 31))).toBe(31);
+    });
+  });
 });
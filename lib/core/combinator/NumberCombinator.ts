@@ -16,6 +16,20 @@ export class NumberCombinator implements Combinator<number> {
   /** Neutral element for bitwise OR — a `number` with no bits set. */
   readonly zero: number = 0;
 
+  /** A `number` with only bit 0 set. */
+  readonly one: number = 1;
+
+  /**
+   * Returns `true` when `a` and `b` are the same value.
+   *
+   * @param a - First operand.
+   * @param b - Second operand.
+   * @returns `a === b`.
+   */
+  equals(a: number, b: number): boolean {
+    return a === b;
+  }
+
   /**
    * Counts the number of set bits (population count) in `a`.
    *
@@ -54,6 +68,16 @@ export class NumberCombinator implements Combinator<number> {
     return a | b;
   }
 
+  /**
+   * Returns the bitwise OR of every value in `values`.
+   *
+   * @param values - The values to combine.
+   * @returns The bitwise OR of `values`, or `0` if it is empty.
+   */
+  orAll(values: readonly number[]): number {
+    return values.reduce((mask, value) => mask | value, 0);
+  }
+
   /**
    * Returns the bitwise AND of `a` and `b`.
    *
@@ -108,4 +132,92 @@ export class NumberCombinator implements Combinator<number> {
   shiftL(value: number, shift: number): number {
     return value << shift;
   }
+
+  /**
+   * Shifts `value` right by `shift` bit positions, filling with zeros.
+   *
+   * Uses `>>>` so the sign bit is not copied, then reinterprets the result as
+   * a signed 32-bit integer like every other operation. Shifting by 32 or
+   * more returns `0`.
+   *
+   * @param value - Value to shift.
+   * @param shift - Number of positions to shift right.
+   * @returns `value >>> shift` as a signed 32-bit integer.
+   *
+   * @example
+   * ```ts
+   * c.shiftR(16, 4)          // → 1
+   * c.shiftR(-2147483648, 31) // → 1  (bit 31 moved to bit 0)
+   * ```
+   */
+  shiftR(value: number, shift: number): number {
+    if (shift >= 32) return 0;
+
+    return (value >>> shift) | 0;
+  }
+
+  /**
+   * Isolates the lowest set bit of `a` with `a & -a`.
+   *
+   * @param a - Value to inspect.
+   * @returns The lowest set bit of `a`, or `0`.
+   *
+   * @example
+   * ```ts
+   * c.lowestBit(0b1100) // → 0b0100
+   * ```
+   */
+  lowestBit(a: number): number {
+    return a & -a;
+  }
+
+  /**
+   * Isolates the highest set bit of `a` using `Math.clz32`.
+   *
+   * @param a - Value to inspect.
+   * @returns The highest set bit of `a`, or `0`. Bit 31 is returned as
+   *   `-2147483648`, like `shiftL(1, 31)`.
+   *
+   * @example
+   * ```ts
+   * c.highestBit(0b1100) // → 0b1000
+   * ```
+   */
+  highestBit(a: number): number {
+    if (a === 0) return 0;
+
+    return 1 << (31 - Math.clz32(a));
+  }
+
+  /**
+   * Returns the position of the highest set bit of `a` plus one, from the
+   * count of leading zeros of its unsigned 32-bit form.
+   *
+   * @param a - Value to measure.
+   * @returns A length from `0` to `32`.
+   *
+   * @example
+   * ```ts
+   * c.bitLength(0)      // → 0
+   * c.bitLength(0b1100) // → 4
+   * ```
+   */
+  bitLength(a: number): number {
+    return 32 - Math.clz32(a);
+  }
+
+  /**
+   * Returns the position of the lowest set bit of `a`.
+   *
+   * @param a - Value to inspect.
+   * @returns A position from `0` to `31`, or `-1` for `0`.
+   *
+   * @example
+   * ```ts
+   * c.trailingZeros(0b1100) // → 2
+   * ```
+   */
+  trailingZeros(a: number): number {
+    return 31 - Math.clz32(a & -a);
+  }
 }
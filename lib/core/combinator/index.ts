@@ -1,4 +1,5 @@
 export { BigIntCombinator } from "./BigIntCombinator";
+export { BitsetCombinator } from "./BitsetCombinator";
 export { NumberCombinator } from "./NumberCombinator";
 
 export type { Combinator } from "./types";
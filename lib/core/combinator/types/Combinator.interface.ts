@@ -4,8 +4,8 @@ import type { Bit } from "@/core/types";
  * An abstract interface over a set of primitive bitwise operations for a given numeric
  * type `T`.
  *
- * @typeParam T - The numeric type over which bitwise operations are performed.
- *   Must be either `number` or `bigint` (i.e. {@link Bit}).
+ * @typeParam T - The value type over which bitwise operations are performed.
+ *   Must be `number`, `bigint` or `Bitset` (i.e. {@link Bit}).
  *
  * @category Combinator
  */
@@ -13,6 +13,21 @@ export interface Combinator<T extends Bit> {
   /** The identity element for `or` — a value with no bits set (`0` or `0n`). */
   readonly zero: T;
 
+  /** A value with only the lowest bit set (`1` or `1n`). */
+  readonly one: T;
+
+  /**
+   * Returns `true` when `a` and `b` have exactly the same bits set.
+   *
+   * Use this instead of `===`: value types that are not primitives (such as
+   * `Bitset`) are compared by reference by the language operators.
+   *
+   * @param a - First operand.
+   * @param b - Second operand.
+   * @returns `true` if `a` and `b` encode the same bits.
+   */
+  equals(a: T, b: T): boolean;
+
   /**
    * Counts the number of bits set to `1` in `a` (population count).
    *
@@ -30,6 +45,14 @@ export interface Combinator<T extends Bit> {
    */
   or(a: T, b: T): T;
 
+  /**
+   * Returns the bitwise OR of every value in `values`.
+   *
+   * @param values - The values to combine.
+   * @returns The bitwise OR of `values`, or {@link zero} if it is empty.
+   */
+  orAll(values: readonly T[]): T;
+
   /**
    * Returns the bitwise AND of `a` and `b`.
    *
@@ -74,4 +97,51 @@ export interface Combinator<T extends Bit> {
    * @returns `value << shift`.
    */
   shiftL(value: T, shift: number): T;
+
+  /**
+   * Shifts `value` right by `shift` bit positions. Bits shifted past
+   * position 0 are dropped.
+   *
+   * @param value - Value to shift.
+   * @param shift - Number of positions to shift right.
+   * @returns `value >> shift`.
+   */
+  shiftR(value: T, shift: number): T;
+
+  /**
+   * Isolates the lowest set bit of `a`.
+   *
+   * @param a - Value to inspect.
+   * @returns A value with only the lowest set bit of `a` set (`a & -a`), or
+   *   {@link zero} if `a` has no bits set.
+   */
+  lowestBit(a: T): T;
+
+  /**
+   * Isolates the highest set bit of `a`.
+   *
+   * @param a - Value to inspect.
+   * @returns A value with only the highest set bit of `a` set, or
+   *   {@link zero} if `a` has no bits set.
+   */
+  highestBit(a: T): T;
+
+  /**
+   * Returns the number of bits needed to represent `a`: the position of its
+   * highest set bit plus one.
+   *
+   * @param a - Value to measure.
+   * @returns The bit length of `a`, or `0` if `a` has no bits set.
+   */
+  bitLength(a: T): number;
+
+  /**
+   * Returns the position of the lowest set bit of `a`, i.e. the number of
+   * zero bits below it.
+   *
+   * @param a - Value to inspect.
+   * @returns The position of the lowest set bit, or `-1` if `a` has no bits
+   *   set.
+   */
+  trailingZeros(a: T): number;
 }
@@ -3,7 +3,12 @@
  * @module
  */
 
-export { BigIntCombinator, NumberCombinator } from "./combinator";
+export { Bitset } from "./bitset";
+export {
+  BigIntCombinator,
+  BitsetCombinator,
+  NumberCombinator,
+} from "./combinator";
 
 export type { Combinator } from "./combinator";
 export type * from "./types";
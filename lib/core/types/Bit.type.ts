@@ -1,4 +1,8 @@
+import type { Bitset } from "@/core/bitset";
+
 /**
- * The union of numeric primitives that support bitwise operations in JavaScript.
+ * The union of value types that can back a set of flags: the numeric
+ * primitives that support bitwise operations in JavaScript, plus the
+ * multi-word {@link Bitset}.
  */
-export type Bit = number | bigint;
+export type Bit = number | bigint | Bitset;
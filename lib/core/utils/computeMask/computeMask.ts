@@ -8,7 +8,7 @@ import type { Bit } from "@/core/types";
  * associative, and idempotent. Returns `combinator.zero` for an empty array.
  *
  * @typeParam T - The numeric type of the bit values (`number` or `bigint`).
- * @param combinator - Supplies `zero` (the fold seed) and `or` for the given `T`.
+ * @param combinator - Supplies `orAll` for the given `T`.
  * @param bits - The bit values to combine.
  * @returns The bitwise OR of all values in `bits`.
  *
@@ -24,5 +24,5 @@ export function computeMask<T extends Bit>(
   combinator: Combinator<T>,
   bits: readonly T[],
 ): T {
-  return bits.reduce((mask, b) => combinator.or(mask, b), combinator.zero);
+  return combinator.orAll(bits);
 }
@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+
+import { Bitset } from "@/core";
+
+import { copyBits } from "./copyBits";
+
+describe("copyBits", () => {
+  test("returns number and bigint values as they are", () => {
+    // input: 5 and 5n -> expected: the same values
+    expect(copyBits(5)).toBe(5);
+    expect(copyBits(5n)).toBe(5n);
+  });
+
+  test("returns a new Bitset with the same words", () => {
+    // input: Bitset [5, 1] -> expected: an equal but distinct Bitset
+    const bits = Bitset.fromBigInt((1n << 32n) | 5n);
+    const copy = copyBits(bits);
+
+    expect(copy).toBeInstanceOf(Bitset);
+    expect(copy).not.toBe(bits);
+    expect(copy.toBigInt()).toBe(bits.toBigInt());
+  });
+
+  test("writes to the copy do not reach the original", () => {
+    // input: copy[0] = 0 -> expected: original still holds 5
+    const bits = Bitset.fromBigInt(5n);
+    copyBits(bits)[0] = 0;
+
+    expect(bits.toBigInt()).toBe(5n);
+  });
+});
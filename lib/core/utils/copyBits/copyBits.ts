@@ -0,0 +1,26 @@
+import { Bitset } from "@/core/bitset";
+
+import type { Bit } from "@/core/types";
+
+/**
+ * Returns `bits`, or a copy of it when it is a {@link Bitset}.
+ *
+ * `number` and `bigint` values are immutable, but a bitset is a word array
+ * anyone holding it can write to. Copying the bitsets a registry hands out
+ * keeps such writes away from the values it stores.
+ *
+ * @typeParam T - The type of the bit value.
+ * @param bits - The value to copy.
+ * @returns `bits` itself for `number` and `bigint`, a new bitset otherwise.
+ *
+ * @example
+ * ```ts
+ * copyBits(5);                       // 5
+ * copyBits(Bitset.fromBigInt(5n));   // a new Bitset [5]
+ * ```
+ *
+ * @internal
+ */
+export function copyBits<T extends Bit>(bits: T): T {
+  return (bits instanceof Bitset ? bits.slice() : bits) as T;
+}
@@ -0,0 +1 @@
+export { copyBits } from "./copyBits";
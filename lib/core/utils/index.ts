@@ -1 +1,3 @@
 export * from "./computeMask";
+export * from "./copyBits";
+export * from "./rangeMask";
@@ -0,0 +1 @@
+export { rangeMask } from "./rangeMask";
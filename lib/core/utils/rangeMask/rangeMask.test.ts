@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+
+import { BigIntCombinator, BitsetCombinator, NumberCombinator } from "@/core";
+
+import { rangeMask } from "./rangeMask";
+
+const NUMBER_COMBINATOR = new NumberCombinator();
+const BIGINT_COMBINATOR = new BigIntCombinator();
+const BITSET_COMBINATOR = new BitsetCombinator();
+
+describe("rangeMask", () => {
+  test("width 0 returns combinator.zero", () => {
+    // input: offset 5, width 0 -> expected: 0
+    expect(rangeMask(NUMBER_COMBINATOR, 5, 0)).toBe(0);
+  });
+
+  test("sets width bits starting at offset", () => {
+    // input: offset 4, width 3 -> expected: 0b1110000
+    expect(rangeMask(NUMBER_COMBINATOR, 4, 3)).toBe(0b1110000);
+  });
+
+  test("covers the highest safe number bit", () => {
+    // input: offset 28, width 3 -> expected: bits 28..30
+    expect(rangeMask(NUMBER_COMBINATOR, 28, 3)).toBe(0x70000000);
+  });
+
+  test("works beyond 32 bits for bigint", () => {
+    // input: offset 62, width 4 -> expected: 0b1111n << 62n
+    expect(rangeMask(BIGINT_COMBINATOR, 62, 4)).toBe(0b1111n << 62n);
+  });
+
+  test("works across word boundaries for Bitset", () => {
+    // input: offset 30, width 4 -> expected: 0b1111n << 30n
+    expect(rangeMask(BITSET_COMBINATOR, 30, 4).toBigInt()).toBe(0b1111n << 30n);
+  });
+});
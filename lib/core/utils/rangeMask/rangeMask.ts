@@ -0,0 +1,37 @@
+import type { Combinator } from "@/core/combinator/types";
+import type { Bit } from "@/core/types";
+
+/**
+ * Builds a mask of `width` consecutive set bits starting at bit `offset`.
+ *
+ * Only `one`, `or` and `shiftL` of the combinator are used, so the same code
+ * works for every bit type.
+ *
+ * @typeParam T - The numeric type of the bit values (`number` or `bigint`).
+ * @param combinator - Supplies `zero`, `one`, `or` and `shiftL` for the given `T`.
+ * @param offset - Position of the lowest bit of the range.
+ * @param width - Number of bits in the range.
+ * @returns A mask with bits `offset` to `offset + width - 1` set, or
+ *   `combinator.zero` when `width` is `0`.
+ *
+ * @example
+ * ```ts
+ * rangeMask(NUMBER_COMBINATOR, 4, 3); // 0b1110000 = 112
+ * rangeMask(NUMBER_COMBINATOR, 0, 0); // 0
+ * ```
+ *
+ * @internal
+ */
+export function rangeMask<T extends Bit>(
+  combinator: Combinator<T>,
+  offset: number,
+  width: number,
+): T {
+  let mask = combinator.zero;
+
+  for (let i = 0; i < width; i++) {
+    mask = combinator.or(mask, combinator.shiftL(combinator.one, offset + i));
+  }
+
+  return mask;
+}
@@ -372,4 +372,67 @@ describe("FlagBox", () => {
       expect(solo.full().toArray()).toEqual(["only"]);
     });
   });
+
+  describe("composite flags", () => {
+    const composed = registry.compose({
+      editor: ["read", "write"],
+      owner: ["read", "write", "execute"],
+    });
+
+    test("has() requires all bits of a composite", () => {
+      // input: read only / read+write, query "editor"
+      // expected: false / true
+      expect(composed.of("read").has("editor")).toBe(false);
+      expect(composed.of("read", "write").has("editor")).toBe(true);
+    });
+
+    test("toArray() lists single flags by default", () => {
+      // input: read+write+execute
+      // expected: ["read", "write", "execute"]
+      expect(composed.of("owner").toArray()).toEqual([
+        "read",
+        "write",
+        "execute",
+      ]);
+    });
+
+    test("toArray({ collapse: true }) prefers the largest composite", () => {
+      // input: read+write+execute+admin
+      // expected: ["owner", "admin"] — "editor" is covered by "owner"
+      expect(composed.full().toArray({ collapse: true })).toEqual([
+        "owner",
+        "admin",
+      ]);
+    });
+
+    test("alias collapses when the registry enables it", () => {
+      // input: collapse registry, read+write+admin
+      // expected: "editor+admin"
+      const collapsing = registry.compose(
+        { editor: ["read", "write"] },
+        { collapse: true },
+      );
+
+      expect(collapsing.of("read", "write", "admin").alias).toBe(
+        "editor+admin",
+      );
+      expect(collapsing.of("read").alias).toBe("read");
+    });
+
+    test("toObject() includes composites", () => {
+      // input: read+write
+      // expected: editor=true, owner=false
+      const obj = composed.of("read", "write").toObject();
+
+      expect(obj.editor).toBe(true);
+      expect(obj.owner).toBe(false);
+    });
+
+    test("isFull() and size ignore composites", () => {
+      // input: full box of the composed registry
+      // expected: isFull, size 4
+      expect(composed.full().isFull()).toBe(true);
+      expect(composed.full().size).toBe(4);
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import type { Bit } from "@/core/types";
-import type { Flag, FlagRegistry } from "../types";
+import type { Flag, FlagRegistry, ToArrayOptions } from "../types";
 
 export class FlagBox<
   TFlags extends string,
@@ -35,7 +35,9 @@ export class FlagBox<
   ) {}
 
   /**
-   * Returns `true` when no flags are set (i.e. {@link bits} equals zero).
+   * Returns `true` when no registered flag is set. Bits of packed fields and
+   * unknown bits kept by `parse()` are ignored, like in {@link size} and
+   * {@link alias}.
    *
    * @example
    * ```ts
@@ -43,11 +45,17 @@ export class FlagBox<
    * ```
    */
   isEmpty(): boolean {
-    return this.bits === this.registry.combinator.zero;
+    const { combinator, fullBits } = this.registry;
+
+    return combinator.equals(
+      combinator.and(this.bits, fullBits),
+      combinator.zero,
+    );
   }
 
   /**
-   * Returns `true` when every registered flag is set.
+   * Returns `true` when every registered flag is set. Bits of packed fields
+   * are ignored.
    *
    * @example
    * ```ts
@@ -55,24 +63,49 @@ export class FlagBox<
    * ```
    */
   isFull(): boolean {
-    return this.bits === this.registry.fullBits;
+    const { combinator, fullBits } = this.registry;
+
+    return combinator.equals(combinator.and(this.bits, fullBits), fullBits);
   }
 
   /**
    * Returns an array of the names of all active flags in registration order.
    *
+   * With `collapse`, fully set composites come first (largest first) and
+   * replace their members.
+   *
+   * @param options - See {@link ToArrayOptions}.
+   *
    * @example
    * ```ts
    * flag.toArray(); // ["READ", "WRITE"]
+   * flag.toArray({ collapse: true }); // ["EDITOR"]
    * ```
    */
-  toArray(): TFlags[] {
+  toArray(options?: ToArrayOptions): TFlags[] {
     const out = [] as TFlags[];
 
-    const { combinator } = this.registry;
+    const { combinator, repository } = this.registry;
+    const collapse = options?.collapse ?? this.registry.collapseComposites;
 
-    for (const [key, value] of this.registry.repository.entries()) {
-      if (combinator.and(this.bits, value) === combinator.zero) continue;
+    let bits = this.bits;
+
+    if (collapse) {
+      const composites = repository
+        .composites()
+        .sort(([, a], [, b]) => combinator.popcount(b) - combinator.popcount(a));
+
+      for (const [key, value] of composites) {
+        if (!combinator.equals(combinator.and(bits, value), value)) continue;
+
+        out.push(key);
+        bits = combinator.andNot(bits, value);
+      }
+    }
+
+    for (const [key, value] of repository.entries()) {
+      if (combinator.equals(combinator.and(bits, value), combinator.zero))
+        continue;
 
       out.push(key);
     }
@@ -100,7 +133,8 @@ export class FlagBox<
 
   /**
    * Returns a record mapping every registered flag name to a boolean indicating
-   * whether it is currently set.
+   * whether it is currently set. Composites are included and are `true` only
+   * when all of their bits are set.
    *
    * @example
    * ```ts
@@ -113,11 +147,18 @@ export class FlagBox<
     const { combinator } = this.registry;
 
     for (const [key, value] of this.registry.repository.entries()) {
-      const isSet = combinator.and(this.bits, value) !== combinator.zero;
+      const isSet = !combinator.equals(
+        combinator.and(this.bits, value),
+        combinator.zero,
+      );
 
       out[key] = isSet;
     }
 
+    for (const [key] of this.registry.repository.composites()) {
+      out[key] = this.has(key);
+    }
+
     return out;
   }
 
@@ -131,7 +172,8 @@ export class FlagBox<
   }
 
   /**
-   * Returns `true` if the specified flag is currently set.
+   * Returns `true` if the specified flag is currently set. For a composite,
+   * returns `true` only if all of its bits are set.
    *
    * @param flag - The flag name to test.
    *
@@ -144,10 +186,9 @@ export class FlagBox<
   has(flag: TFlags): boolean {
     const value = this.registry.repository.get(flag);
 
-    return (
-      this.registry.combinator.and(this.bits, value) !==
-      this.registry.combinator.zero
-    );
+    const { combinator } = this.registry;
+
+    return combinator.equals(combinator.and(this.bits, value), value);
   }
 
   /**
@@ -190,7 +231,9 @@ export class FlagBox<
   }
 
   /**
-   * The number of flags that are currently set (i.e. the popcount of {@link bits}).
+   * The number of registered flags that are currently set (i.e. the popcount
+   * of {@link bits} within `registry.fullBits`). Bits of packed fields and
+   * unknown bits kept by `parse()` are not counted.
    *
    * @example
    * ```ts
@@ -198,12 +241,16 @@ export class FlagBox<
    * ```
    */
   get size(): number {
-    return this.registry.combinator.popcount(this.bits);
+    const { combinator, fullBits } = this.registry;
+
+    return combinator.popcount(combinator.and(this.bits, fullBits));
   }
 
   /**
    * Human-readable label for the active flags, formed by joining their names
-   * with `"+"`. Returns `"EMPTY_FLAG"` when no flags are set.
+   * with `"+"`. Returns `"EMPTY_FLAG"` exactly when {@link isEmpty} is `true`.
+   * Composites are collapsed when the registry's `collapseComposites` is
+   * enabled.
    *
    * @example
    * ```ts
@@ -0,0 +1,153 @@
+import { describe, expect, test } from "bun:test";
+
+import { Bitset } from "@/core/bitset";
+
+import {
+  BuilderReusedError,
+  ConstraintViolationError,
+  UnknownFlagError,
+  UnrelatedRegistryError,
+} from "../errors";
+import { BigIntFlagRegistry } from "../registry/BigIntFlagRegistry";
+import { BitsetFlagRegistry } from "../registry/BitsetFlagRegistry";
+import { NumberFlagRegistry } from "../registry/NumberFlagRegistry";
+
+import { FlagBuilder } from "./FlagBuilder";
+
+type Perms = "READ" | "WRITE" | "EXECUTE" | "ADMIN";
+
+// bits: READ=1, WRITE=2, EXECUTE=4, ADMIN=8
+const registry = NumberFlagRegistry.from<Perms>(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+describe("registry.builder()", () => {
+  test("starts empty", () => {
+    const builder = registry.builder();
+    expect(builder).toBeInstanceOf(FlagBuilder);
+    expect(builder.build().isEmpty()).toBe(true);
+  });
+
+  test("starts from an initial flag", () => {
+    // input: READ + set WRITE
+    const flag = registry.builder(registry.of("READ")).set("WRITE").build();
+    expect(flag.toArray()).toEqual(["READ", "WRITE"]);
+  });
+
+  test("lifts an initial flag of a parent registry", () => {
+    // input: READ of registry, builder of registry + AUDIT
+    const v2 = registry.extend("AUDIT");
+    const flag = v2.builder(registry.of("READ")).set("AUDIT").build();
+    expect(flag.toArray()).toEqual(["READ", "AUDIT"]);
+  });
+
+  test("throws UnrelatedRegistryError for an unrelated initial flag", () => {
+    const other = NumberFlagRegistry.from("READ");
+    expect(() => registry.builder(other.of("READ"))).toThrow(
+      UnrelatedRegistryError,
+    );
+  });
+});
+
+describe("FlagBuilder", () => {
+  test("set(), unset() and toggle() change the bits in order", () => {
+    // input: set READ + WRITE, unset READ, toggle WRITE + ADMIN -> ADMIN
+    const flag = registry
+      .builder()
+      .set("READ", "WRITE")
+      .unset("READ")
+      .toggle("WRITE", "ADMIN")
+      .build();
+    expect(flag.toArray()).toEqual(["ADMIN"]);
+  });
+
+  test("setIf() sets the flags only when the condition holds", () => {
+    // input: rows -> WRITE from the second row only
+    const rows = [{ canWrite: false }, { canWrite: true }];
+    const builder = registry.builder();
+
+    for (const row of rows) builder.setIf(row.canWrite, "WRITE");
+
+    expect(builder.build().toArray()).toEqual(["WRITE"]);
+  });
+
+  test("setIf() checks the names even when the condition is false", () => {
+    expect(() => registry.builder().setIf(false, "NOPE" as Perms)).toThrow(
+      UnknownFlagError,
+    );
+  });
+
+  test("merge() adds the bits of other flags", () => {
+    // input: READ + WRITE merged with EXECUTE
+    const flag = registry
+      .builder()
+      .merge(registry.of("READ", "WRITE"))
+      .merge(registry.of("EXECUTE"))
+      .build();
+    expect(flag.bits).toBe(7);
+  });
+
+  test("merge() throws UnrelatedRegistryError for an unrelated flag", () => {
+    const other = NumberFlagRegistry.from("READ");
+    expect(() => registry.builder().merge(other.of("READ"))).toThrow(
+      UnrelatedRegistryError,
+    );
+  });
+
+  test("set() clears the other members of a replace group", () => {
+    // group: READ | WRITE, replace -> setting WRITE drops READ
+    const grouped = registry.exclusive(
+      { access: ["READ", "WRITE"] },
+      { replace: true },
+    );
+    const flag = grouped.builder().set("READ", "EXECUTE").set("WRITE").build();
+    expect(flag.toArray()).toEqual(["WRITE", "EXECUTE"]);
+  });
+
+  test("throws UnknownFlagError for unregistered names", () => {
+    const builder = registry.builder();
+    expect(() => builder.set("NOPE" as Perms)).toThrow(UnknownFlagError);
+    expect(() => builder.unset("NOPE" as Perms)).toThrow(UnknownFlagError);
+    expect(() => builder.toggle("NOPE" as Perms)).toThrow(UnknownFlagError);
+  });
+
+  test("build() returns a flag of the registry", () => {
+    const flag = registry.builder().set("READ").build();
+    expect(flag.registry).toBe(registry);
+  });
+
+  test("build() checks the rules of a strict registry once", () => {
+    // WRITE implies READ: WRITE alone is fine until build()
+    const strict = registry.imply({ WRITE: ["READ"] }, { strict: true });
+    const builder = strict.builder().set("WRITE");
+
+    expect(() => builder.build()).toThrow(ConstraintViolationError);
+    expect(builder.set("READ").build().toArray()).toEqual(["READ", "WRITE"]);
+  });
+
+  test("every method throws BuilderReusedError after build()", () => {
+    const builder = registry.builder().set("READ");
+    builder.build();
+
+    expect(() => builder.set("WRITE")).toThrow(BuilderReusedError);
+    expect(() => builder.unset("READ")).toThrow(BuilderReusedError);
+    expect(() => builder.toggle("READ")).toThrow(BuilderReusedError);
+    expect(() => builder.setIf(false, "READ")).toThrow(BuilderReusedError);
+    expect(() => builder.merge(registry.empty())).toThrow(BuilderReusedError);
+    expect(() => builder.build()).toThrow(BuilderReusedError);
+  });
+
+  test("works with bigint and bitset registries", () => {
+    // input: set A + C, toggle A -> C
+    const big = BigIntFlagRegistry.from("A", "B", "C");
+    expect(big.builder().set("A", "C").toggle("A").build().bits).toBe(4n);
+
+    const wide = BitsetFlagRegistry.from("A", "B", "C");
+    const bits = wide.builder().set("A", "C").toggle("A").build().bits;
+    expect(bits).toBeInstanceOf(Bitset);
+    expect(bits.toBigInt()).toBe(4n);
+  });
+});
@@ -0,0 +1,167 @@
+import { FlagBox } from "../box";
+import { BuilderReusedError } from "../errors";
+import { assertConstraints, replacedMask, resolveMask } from "../utils";
+
+import type { Bit } from "@/core";
+
+import type { Flag, FlagRegistry } from "../types";
+
+/**
+ * Collects bits in place and creates a single {@link Flag} at the end.
+ *
+ * Every operator of `bitwise-flag/operators` returns a new flag, which is one
+ * allocation per step when a flag is built from many rows. A builder keeps the
+ * bits in a field instead, and every method returns the builder itself for
+ * chaining. {@link build} checks the result against the registry's rules and
+ * ends the builder: any later call throws {@link BuilderReusedError}.
+ *
+ * Created by `registry.builder()`.
+ *
+ * @typeParam TFlags - The union of registered flag names.
+ * @typeParam TBit - The numeric type of the bit values.
+ * @typeParam TBrand - The registry's brand.
+ *
+ * @example
+ * ```ts
+ * const builder = registry.builder();
+ *
+ * for (const row of rows) {
+ *   builder.setIf(row.canWrite, "WRITE").setIf(row.isAdmin, "ADMIN");
+ * }
+ *
+ * const flag = builder.build();
+ * ```
+ */
+export class FlagBuilder<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+> {
+  private built = false;
+
+  /**
+   * @internal Use `registry.builder()` instead.
+   *
+   * @param registry - The registry of the flag being built.
+   * @param bits - The bits to start from.
+   */
+  constructor(
+    /** The registry of the flag being built. */
+    readonly registry: FlagRegistry<TFlags, TBit, TBrand>,
+    private bits: TBit,
+  ) {}
+
+  private assertOpen(): void {
+    if (this.built) throw new BuilderReusedError();
+  }
+
+  /**
+   * Sets the given flags, like the `add` operator: for an exclusive group
+   * declared with `replace: true`, the other members of the group are cleared
+   * first.
+   *
+   * @param names - The flags to set.
+   * @throws {@link UnknownFlagError} if any name is not registered.
+   * @throws {@link BuilderReusedError} if {@link build} was already called.
+   */
+  set(...names: TFlags[]): this {
+    this.assertOpen();
+
+    const { combinator } = this.registry;
+    const mask = resolveMask(this.registry, names);
+    const cleared = replacedMask(this.registry, mask);
+
+    this.bits = combinator.or(combinator.andNot(this.bits, cleared), mask);
+
+    return this;
+  }
+
+  /**
+   * Clears the given flags.
+   *
+   * @param names - The flags to clear.
+   * @throws {@link UnknownFlagError} if any name is not registered.
+   * @throws {@link BuilderReusedError} if {@link build} was already called.
+   */
+  unset(...names: TFlags[]): this {
+    this.assertOpen();
+
+    const mask = resolveMask(this.registry, names);
+    this.bits = this.registry.combinator.andNot(this.bits, mask);
+
+    return this;
+  }
+
+  /**
+   * Flips the given flags.
+   *
+   * @param names - The flags to flip.
+   * @throws {@link UnknownFlagError} if any name is not registered.
+   * @throws {@link BuilderReusedError} if {@link build} was already called.
+   */
+  toggle(...names: TFlags[]): this {
+    this.assertOpen();
+
+    const mask = resolveMask(this.registry, names);
+    this.bits = this.registry.combinator.xor(this.bits, mask);
+
+    return this;
+  }
+
+  /**
+   * Sets the given flags when `condition` is `true`, and does nothing
+   * otherwise. The names are checked either way.
+   *
+   * @param condition - Whether to set the flags.
+   * @param names - The flags to set.
+   * @throws {@link UnknownFlagError} if any name is not registered.
+   * @throws {@link BuilderReusedError} if {@link build} was already called.
+   */
+  setIf(condition: boolean, ...names: TFlags[]): this {
+    if (condition) return this.set(...names);
+
+    this.assertOpen();
+    resolveMask(this.registry, names);
+
+    return this;
+  }
+
+  /**
+   * Sets every flag that is set in `flag` (bitwise OR).
+   *
+   * @param flag - A flag of this registry or of one of its ancestors.
+   * @throws {@link UnrelatedRegistryError} if `flag` belongs to an unrelated
+   *   registry.
+   * @throws {@link BuilderReusedError} if {@link build} was already called.
+   */
+  merge(flag: Flag<string, TBit, string | symbol>): this {
+    this.assertOpen();
+
+    const bits =
+      flag.registry === this.registry
+        ? flag.bits
+        : this.registry.lift(flag).bits;
+
+    this.bits = this.registry.combinator.or(this.bits, bits);
+
+    return this;
+  }
+
+  /**
+   * Creates the flag and ends the builder. A flag that breaks the rules of a
+   * strict registry does not end it, so the bits can still be fixed.
+   *
+   * @returns A {@link Flag} with the collected bits.
+   * @throws {@link ConstraintViolationError} if the registry is strict and
+   *   the flag breaks one of its rules.
+   * @throws {@link BuilderReusedError} if {@link build} was already called.
+   */
+  build(): Flag<TFlags, TBit, TBrand> {
+    this.assertOpen();
+
+    const flag = assertConstraints(new FlagBox(this.bits, this.registry));
+    this.built = true;
+
+    return flag;
+  }
+}
@@ -0,0 +1 @@
+export { FlagBuilder } from "./FlagBuilder";
@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { compareRegistries } from "./compareRegistries";
+
+// bits: READ=1, WRITE=2, EXECUTE=4
+const v1 = NumberFlagRegistry.from("READ", "WRITE", "EXECUTE");
+
+describe("compareRegistries", () => {
+  test("reports no changes for the same layout", () => {
+    // input: v1 vs its own schema
+    expect(compareRegistries(v1, v1.toSchema())).toEqual({
+      added: [],
+      removed: [],
+      renamed: [],
+      moved: [],
+      compatibility: "compatible",
+    });
+  });
+
+  test("added flags are forward-only", () => {
+    // input: v1 + ADMIN on bit 3
+    const diff = compareRegistries(v1, v1.extend("ADMIN"));
+    expect(diff.added).toEqual([{ name: "ADMIN", bit: "8" }]);
+    expect(diff.compatibility).toBe("forward-only");
+  });
+
+  test("renamed flags keep stored bits compatible", () => {
+    // input: EXECUTE renamed to EXEC on bit 2
+    const v2 = NumberFlagRegistry.define({ READ: 1, WRITE: 2, EXEC: 4 });
+    const diff = compareRegistries(v1, v2);
+    expect(diff.renamed).toEqual([{ from: "EXECUTE", to: "EXEC", bit: "4" }]);
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.compatibility).toBe("compatible");
+  });
+
+  test("moved flags are breaking", () => {
+    // input: EXECUTE moved from bit 2 to bit 3
+    const v2 = NumberFlagRegistry.define({ READ: 1, WRITE: 2, EXECUTE: 8 });
+    const diff = compareRegistries(v1, v2);
+    expect(diff.moved).toEqual([{ name: "EXECUTE", from: "4", to: "8" }]);
+    expect(diff.compatibility).toBe("breaking");
+  });
+
+  test("removed flags are breaking unless their bit is retired", () => {
+    // input: WRITE dropped, then WRITE dropped with bit 1 retired
+    const dropped = NumberFlagRegistry.define({ READ: 1, EXECUTE: 4 });
+    const retired = NumberFlagRegistry.define(
+      { READ: 1, EXECUTE: 4 },
+      { retired: [1] },
+    );
+
+    expect(compareRegistries(v1, dropped).removed).toEqual([
+      { name: "WRITE", bit: "2" },
+    ]);
+    expect(compareRegistries(v1, dropped).compatibility).toBe("breaking");
+    expect(compareRegistries(v1, retired).compatibility).toBe("forward-only");
+  });
+
+  test("a bit reused by a moved flag counts as a removal", () => {
+    // input: WRITE dropped and EXECUTE moved onto its bit
+    const v2 = NumberFlagRegistry.define({ READ: 1, EXECUTE: 2 });
+    const diff = compareRegistries(v1, v2);
+    expect(diff.removed).toEqual([{ name: "WRITE", bit: "2" }]);
+    expect(diff.moved).toEqual([{ name: "EXECUTE", from: "4", to: "2" }]);
+    expect(diff.renamed).toEqual([]);
+  });
+
+  test("compares schemas and registries of different kinds", () => {
+    // input: number schema vs bigint registry with an extra bit 70
+    const big = BigIntFlagRegistry.define({
+      READ: 1n,
+      WRITE: 2n,
+      EXECUTE: 4n,
+      ARCHIVE: 1n << 70n,
+    });
+    const diff = compareRegistries(v1.toSchema(), big);
+    expect(diff.added).toEqual([
+      { name: "ARCHIVE", bit: (1n << 70n).toString() },
+    ]);
+    expect(diff.compatibility).toBe("forward-only");
+  });
+
+  test("can fail a build when a persisted bit moves", () => {
+    // input: committed schema vs current registry
+    const committed = JSON.parse(JSON.stringify(v1.toSchema())) as ReturnType<
+      typeof v1.toSchema
+    >;
+    const current = v1.extend("ADMIN");
+    expect(compareRegistries(committed, current).compatibility).not.toBe(
+      "breaking",
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import type { Bit } from "@/core";
+
+import type {
+  Compatibility,
+  FlagRegistry,
+  RegistryDiff,
+  RegistrySchema,
+} from "@/flags/types";
+
+type Layout =
+  | FlagRegistry<string, Bit, string | symbol>
+  | RegistrySchema<string>;
+
+/**
+ * Returns the zero-based position of a single-bit value.
+ *
+ * @internal
+ */
+function position(bit: string): number {
+  return BigInt(bit).toString(2).length - 1;
+}
+
+/**
+ * Compares two registry layouts and classifies the change for stored values.
+ *
+ * Either side may be a registry or a schema from `toSchema()`, so a layout
+ * committed to the repository can be checked against the current code.
+ * Flags are matched by name first and by bit second:
+ *
+ * - same name on another bit — **moved**, which is `"breaking"`;
+ * - another name on the same bit — **renamed**, which keeps stored bits
+ *   `"compatible"` but changes names in `toEnvelope()` and `parseNames()` input;
+ * - any other new name — **added**, which is `"forward-only"`;
+ * - any other old name — **removed**, which is `"breaking"` unless the new
+ *   layout retires its bit, and `"forward-only"` if it does.
+ *
+ * The result is the most severe classification of all the changes.
+ *
+ * @param oldLayout - The layout stored values were written with.
+ * @param newLayout - The layout that will read them.
+ * @returns The changes and their {@link Compatibility}.
+ *
+ * @example
+ * const diff = compareRegistries(
+ *   NumberFlagRegistry.fromSchema(committedSchema),
+ *   Permissions,
+ * );
+ * diff.moved;          // [{ name: "EXECUTE", from: "4", to: "8" }]
+ * diff.compatibility;  // "breaking"
+ */
+export function compareRegistries(
+  oldLayout: Layout,
+  newLayout: Layout,
+): RegistryDiff {
+  const before = "toSchema" in oldLayout ? oldLayout.toSchema() : oldLayout;
+  const after = "toSchema" in newLayout ? newLayout.toSchema() : newLayout;
+
+  const oldFlags = new Map(Object.entries(before.flags));
+  const newFlags = new Map(Object.entries(after.flags));
+
+  const newNames = new Map([...newFlags].map(([name, bit]) => [bit, name]));
+
+  const retired = new Set(after.retired);
+
+  const added: { name: string; bit: string }[] = [];
+  const removed: { name: string; bit: string }[] = [];
+  const renamed: { from: string; to: string; bit: string }[] = [];
+  const moved: { name: string; from: string; to: string }[] = [];
+
+  for (const [name, bit] of oldFlags) {
+    const newBit = newFlags.get(name);
+
+    if (newBit !== undefined) {
+      if (newBit !== bit) moved.push({ name, from: bit, to: newBit });
+
+      continue;
+    }
+
+    const newName = newNames.get(bit);
+
+    if (newName !== undefined && !oldFlags.has(newName)) {
+      renamed.push({ from: name, to: newName, bit });
+    } else {
+      removed.push({ name, bit });
+    }
+  }
+
+  const renamedTo = new Set(renamed.map(({ to }) => to));
+
+  for (const [name, bit] of newFlags) {
+    if (!oldFlags.has(name) && !renamedTo.has(name)) added.push({ name, bit });
+  }
+
+  let compatibility: Compatibility = "compatible";
+
+  if (
+    added.length > 0 ||
+    removed.some(({ bit }) => retired.has(position(bit)))
+  ) {
+    compatibility = "forward-only";
+  }
+
+  if (
+    moved.length > 0 ||
+    removed.some(({ bit }) => !retired.has(position(bit)))
+  ) {
+    compatibility = "breaking";
+  }
+
+  return { added, removed, renamed, moved, compatibility };
+}
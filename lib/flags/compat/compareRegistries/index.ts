@@ -0,0 +1 @@
+export { compareRegistries } from "./compareRegistries";
@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { BitsetFlagRegistry } from "@/flags/registry/BitsetFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { ConstraintViolationError, UnknownFlagError } from "../../errors";
+
+import { convert } from "./convert";
+
+// bits: READ=1, WRITE=2, EXECUTE=4
+const Perms = NumberFlagRegistry.from("READ", "WRITE", "EXECUTE");
+
+describe("convert", () => {
+  test("converts to a twin registry of another kind", () => {
+    // input: READ + EXECUTE -> 5n
+    const flag = convert(Perms.of("READ", "EXECUTE"), Perms.toBigInt());
+    expect(flag.bits).toBe(5n);
+    expect(flag.toArray()).toEqual(["READ", "EXECUTE"]);
+  });
+
+  test("maps by name when positions differ", () => {
+    // input: target EXECUTE=1n, WRITE=2n, READ=4n, ADMIN=8n; READ + EXECUTE -> 5n
+    const target = BigIntFlagRegistry.from("EXECUTE", "WRITE", "READ", "ADMIN");
+    const flag = convert(Perms.of("READ", "EXECUTE"), target);
+    expect(flag.registry).toBe(target);
+    expect(flag.bits).toBe(5n);
+    expect(flag.toArray()).toEqual(["EXECUTE", "READ"]);
+  });
+
+  test("converts a Bitset flag back to numbers", () => {
+    // input: READ + WRITE in a bitset registry -> 3
+    const wide = BitsetFlagRegistry.from("READ", "WRITE", "EXECUTE");
+    expect(convert(wide.of("READ", "WRITE"), Perms).bits).toBe(3);
+  });
+
+  test("drops bits that no flag names", () => {
+    // input: 0b1001 kept with an opaque bit 8 -> READ only
+    const flag = Perms.parse(9, { unknownBits: "keep" });
+    expect(convert(flag, Perms.toBigInt()).bits).toBe(1n);
+  });
+
+  test("converts the empty flag", () => {
+    // input: empty -> 0n
+    expect(convert(Perms.empty(), Perms.toBigInt()).isEmpty()).toBe(true);
+  });
+
+  test("throws UnknownFlagError for a name missing from the target", () => {
+    // input: EXECUTE into a registry without it
+    const target = BigIntFlagRegistry.from("READ", "WRITE");
+    expect(() => convert(Perms.of("EXECUTE") as never, target)).toThrow(
+      UnknownFlagError
+    );
+  });
+
+  test("checks the rules of a strict target", () => {
+    // input: target where WRITE implies READ; WRITE alone -> throws
+    const target = Perms.toBigInt().imply(
+      { WRITE: ["READ"] },
+      { strict: true }
+    );
+    expect(() => convert(Perms.of("WRITE"), target)).toThrow(
+      ConstraintViolationError
+    );
+  });
+});
@@ -0,0 +1,50 @@
+import { computeMask } from "@/core/utils";
+
+import { FlagBox } from "../../box";
+import { assertConstraints } from "../../utils";
+
+import type { Bit } from "@/core";
+
+import type { Flag, FlagRegistry } from "../../types";
+
+/**
+ * Converts a flag to another registry by name.
+ *
+ * Every single flag set in `flag` is looked up by name in `target`, whatever
+ * its bit there, so the two registries may differ in kind and in layout.
+ * Bits that no flag of the source names — opaque bits kept by
+ * `unknownBits: "keep"` and packed fields — are dropped.
+ *
+ * @param flag - The flag to convert.
+ * @param target - The registry the result belongs to.
+ * @returns A flag of `target` with the same names set.
+ * @throws {@link UnknownFlagError} if a set flag is not registered in `target`.
+ * @throws {@link ConstraintViolationError} if `target` is strict and the
+ *   result breaks one of its rules.
+ *
+ * @example
+ * const Perms = NumberFlagRegistry.from("READ", "WRITE", "EXECUTE");
+ * const WidePerms = Perms.toBigInt();
+ *
+ * convert(Perms.of("READ", "EXECUTE"), WidePerms).bits; // 5n
+ */
+export function convert<
+  TFlags extends TTo,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+  TTo extends string,
+  TToBit extends Bit,
+  TToBrand extends string | symbol,
+>(
+  flag: Flag<TFlags, TBit, TBrand>,
+  target: FlagRegistry<TTo, TToBit, TToBrand>,
+): Flag<TTo, TToBit, TToBrand> {
+  const bits = computeMask(
+    target.combinator,
+    flag
+      .toArray({ collapse: false })
+      .map((name) => target.repository.get(name)),
+  );
+
+  return assertConstraints(new FlagBox(bits, target));
+}
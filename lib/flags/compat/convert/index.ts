@@ -0,0 +1 @@
+export { convert } from "./convert";
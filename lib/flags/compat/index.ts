@@ -0,0 +1,2 @@
+export * from "./compareRegistries";
+export * from "./convert";
@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+
+import { ParseError } from "@/flags/errors";
+
+import { base32 } from "./base32";
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+describe("base32", () => {
+  test("encodes with the upper-case alphabet and no padding", () => {
+    // input: [0x05] -> "AU", "foobar" -> "MZXW6YTBOI"
+    expect(base32.encode(bytes(0x05))).toBe("AU");
+    expect(base32.encode(new TextEncoder().encode("foobar"))).toBe(
+      "MZXW6YTBOI",
+    );
+  });
+
+  test("decodes what it encodes", () => {
+    // input: every length from 1 to 10 bytes
+    for (let length = 1; length <= 10; length++) {
+      const input = Uint8Array.from(
+        { length },
+        (_, i) => (i * 97 + 13) & 0xff,
+      );
+      expect(base32.decode(base32.encode(input))).toEqual(input);
+    }
+  });
+
+  test("rejects padding, lower case and unknown characters", () => {
+    // input: "AU======", "au", "A1", "A8"
+    for (const text of ["AU======", "au", "A1", "A8"]) {
+      expect(() => base32.decode(text)).toThrow(ParseError);
+    }
+  });
+
+  test("rejects empty input and impossible lengths", () => {
+    // input: "", "A", "AAA", "AAAAAA"
+    for (const text of ["", "A", "AAA", "AAAAAA"]) {
+      expect(() => base32.decode(text)).toThrow(ParseError);
+    }
+  });
+
+  test("rejects non-zero bits after the last byte", () => {
+    // input: "AV" encodes 0x05 plus a stray bit -> only "AU" is canonical
+    expect(() => base32.decode("AV")).toThrow(ParseError);
+  });
+});
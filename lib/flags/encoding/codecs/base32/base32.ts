@@ -0,0 +1,72 @@
+import { ParseError } from "@/flags/errors";
+
+import type { FlagCodec } from "@/flags/types";
+
+const ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * Unpadded base32 ([RFC 4648 §6](https://www.rfc-editor.org/rfc/rfc4648#section-6))
+ * with the upper-case alphabet, which survives case-insensitive channels
+ * such as DNS names and spoken codes.
+ *
+ * Decoding is strict: it rejects `=` padding, lower-case letters, characters
+ * outside the alphabet, impossible lengths and non-zero bits after the last
+ * byte. `registry.decode()` also rejects leading zero bytes beyond the
+ * registry's width, so every flag has exactly one encoding.
+ *
+ * @example
+ * encode(registry.of("read", "execute"), base32); // "AU"
+ */
+export const base32: FlagCodec = {
+  name: "base32",
+
+  encode(bytes: Uint8Array): string {
+    let out = "";
+    let buffer = 0;
+    let bits = 0;
+
+    for (const byte of bytes) {
+      buffer = (buffer << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        bits -= 5;
+        out += ALPHABET[(buffer >> bits) & 0x1f];
+      }
+
+      buffer &= (1 << bits) - 1;
+    }
+
+    if (bits > 0) out += ALPHABET[(buffer << (5 - bits)) & 0x1f];
+
+    return out;
+  },
+
+  decode(text: string): Uint8Array {
+    // 1, 3 and 6 trailing characters cannot come from whole bytes.
+    if (!/^[A-Z2-7]+$/.test(text) || [1, 3, 6].includes(text.length % 8)) {
+      throw new ParseError(text);
+    }
+
+    const bytes = new Uint8Array(Math.floor((text.length * 5) / 8));
+    let buffer = 0;
+    let bits = 0;
+    let i = 0;
+
+    for (const char of text) {
+      buffer = (buffer << 5) | ALPHABET.indexOf(char);
+      bits += 5;
+
+      if (bits >= 8) {
+        bits -= 8;
+        bytes[i++] = (buffer >> bits) & 0xff;
+      }
+
+      buffer &= (1 << bits) - 1;
+    }
+
+    if (buffer !== 0) throw new ParseError(text);
+
+    return bytes;
+  },
+};
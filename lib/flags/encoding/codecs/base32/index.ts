@@ -0,0 +1 @@
+export { base32 } from "./base32";
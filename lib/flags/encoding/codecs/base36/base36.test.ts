@@ -0,0 +1,40 @@
+import { describe, expect, test } from "bun:test";
+
+import { ParseError } from "@/flags/errors";
+
+import { base36 } from "./base36";
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+describe("base36", () => {
+  test("encodes the value, ignoring leading zero bytes", () => {
+    // input: [0, 0, 0x03] -> "3", [0x01, 0x00] -> "74", [] -> "0"
+    expect(base36.encode(bytes(0, 0, 0x03))).toBe("3");
+    expect(base36.encode(bytes(0x01, 0x00))).toBe("74");
+    expect(base36.encode(bytes())).toBe("0");
+  });
+
+  test("decodes to the fewest bytes", () => {
+    // input: "74" -> [0x01, 0x00], "0" -> []
+    expect(base36.decode("74")).toEqual(bytes(0x01, 0x00));
+    expect(base36.decode("0")).toEqual(bytes());
+  });
+
+  test("round-trips large values", () => {
+    // input: 2^300 + 1 as bytes
+    const value = (1n << 300n) | 1n;
+    const input = new Uint8Array(38);
+    input[0] = 0x10;
+    input[37] = 0x01;
+    const text = base36.encode(input);
+    expect(text).toBe(value.toString(36));
+    expect(base36.encode(base36.decode(text))).toBe(text);
+  });
+
+  test("rejects upper case, stray characters and leading zeros", () => {
+    // input: "A", "-1", "1_0", "03", ""
+    for (const text of ["A", "-1", "1_0", "03", ""]) {
+      expect(() => base36.decode(text)).toThrow(ParseError);
+    }
+  });
+});
@@ -0,0 +1,40 @@
+import { ParseError } from "@/flags/errors";
+
+import type { FlagCodec } from "@/flags/types";
+
+/**
+ * The bits as a lower-case base-36 number (`0-9a-z`), the shortest
+ * case-insensitive form and the one `bigint.toString(36)` produces.
+ *
+ * Unlike the byte-oriented codecs it drops leading zero bytes, so the result
+ * depends only on the value, not on the registry's width. Decoding is strict:
+ * it rejects upper-case letters, other characters and leading zeros.
+ *
+ * @example
+ * encode(registry.of("read", "archive"), base36); // "6x5kxtvuwilukh"
+ */
+export const base36: FlagCodec = {
+  name: "base36",
+
+  encode(bytes: Uint8Array): string {
+    let value = 0n;
+
+    for (const byte of bytes) value = (value << 8n) | BigInt(byte);
+
+    return value.toString(36);
+  },
+
+  decode(text: string): Uint8Array {
+    if (!/^(?:0|[1-9a-z][0-9a-z]*)$/.test(text)) throw new ParseError(text);
+
+    let value = 0n;
+
+    for (const char of text) value = value * 36n + BigInt(parseInt(char, 36));
+
+    const bytes: number[] = [];
+
+    for (; value > 0n; value >>= 8n) bytes.unshift(Number(value & 0xffn));
+
+    return Uint8Array.from(bytes);
+  },
+};
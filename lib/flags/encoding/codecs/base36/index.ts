@@ -0,0 +1 @@
+export { base36 } from "./base36";
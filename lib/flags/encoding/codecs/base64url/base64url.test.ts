@@ -0,0 +1,46 @@
+import { describe, expect, test } from "bun:test";
+
+import { ParseError } from "@/flags/errors";
+
+import { base64url } from "./base64url";
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+describe("base64url", () => {
+  test("encodes without padding", () => {
+    // input: [0x03] -> "Aw", [0xfb, 0xff] -> "-_8", "Man" -> "TWFu"
+    expect(base64url.encode(bytes(0x03))).toBe("Aw");
+    expect(base64url.encode(bytes(0xfb, 0xff))).toBe("-_8");
+    expect(base64url.encode(bytes(0x4d, 0x61, 0x6e))).toBe("TWFu");
+  });
+
+  test("decodes what it encodes", () => {
+    // input: every length from 1 to 7 bytes
+    for (let length = 1; length <= 7; length++) {
+      const input = Uint8Array.from(
+        { length },
+        (_, i) => (i * 97 + 13) & 0xff,
+      );
+      expect(base64url.decode(base64url.encode(input))).toEqual(input);
+    }
+  });
+
+  test("rejects padding and characters outside the alphabet", () => {
+    // input: "Aw==", "A+", "A/", "A w"
+    for (const text of ["Aw==", "A+", "A/", "A w"]) {
+      expect(() => base64url.decode(text)).toThrow(ParseError);
+    }
+  });
+
+  test("rejects empty input and impossible lengths", () => {
+    // input: "", "A", "AAAAA"
+    for (const text of ["", "A", "AAAAA"]) {
+      expect(() => base64url.decode(text)).toThrow(ParseError);
+    }
+  });
+
+  test("rejects non-zero bits after the last byte", () => {
+    // input: "Ax" encodes 0x03 plus stray bits -> only "Aw" is canonical
+    expect(() => base64url.decode("Ax")).toThrow(ParseError);
+  });
+});
@@ -0,0 +1,71 @@
+import { ParseError } from "@/flags/errors";
+
+import type { FlagCodec } from "@/flags/types";
+
+const ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+/**
+ * Unpadded base64url ([RFC 4648 §5](https://www.rfc-editor.org/rfc/rfc4648#section-5)),
+ * safe in URLs and file names.
+ *
+ * Decoding is strict: it rejects `=` padding, characters outside the
+ * alphabet, impossible lengths and non-zero bits after the last byte.
+ * `registry.decode()` also rejects leading zero bytes beyond the registry's
+ * width, so every flag has exactly one encoding.
+ *
+ * @example
+ * encode(registry.of("read", "archive"), base64url); // "QAAAAAAAAAAB"
+ */
+export const base64url: FlagCodec = {
+  name: "base64url",
+
+  encode(bytes: Uint8Array): string {
+    let out = "";
+    let buffer = 0;
+    let bits = 0;
+
+    for (const byte of bytes) {
+      buffer = (buffer << 8) | byte;
+      bits += 8;
+
+      while (bits >= 6) {
+        bits -= 6;
+        out += ALPHABET[(buffer >> bits) & 0x3f];
+      }
+
+      buffer &= (1 << bits) - 1;
+    }
+
+    if (bits > 0) out += ALPHABET[(buffer << (6 - bits)) & 0x3f];
+
+    return out;
+  },
+
+  decode(text: string): Uint8Array {
+    if (!/^[A-Za-z0-9_-]+$/.test(text) || text.length % 4 === 1) {
+      throw new ParseError(text);
+    }
+
+    const bytes = new Uint8Array(Math.floor((text.length * 6) / 8));
+    let buffer = 0;
+    let bits = 0;
+    let i = 0;
+
+    for (const char of text) {
+      buffer = (buffer << 6) | ALPHABET.indexOf(char);
+      bits += 6;
+
+      if (bits >= 8) {
+        bits -= 8;
+        bytes[i++] = (buffer >> bits) & 0xff;
+      }
+
+      buffer &= (1 << bits) - 1;
+    }
+
+    if (buffer !== 0) throw new ParseError(text);
+
+    return bytes;
+  },
+};
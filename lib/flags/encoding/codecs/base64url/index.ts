@@ -0,0 +1 @@
+export { base64url } from "./base64url";
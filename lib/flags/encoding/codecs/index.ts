@@ -0,0 +1,3 @@
+export * from "./base32";
+export * from "./base36";
+export * from "./base64url";
@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+
+import { ParseError, UnknownBitsError } from "@/flags/errors";
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { BitsetFlagRegistry } from "@/flags/registry/BitsetFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { base32, base36, base64url } from "../codecs";
+
+import { encode } from "./encode";
+
+type Perms = "read" | "write" | "execute" | "admin";
+
+// bits: read=1, write=2, execute=4, admin=8
+const registry = NumberFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+
+// bits: read=1, audit=1 << 8, archive=1 << 70
+const bigRegistry = BigIntFlagRegistry.define({
+  read: 1n,
+  audit: 1n << 8n,
+  archive: 1n << 70n,
+});
+
+const codecs = [base64url, base32, base36];
+
+describe("encode", () => {
+  test("encodes the bytes written by toBytes()", () => {
+    // input: read + write (3) -> "Aw", "AM", "3"
+    const flag = registry.of("read", "write");
+    expect(encode(flag, base64url)).toBe("Aw");
+    expect(encode(flag, base32)).toBe("AM");
+    expect(encode(flag, base36)).toBe("3");
+  });
+
+  test("is shorter than toJSON() for high bits", () => {
+    // input: read + archive -> 22 decimal digits vs 12 base64url characters
+    const flag = bigRegistry.of("read", "archive");
+    expect(flag.toJSON()).toHaveLength(22);
+    expect(encode(flag, base64url)).toBe("QAAAAAAAAAAB");
+  });
+
+  for (const codec of codecs) {
+    describe(`${codec.name} round-trip through registry.decode()`, () => {
+      test("NumberFlagRegistry", () => {
+        // input: every value of a 4-flag registry
+        for (let bits = 0; bits < 16; bits++) {
+          const flag = registry.parse(bits);
+          expect(registry.decode(encode(flag, codec), codec).bits).toBe(bits);
+        }
+      });
+
+      test("BigIntFlagRegistry", () => {
+        // input: read + audit + archive
+        const flag = bigRegistry.of("read", "audit", "archive");
+        const decoded = bigRegistry.decode(encode(flag, codec), codec);
+        expect(decoded.bits).toBe(flag.bits);
+      });
+
+      test("BitsetFlagRegistry", () => {
+        // input: f0 + f299
+        const wide = BitsetFlagRegistry.from(
+          ...Array.from({ length: 300 }, (_, i) => `f${i}`),
+        );
+        const flag = wide.of("f0", "f299");
+        const decoded = wide.decode(encode(flag, codec), codec);
+        expect(decoded.toArray()).toEqual(["f0", "f299"]);
+      });
+    });
+  }
+});
+
+describe("registry.decode()", () => {
+  test("throws ParseError for text the codec rejects", () => {
+    // input: "Aw==" (padded), "au" (lower case), "03" (leading zero)
+    expect(() => registry.decode("Aw==", base64url)).toThrow(ParseError);
+    expect(() => registry.decode("au", base32)).toThrow(ParseError);
+    expect(() => registry.decode("03", base36)).toThrow(ParseError);
+  });
+
+  test("throws ParseError for leading zero bytes beyond the registry's width", () => {
+    // input: "AAAD" = [0, 0, 3], "AAAAG" = [0, 0, 3] -> "Aw" and "AM"
+    expect(() => registry.decode("AAAD", base64url)).toThrow(ParseError);
+    expect(() => registry.decode("AAAAG", base32)).toThrow(ParseError);
+    expect(registry.decode("Aw", base64url).bits).toBe(3);
+  });
+
+  test("throws ParseError for fewer bytes than the registry's width", () => {
+    // input: "AQ" = [1] for a 9-byte registry -> "AAAAAAAAAAAB"
+    expect(() => bigRegistry.decode("AQ", base64url)).toThrow(ParseError);
+    expect(bigRegistry.decode("AAAAAAAAAAAB", base64url).bits).toBe(1n);
+  });
+
+  test("accepts base36 at any registry width", () => {
+    // input: "1" -> read, the only base36 form of 1
+    expect(bigRegistry.decode("1", base36).bits).toBe(1n);
+  });
+
+  test("validates the value like parse()", () => {
+    // input: "h" (17 in base36) -> bit 4 unknown
+    expect(() => registry.decode("h", base36)).toThrow(UnknownBitsError);
+    expect(
+      registry.decode("h", base36, { unknownBits: "strip" }).toArray(),
+    ).toEqual(["read"]);
+  });
+});
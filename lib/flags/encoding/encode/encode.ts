@@ -0,0 +1,28 @@
+import { toBytes } from "../toBytes";
+
+import type { Bit } from "@/core";
+
+import type { Flag, FlagCodec } from "@/flags/types";
+
+/**
+ * Encodes a flag as text with the given codec. Use `registry.decode()` with
+ * the same codec to read it back.
+ *
+ * The codec receives the big-endian bytes of `toBytes(flag)`, so byte-oriented
+ * codecs produce the same length for every flag of a registry.
+ *
+ * @param flag - The flag to encode.
+ * @param codec - The text encoding, e.g. `base64url`, `base32` or `base36`.
+ * @returns The encoded flag.
+ *
+ * @example
+ * const token = encode(registry.of("read", "write"), base64url); // "Aw"
+ * registry.decode(token, base64url).toArray(); // ["read", "write"]
+ */
+export function encode<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(flag: Flag<TFlags, TBit, TBrand>, codec: FlagCodec): string {
+  return codec.encode(toBytes(flag));
+}
@@ -0,0 +1 @@
+export { encode } from "./encode";
@@ -0,0 +1,33 @@
+import { isFlagEnvelope } from "@/flags/utils";
+
+import type { Bit } from "@/core";
+
+import type { FlagRegistry, FromJSONOptions } from "@/flags/types";
+
+/**
+ * Creates a `JSON.parse` reviver that turns every {@link FlagEnvelope} in the
+ * document into a flag of `registry` with `registry.fromJSON()`.
+ *
+ * Every value shaped like an envelope is revived, so use one reviver per
+ * document, or revive with `fromJSON()` by hand when a document mixes flags
+ * of several registries.
+ *
+ * @param registry - The registry to read the flags with.
+ * @param options - Passed to `registry.fromJSON()`; see {@link FromJSONOptions}.
+ * @returns A function to pass as the second argument of `JSON.parse`.
+ *
+ * @example
+ * const user = JSON.parse(text, flagReviver(Permissions));
+ * user.permissions.has("READ"); // true
+ */
+export function flagReviver<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  registry: FlagRegistry<TFlags, TBit, TBrand>,
+  options?: FromJSONOptions,
+): (key: string, value: unknown) => unknown {
+  return (_key, value) =>
+    isFlagEnvelope(value) ? registry.fromJSON(value, options) : value;
+}
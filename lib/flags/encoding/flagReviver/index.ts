@@ -0,0 +1 @@
+export { flagReviver } from "./flagReviver";
@@ -0,0 +1,7 @@
+export * from "./codecs";
+export * from "./encode";
+export * from "./flagReviver";
+export * from "./searchParamsCodec";
+export * from "./toBytes";
+export * from "./toEnvelope";
+export * from "./toJsonSchema";
@@ -0,0 +1 @@
+export { searchParamsCodec } from "./searchParamsCodec";
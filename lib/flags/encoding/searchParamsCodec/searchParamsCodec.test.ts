@@ -0,0 +1,189 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  ConstraintViolationError,
+  ParseError,
+  UnknownBitsError,
+  UnknownFlagError,
+  UnrelatedRegistryError,
+} from "@/flags/errors";
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { searchParamsCodec } from "./searchParamsCodec";
+
+// bits: READ=1, WRITE=2, EXECUTE=4
+const Perms = NumberFlagRegistry.from("READ", "WRITE", "EXECUTE");
+
+const query = (search: string) => new URLSearchParams(search);
+
+describe("searchParamsCodec", () => {
+  describe("write()", () => {
+    test("repeats the key for every name by default", () => {
+      // input: READ + WRITE -> perm=READ&perm=WRITE
+      const params = searchParamsCodec(Perms, "perm").write(
+        query(""),
+        Perms.of("READ", "WRITE"),
+      );
+      expect(params.toString()).toBe("perm=READ&perm=WRITE");
+    });
+
+    test("joins names with commas in the comma style", () => {
+      // input: READ + WRITE -> perm=READ,WRITE
+      const codec = searchParamsCodec(Perms, "perm", { style: "comma" });
+      const params = codec.write(query(""), Perms.of("READ", "WRITE"));
+      expect(params.get("perm")).toBe("READ,WRITE");
+    });
+
+    test("writes decimal bits in the bits style", () => {
+      // input: READ + EXECUTE -> perm=5
+      const codec = searchParamsCodec(Perms, "perm", { style: "bits" });
+      const params = codec.write(query(""), Perms.of("READ", "EXECUTE"));
+      expect(params.toString()).toBe("perm=5");
+    });
+
+    test("replaces existing entries and keeps other keys", () => {
+      // input: page=2&perm=OLD&perm=X, write EXECUTE
+      const params = searchParamsCodec(Perms, "perm").write(
+        query("page=2&perm=OLD&perm=X"),
+        Perms.of("EXECUTE"),
+      );
+      expect(params.toString()).toBe("page=2&perm=EXECUTE");
+    });
+
+    test("removes the key for an empty flag in every style", () => {
+      for (const style of ["repeat", "comma", "bits"] as const) {
+        const codec = searchParamsCodec(Perms, "perm", { style });
+        expect(codec.write(query("perm=READ"), Perms.empty()).has("perm")).toBe(
+          false,
+        );
+      }
+    });
+
+    test("keeps opaque bits in the bits style", () => {
+      // input: 9 kept with an opaque bit 8 -> perm=9
+      const codec = searchParamsCodec(Perms, "perm", { style: "bits" });
+      const flag = Perms.parse(9, { unknownBits: "keep" });
+      expect(codec.write(query(""), flag).get("perm")).toBe("9");
+    });
+
+    test("throws UnrelatedRegistryError for a flag of another registry", () => {
+      const other = NumberFlagRegistry.from("READ");
+      expect(() =>
+        searchParamsCodec(Perms, "perm").write(query(""), other.of("READ")),
+      ).toThrow(UnrelatedRegistryError);
+    });
+  });
+
+  describe("read()", () => {
+    const codec = searchParamsCodec(Perms, "perm");
+
+    test("reads every style whatever the codec writes", () => {
+      // input: repeated, comma-joined, decimal and hex -> READ + WRITE
+      for (const search of [
+        "perm=READ&perm=WRITE",
+        "perm=READ,WRITE",
+        "perm=READ%2CWRITE",
+        "perm=3",
+        "perm=0x3",
+      ]) {
+        expect(codec.read(query(search)).toArray()).toEqual(["READ", "WRITE"]);
+      }
+    });
+
+    test("combines mixed entries with OR", () => {
+      // input: perm=READ&perm=6 -> READ + WRITE + EXECUTE
+      expect(codec.read(query("perm=READ&perm=6")).isFull()).toBe(true);
+    });
+
+    test("reads a missing or blank key as the empty flag", () => {
+      expect(codec.read(query("page=2")).isEmpty()).toBe(true);
+      expect(codec.read(query("perm=")).isEmpty()).toBe(true);
+    });
+
+    test("matches names regardless of case when asked", () => {
+      // input: perm=read,Write -> READ + WRITE
+      const loose = searchParamsCodec(Perms, "perm", { caseInsensitive: true });
+      expect(loose.read(query("perm=read,Write")).toArray()).toEqual([
+        "READ",
+        "WRITE",
+      ]);
+    });
+
+    test("throws UnknownFlagError for an unknown name", () => {
+      expect(() => codec.read(query("perm=READ&perm=OLD"))).toThrow(
+        UnknownFlagError,
+      );
+    });
+
+    test("skips unknown names in lenient mode", () => {
+      // input: perm=READ,OLD&perm=GONE -> READ
+      const lenient = searchParamsCodec(Perms, "perm", { lenient: true });
+      expect(lenient.read(query("perm=READ,OLD&perm=GONE")).toArray()).toEqual(
+        ["READ"],
+      );
+    });
+
+    test("applies the unknownBits policy to numeric values", () => {
+      // input: perm=9 -> throws by default, READ when stripped
+      expect(() => codec.read(query("perm=9"))).toThrow(UnknownBitsError);
+      const strip = searchParamsCodec(Perms, "perm", { unknownBits: "strip" });
+      expect(strip.read(query("perm=9")).bits).toBe(1);
+    });
+
+    test("throws ParseError for a value of separators only", () => {
+      expect(() => codec.read(query("perm=,,"))).toThrow(ParseError);
+    });
+
+    describe("on a strict registry", () => {
+      // WRITE implies READ; a group of WRITE | EXECUTE needs exactly one
+      const strict = Perms.imply({ WRITE: ["READ"] }, { strict: true });
+      const grouped = Perms.exclusive(
+        { access: ["WRITE", "EXECUTE"] },
+        { mode: "exactlyOne" },
+      ).imply({}, { strict: true });
+
+      test("round-trips a valid flag in every style", () => {
+        // input: READ + WRITE, each entry alone would break the rule
+        const flag = strict.of("READ", "WRITE");
+
+        for (const style of ["repeat", "comma", "bits"] as const) {
+          const codec = searchParamsCodec(strict, "perm", { style });
+          expect(codec.read(codec.write(query(""), flag)).bits).toBe(3);
+        }
+      });
+
+      test("checks the rules once, on the combined entries", () => {
+        // input: perm=WRITE&perm=READ, perm=WRITE&perm=1 -> READ + WRITE
+        const codec = searchParamsCodec(strict, "perm");
+        expect(codec.read(query("perm=WRITE&perm=READ")).bits).toBe(3);
+        expect(codec.read(query("perm=WRITE&perm=1")).bits).toBe(3);
+
+        const lenient = searchParamsCodec(strict, "perm", { lenient: true });
+        expect(lenient.read(query("perm=WRITE,OLD,READ")).bits).toBe(3);
+      });
+
+      test("throws ConstraintViolationError for a combined flag that breaks a rule", () => {
+        // input: perm=WRITE -> READ is missing
+        const codec = searchParamsCodec(strict, "perm");
+        expect(() => codec.read(query("perm=WRITE"))).toThrow(
+          ConstraintViolationError,
+        );
+      });
+
+      test("reads a missing key as the empty flag without checking rules", () => {
+        // an empty flag breaks the exactlyOne group, like registry.empty()
+        const codec = searchParamsCodec(grouped, "perm");
+        expect(codec.read(query("page=2")).isEmpty()).toBe(true);
+      });
+    });
+
+    test("round-trips a BigIntFlagRegistry in the bits style", () => {
+      // input: archive = 1n << 70n
+      const big = BigIntFlagRegistry.define({ read: 1n, archive: 1n << 70n });
+      const bits = searchParamsCodec(big, "f", { style: "bits" });
+      const flag = big.of("read", "archive");
+      expect(bits.read(bits.write(query(""), flag)).bits).toBe(flag.bits);
+    });
+  });
+});
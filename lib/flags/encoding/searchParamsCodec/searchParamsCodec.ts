@@ -0,0 +1,139 @@
+import { UnknownFlagError } from "@/flags/errors";
+import { resolveMask, resolveNames, tokenizeNames } from "@/flags/utils";
+
+import type { Bit } from "@/core";
+
+import type {
+  Flag,
+  FlagRegistry,
+  SearchParamsCodec,
+  SearchParamsOptions,
+} from "@/flags/types";
+
+/**
+ * Matches a value that `parse()` reads as bits: decimal digits, or a binary,
+ * octal or hexadecimal literal.
+ *
+ * @internal
+ */
+const NUMERIC = /^\s*(?:\d+|0[bB][01]+|0[oO][0-7]+|0[xX][\dA-Fa-f]+)\s*$/;
+
+/**
+ * Creates a {@link SearchParamsCodec} that stores flags of `registry` in a
+ * query string under `key`.
+ *
+ * Values are read back through the registry: names as `parseNames()` reads
+ * them, so composites and `EMPTY_FLAG` are understood, and numeric values as
+ * `parse()` does. A value is numeric when it is a decimal, `0b`, `0o` or `0x`
+ * literal. All values are combined first, and the unknown bits policy and the
+ * rules of a strict registry are applied once, to the combined flag. A
+ * missing key reads as `registry.empty()`.
+ *
+ * @param registry - The registry the flags belong to.
+ * @param key - The query parameter to store the flag under.
+ * @param options - The write style and read options; see
+ *   {@link SearchParamsOptions}.
+ * @returns A codec bound to `registry` and `key`.
+ *
+ * @example
+ * const perm = searchParamsCodec(Permissions, "perm", { style: "comma" });
+ *
+ * const url = new URL("https://example.com/users");
+ * perm.write(url.searchParams, Permissions.of("READ", "WRITE"));
+ * url.search; // "?perm=READ%2CWRITE"
+ *
+ * perm.read(new URLSearchParams("perm=READ&perm=WRITE")); // READ + WRITE
+ * perm.read(new URLSearchParams("perm=3"));               // READ + WRITE
+ */
+export function searchParamsCodec<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  registry: FlagRegistry<TFlags, TBit, TBrand>,
+  key: string,
+  options?: SearchParamsOptions,
+): SearchParamsCodec<TFlags, TBit, TBrand> {
+  const {
+    style = "repeat",
+    lenient = false,
+    caseInsensitive,
+    unknownBits,
+  } = options ?? {};
+
+  const { combinator } = registry;
+
+  // Names are resolved without checking a strict registry's rules, so that
+  // values which only make sense together can be read one by one.
+  const readNames = (value: string): TBit => {
+    if (!lenient) {
+      return resolveMask(
+        registry,
+        resolveNames(registry, value, { caseInsensitive }),
+      );
+    }
+
+    let bits = combinator.zero;
+
+    for (const [name] of tokenizeNames(value)) {
+      try {
+        bits = combinator.or(
+          bits,
+          resolveMask(
+            registry,
+            resolveNames(registry, name, { caseInsensitive }),
+          ),
+        );
+      } catch (error) {
+        if (!(error instanceof UnknownFlagError)) throw error;
+      }
+    }
+
+    return bits;
+  };
+
+  return {
+    key,
+    style,
+
+    write(params, flag) {
+      const lifted = registry.lift(flag);
+
+      const names = lifted.toArray();
+
+      params.delete(key);
+
+      if (style === "bits") {
+        if (!combinator.equals(lifted.bits, combinator.zero)) {
+          params.set(key, lifted.toJSON());
+        }
+      } else if (style === "comma") {
+        if (names.length > 0) params.set(key, names.join(","));
+      } else {
+        for (const name of names) params.append(key, name);
+      }
+
+      return params;
+    },
+
+    read(params): Flag<TFlags, TBit, TBrand> {
+      const values = params.getAll(key).filter((value) => value.trim() !== "");
+
+      if (values.length === 0) return registry.empty();
+
+      // Every part is combined as a bigint and parsed once, so the unknown
+      // bits policy and the rules of a strict registry apply to the result.
+      let bits = 0n;
+
+      for (const value of values) {
+        const part = NUMERIC.test(value)
+          ? BigInt(value.trim())
+          : BigInt(`0x${readNames(value).toString(16)}`);
+
+        bits |= part;
+      }
+
+      return registry.parse(bits.toString(), { unknownBits });
+    },
+  };
+}
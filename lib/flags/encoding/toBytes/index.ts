@@ -0,0 +1 @@
+export { toBytes } from "./toBytes";
@@ -0,0 +1,131 @@
+import { describe, expect, test } from "bun:test";
+
+import { OverflowError, UnknownBitsError } from "@/flags/errors";
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { BitsetFlagRegistry } from "@/flags/registry/BitsetFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { toBytes } from "./toBytes";
+
+type Perms = "read" | "write" | "execute" | "admin";
+
+// bits: read=1, write=2, execute=4, admin=8
+const registry = NumberFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+
+// bits: read=1, audit=1 << 8, archive=1 << 70
+const bigRegistry = BigIntFlagRegistry.define({
+  read: 1n,
+  audit: 1n << 8n,
+  archive: 1n << 70n,
+});
+
+describe("toBytes", () => {
+  describe("width", () => {
+    test("defaults to the bytes needed for the registry's highest bit", () => {
+      // input: read (1) in a 4-bit registry -> 1 byte
+      // input: read (1) in a 71-bit registry -> 9 bytes
+      expect(toBytes(registry.of("read"))).toEqual(new Uint8Array([1]));
+      expect(toBytes(bigRegistry.of("read")).length).toBe(9);
+    });
+
+    test("writes one byte for an empty flag in an empty registry", () => {
+      // input: empty flag, no flags registered -> [0]
+      const empty = NumberFlagRegistry.from();
+      expect(toBytes(empty.empty())).toEqual(new Uint8Array([0]));
+    });
+
+    test("covers packed fields", () => {
+      // input: 4 flags + 8-bit field at offset 4 -> 12 bits -> 2 bytes
+      const packed = registry.pack({ level: { offset: 4, width: 8 } });
+      expect(toBytes(packed.registry.of("read")).length).toBe(2);
+    });
+
+    test("pads to an explicit width", () => {
+      // input: read + admin (9), width 4 -> [0, 0, 0, 9]
+      expect(toBytes(registry.of("read", "admin"), { width: 4 })).toEqual(
+        new Uint8Array([0, 0, 0, 9]),
+      );
+    });
+
+    test("throws OverflowError when the value does not fit", () => {
+      // input: audit (1 << 8), width 1 -> needs 2 bytes
+      expect(() => toBytes(bigRegistry.of("audit"), { width: 1 })).toThrow(
+        OverflowError,
+      );
+    });
+
+    test("throws RangeError for a width that is not a positive integer", () => {
+      // input: width 0, width 1.5
+      expect(() => toBytes(registry.of("read"), { width: 0 })).toThrow(
+        RangeError,
+      );
+      expect(() => toBytes(registry.of("read"), { width: 1.5 })).toThrow(
+        RangeError,
+      );
+    });
+  });
+
+  describe("endian", () => {
+    test("writes the most significant byte first by default", () => {
+      // input: audit (0x100), width 2 -> [0x01, 0x00]
+      const bytes = toBytes(bigRegistry.of("audit"), { width: 2 });
+      expect(bytes).toEqual(new Uint8Array([0x01, 0x00]));
+    });
+
+    test("writes the least significant byte first when little-endian", () => {
+      // input: audit (0x100), width 2, little -> [0x00, 0x01]
+      const bytes = toBytes(bigRegistry.of("audit"), {
+        width: 2,
+        endian: "little",
+      });
+      expect(bytes).toEqual(new Uint8Array([0x00, 0x01]));
+    });
+  });
+
+  describe("round-trip through registry.fromBytes()", () => {
+    test("NumberFlagRegistry", () => {
+      // input: read + execute, both byte orders
+      const flag = registry.of("read", "execute");
+      for (const endian of ["big", "little"] as const) {
+        const bytes = toBytes(flag, { width: 4, endian });
+        expect(registry.fromBytes(bytes, { endian }).bits).toBe(5);
+      }
+    });
+
+    test("BigIntFlagRegistry", () => {
+      // input: read + archive -> 9 bytes -> same bits back
+      const flag = bigRegistry.of("read", "archive");
+      const bytes = toBytes(flag, { endian: "little" });
+      expect(bigRegistry.fromBytes(bytes, { endian: "little" }).bits).toBe(
+        flag.bits,
+      );
+    });
+
+    test("BitsetFlagRegistry", () => {
+      // input: f0 + f299 -> 38 bytes -> same bits back
+      const wide = BitsetFlagRegistry.from(
+        ...Array.from({ length: 300 }, (_, i) => `f${i}`),
+      );
+      const flag = wide.of("f0", "f299");
+      const bytes = toBytes(flag);
+      expect(bytes.length).toBe(38);
+      expect(wide.fromBytes(bytes).toArray()).toEqual(["f0", "f299"]);
+    });
+
+    test("keeps opaque bits kept by parse()", () => {
+      // input: 0x1001 kept in a 4-bit registry -> 2 bytes
+      const flag = registry.parse(0x1001, { unknownBits: "keep" });
+      const bytes = toBytes(flag);
+      expect(bytes).toEqual(new Uint8Array([0x10, 0x01]));
+      expect(() => registry.fromBytes(bytes)).toThrow(UnknownBitsError);
+      expect(registry.fromBytes(bytes, { unknownBits: "keep" }).bits).toBe(
+        0x1001,
+      );
+    });
+  });
+});
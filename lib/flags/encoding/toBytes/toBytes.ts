@@ -0,0 +1,78 @@
+import { OverflowError } from "@/flags/errors";
+
+import type { Bit } from "@/core";
+
+import type { Flag, ToBytesOptions } from "@/flags/types";
+
+/**
+ * Returns the hexadecimal digits of `bits`, or `""` for zero.
+ *
+ * @internal
+ */
+function hexDigits(bits: Bit): string {
+  const hex = bits.toString(16);
+
+  return hex === "0" ? "" : hex;
+}
+
+/**
+ * Encodes the bits of a flag as an unsigned integer of `width` bytes.
+ *
+ * Works for every registry kind. Use `registry.fromBytes()` to decode the
+ * result.
+ *
+ * @param flag - The flag to encode.
+ * @param options - Width and byte order; see {@link ToBytesOptions}.
+ * @returns A new `Uint8Array` of exactly `width` bytes.
+ * @throws {RangeError} if `options.width` is not a positive integer.
+ * @throws {OverflowError} if the bits of `flag` do not fit in `options.width` bytes.
+ *
+ * @example
+ * // read = 1, ..., audit = 1 << 8
+ * const flag = registry.of("read", "audit");
+ * toBytes(flag);                                 // Uint8Array [0x01, 0x01]
+ * toBytes(flag, { width: 4 });                   // Uint8Array [0, 0, 0x01, 0x01]
+ * toBytes(flag, { width: 4, endian: "little" }); // Uint8Array [0x01, 0x01, 0, 0]
+ */
+export function toBytes<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(flag: Flag<TFlags, TBit, TBrand>, options: ToBytesOptions = {}): Uint8Array {
+  const { endian = "big" } = options;
+
+  const { combinator, knownBits } = flag.registry;
+
+  const hex = hexDigits(flag.bits);
+  const length = Math.ceil(hex.length / 2);
+
+  const width =
+    options.width ??
+    Math.max(Math.ceil(combinator.bitLength(knownBits) / 8), length, 1);
+
+  if (!Number.isInteger(width) || width < 1) {
+    throw new RangeError(
+      `Byte width must be a positive integer, got ${String(width)}`,
+    );
+  }
+
+  if (length > width) {
+    throw new OverflowError(
+      flag.alias,
+      flag.bits,
+      `Flag value ${flag.bits.toString()} needs ${String(length)} bytes and does not fit in ${String(width)}`,
+    );
+  }
+
+  const bytes = new Uint8Array(width);
+
+  // Fill from the least significant byte, which sits at the end of `hex`.
+  for (let i = 0; i < length; i++) {
+    const end = hex.length - i * 2;
+    const byte = parseInt(hex.slice(Math.max(end - 2, 0), end), 16);
+
+    bytes[endian === "big" ? width - 1 - i : i] = byte;
+  }
+
+  return bytes;
+}
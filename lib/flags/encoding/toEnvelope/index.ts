@@ -0,0 +1 @@
+export { toEnvelope } from "./toEnvelope";
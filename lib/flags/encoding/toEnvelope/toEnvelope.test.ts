@@ -0,0 +1,154 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  ParseError,
+  SchemaMismatchError,
+  UnknownBitsError,
+  UnknownFlagError,
+} from "@/flags/errors";
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { flagReviver } from "../flagReviver";
+
+import { toEnvelope } from "./toEnvelope";
+
+// bits: READ=1, WRITE=2, EXECUTE=4
+const v1 = NumberFlagRegistry.from("READ", "WRITE", "EXECUTE");
+
+// WRITE dropped and EXECUTE moved to bit 1, so v1 bits change meaning
+const v2 = NumberFlagRegistry.define({ READ: 1, EXECUTE: 2, ADMIN: 4 });
+
+describe("toEnvelope", () => {
+  test("records version, fingerprint, bits and names", () => {
+    // input: READ + EXECUTE -> bits "5", names in registry order
+    expect(toEnvelope(v1.of("EXECUTE", "READ"))).toEqual({
+      v: 1,
+      schema: v1.fingerprint,
+      bits: "5",
+      names: ["READ", "EXECUTE"],
+    });
+  });
+
+  test("lists single flags, not composites", () => {
+    // input: composite RW = READ|WRITE with collapsing on -> names READ, WRITE
+    const composed = v1.compose(
+      { RW: ["READ", "WRITE"] },
+      { collapse: true },
+    );
+    expect(toEnvelope(composed.of("RW")).names).toEqual(["READ", "WRITE"]);
+  });
+
+  test("survives JSON.stringify and fromJSON()", () => {
+    // input: bigint READ + bit 70 -> decimal bits string
+    const big = BigIntFlagRegistry.define({ READ: 1n, ARCHIVE: 1n << 70n });
+    const flag = big.of("READ", "ARCHIVE");
+    const json = JSON.stringify(toEnvelope(flag));
+    expect(big.fromJSON(JSON.parse(json)).bits).toBe(flag.bits);
+  });
+});
+
+describe("registry.fromJSON()", () => {
+  test("reads a bare toJSON() bit string", () => {
+    // input: "3" -> READ + WRITE
+    expect(v1.fromJSON("3").toArray()).toEqual(["READ", "WRITE"]);
+  });
+
+  test("throws SchemaMismatchError for another layout by default", () => {
+    // input: v1 envelope read by v2
+    const envelope = toEnvelope(v1.of("READ", "EXECUTE"));
+    let caught: unknown;
+    try {
+      v2.fromJSON(envelope);
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toBeInstanceOf(SchemaMismatchError);
+    expect((caught as SchemaMismatchError).expected).toBe(v2.fingerprint);
+    expect((caught as SchemaMismatchError).actual).toBe(v1.fingerprint);
+  });
+
+  test("rebuilds the flag from names when asked", () => {
+    // input: v1 READ + EXECUTE (bits 5) -> v2 READ + EXECUTE (bits 3)
+    const envelope = toEnvelope(v1.of("READ", "EXECUTE"));
+    const flag = v2.fromJSON(envelope, { onMismatch: "rebuild" });
+    expect(flag.bits).toBe(3);
+  });
+
+  test("throws UnknownFlagError when a name to rebuild is gone", () => {
+    // input: v1 WRITE -> not in v2
+    const envelope = toEnvelope(v1.of("WRITE"));
+    expect(() => v2.fromJSON(envelope, { onMismatch: "rebuild" })).toThrow(
+      UnknownFlagError,
+    );
+  });
+
+  test("passes the unknownBits policy to parse()", () => {
+    // input: envelope with bits "9" -> bit 3 unknown
+    const envelope = { ...toEnvelope(v1.of("READ")), bits: "9" };
+    expect(() => v1.fromJSON(envelope)).toThrow(UnknownBitsError);
+    expect(v1.fromJSON(envelope, { unknownBits: "strip" }).bits).toBe(1);
+  });
+
+  test("throws ParseError for a value that is not an envelope", () => {
+    // input: wrong version, missing names
+    const envelope = toEnvelope(v1.of("READ"));
+    expect(() => v1.fromJSON({ ...envelope, v: 2 } as never)).toThrow(
+      ParseError,
+    );
+    const { names: _, ...withoutNames } = envelope;
+    expect(() => v1.fromJSON(withoutNames as never)).toThrow(ParseError);
+  });
+});
+
+describe("registry.fingerprint", () => {
+  test("ignores declaration order", () => {
+    // input: same names and bits declared in another order
+    const reordered = NumberFlagRegistry.define({
+      EXECUTE: 4,
+      READ: 1,
+      WRITE: 2,
+    });
+    expect(reordered.fingerprint).toBe(v1.fingerprint);
+  });
+
+  test("changes when a flag is added, renamed or moved", () => {
+    // input: extend, rename, swap bits
+    const fingerprints = new Set([
+      v1.fingerprint,
+      v1.extend("ADMIN").fingerprint,
+      NumberFlagRegistry.define({ READ: 1, WRITE: 2, EXEC: 4 }).fingerprint,
+      NumberFlagRegistry.define({ READ: 1, WRITE: 4, EXECUTE: 2 }).fingerprint,
+    ]);
+    expect(fingerprints.size).toBe(4);
+  });
+});
+
+describe("flagReviver", () => {
+  test("revives every envelope in a document", () => {
+    // input: { user: "ada", perms: <envelope>, tags: ["x"] }
+    const text = JSON.stringify({
+      user: "ada",
+      perms: toEnvelope(v1.of("READ", "WRITE")),
+      tags: ["x"],
+    });
+    const doc = JSON.parse(text, flagReviver(v1)) as {
+      user: string;
+      perms: ReturnType<typeof v1.of>;
+      tags: string[];
+    };
+    expect(doc.user).toBe("ada");
+    expect(doc.tags).toEqual(["x"]);
+    expect(doc.perms.toArray()).toEqual(["READ", "WRITE"]);
+  });
+
+  test("passes its options to fromJSON()", () => {
+    // input: v1 envelope revived with v2 and onMismatch "rebuild"
+    const text = JSON.stringify(toEnvelope(v1.of("EXECUTE")));
+    const flag = JSON.parse(
+      text,
+      flagReviver(v2, { onMismatch: "rebuild" }),
+    ) as ReturnType<typeof v2.of>;
+    expect(flag.toArray()).toEqual(["EXECUTE"]);
+  });
+});
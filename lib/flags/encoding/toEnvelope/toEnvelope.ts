@@ -0,0 +1,31 @@
+import type { Bit } from "@/core";
+
+import type { Flag, FlagEnvelope } from "@/flags/types";
+
+/**
+ * Wraps a flag in a versioned {@link FlagEnvelope} that records the
+ * registry's fingerprint and the names of the set flags next to the bits.
+ *
+ * Unlike `flag.toJSON()`, the envelope lets `registry.fromJSON()` notice that
+ * the registry changed since the value was written, and rebuild the flag
+ * from its names instead of reading the bits with a new meaning.
+ *
+ * @param flag - The flag to wrap.
+ * @returns A plain object, ready for `JSON.stringify`.
+ *
+ * @example
+ * JSON.stringify(toEnvelope(registry.of("READ", "EXECUTE")));
+ * // '{"v":1,"schema":"27a593b1910524e7","bits":"5","names":["READ","EXECUTE"]}'
+ */
+export function toEnvelope<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(flag: Flag<TFlags, TBit, TBrand>): FlagEnvelope {
+  return {
+    v: 1,
+    schema: flag.registry.fingerprint,
+    bits: flag.toJSON(),
+    names: flag.toArray({ collapse: false }),
+  };
+}
@@ -0,0 +1 @@
+export { toJsonSchema } from "./toJsonSchema";
@@ -0,0 +1,113 @@
+import { describe, expect, test } from "bun:test";
+
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { BitsetFlagRegistry } from "@/flags/registry/BitsetFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { toJsonSchema } from "./toJsonSchema";
+
+// bits: READ=1, WRITE=2, EXECUTE=4
+const Perms = NumberFlagRegistry.from("READ", "WRITE", "EXECUTE");
+
+const matcher = (registry: Parameters<typeof toJsonSchema>[0]) =>
+  new RegExp(toJsonSchema(registry).pattern ?? "");
+
+describe("toJsonSchema", () => {
+  describe("bits format", () => {
+    test("is the default and describes a decimal string", () => {
+      // input: fullBits 7 -> 0 to 7
+      expect(toJsonSchema(Perms)).toEqual({
+        type: "string",
+        pattern: "^(?:0|[1-6]|7)$",
+      });
+    });
+
+    test("accepts exactly the decimal values up to knownBits", () => {
+      // input: 8 flags, knownBits 255 -> every integer 0 to 1000 checked
+      const byte = NumberFlagRegistry.from(..."abcdefgh");
+      const pattern = matcher(byte);
+      for (let i = 0; i <= 1000; i++) {
+        expect(pattern.test(String(i))).toBe(i <= 255);
+      }
+    });
+
+    test("rejects leading zeros, signs and other notations", () => {
+      const pattern = matcher(Perms);
+      for (const value of ["", "01", "-1", "+1", "0x7", "1.0", " 1"]) {
+        expect(pattern.test(value)).toBe(false);
+      }
+    });
+
+    test("accepts every toJSON() value of a wide registry", () => {
+      // input: 300 flags -> knownBits = 2^300 - 1
+      const names = Array.from({ length: 300 }, (_, i) => `f${i}`);
+      const wide = BitsetFlagRegistry.from(...names);
+      const pattern = matcher(wide);
+      expect(pattern.test(wide.full().toJSON())).toBe(true);
+      expect(pattern.test(wide.of("f0", "f299").toJSON())).toBe(true);
+      expect(pattern.test((1n << 300n).toString())).toBe(false);
+    });
+
+    test("bounds the range by knownBits, not by the highest flag", () => {
+      // input: READ=1n, ARCHIVE=64n -> knownBits 65, so 66 does not match
+      const sparse = BigIntFlagRegistry.define({ READ: 1n, ARCHIVE: 64n });
+      const pattern = matcher(sparse);
+      expect(pattern.test("65")).toBe(true);
+      expect(pattern.test("66")).toBe(false);
+    });
+
+    test("includes packed fields in the range", () => {
+      // input: 3 flags + 2-bit field at offset 3 -> knownBits 31
+      const packed = Perms.pack({ level: { offset: 3, width: 2 } }).registry;
+      const pattern = matcher(packed);
+      expect(pattern.test("31")).toBe(true);
+      expect(pattern.test("32")).toBe(false);
+    });
+  });
+
+  describe("names format", () => {
+    test("describes an array of distinct registered names", () => {
+      expect(toJsonSchema(Perms, { format: "names" })).toEqual({
+        type: "array",
+        items: { type: "string", enum: ["READ", "WRITE", "EXECUTE"] },
+        uniqueItems: true,
+      });
+    });
+
+    test("accepts composite names written by a collapsing toArray()", () => {
+      // input: Perms + RW composite, collapseComposites -> ["RW"]
+      const composed = Perms.compose(
+        { RW: ["READ", "WRITE"] },
+        { collapse: true },
+      );
+      const schema = toJsonSchema(composed, { format: "names" });
+      expect(schema.items).toEqual({
+        type: "string",
+        enum: ["READ", "WRITE", "EXECUTE", "RW"],
+      });
+      expect(composed.of("READ", "WRITE").toArray()).toEqual(["RW"]);
+    });
+  });
+
+  describe("object format", () => {
+    test("describes every key of toObject(), composites included", () => {
+      // input: Perms + ALL composite
+      const composed = Perms.compose({ ALL: ["READ", "WRITE", "EXECUTE"] });
+      const schema = toJsonSchema(composed, { format: "object" });
+      expect(schema).toEqual({
+        type: "object",
+        properties: {
+          READ: { type: "boolean" },
+          WRITE: { type: "boolean" },
+          EXECUTE: { type: "boolean" },
+          ALL: { type: "boolean" },
+        },
+        required: ["READ", "WRITE", "EXECUTE", "ALL"],
+        additionalProperties: false,
+      });
+      expect(Object.keys(composed.of("READ").toObject())).toEqual(
+        schema.required as string[],
+      );
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import type { Bit } from "@/core";
+
+import type {
+  FlagRegistry,
+  JsonSchema,
+  ToJsonSchemaOptions,
+} from "@/flags/types";
+
+/**
+ * Formats `count` arbitrary decimal digits as a regular expression.
+ *
+ * @internal
+ */
+function digits(count: number): string {
+  if (count === 0) return "";
+
+  return count === 1 ? "\\d" : `\\d{${count}}`;
+}
+
+/**
+ * Formats the digits from `low` to `high` as a regular expression.
+ *
+ * @internal
+ */
+function digitRange(low: number, high: number): string {
+  return low === high ? String(low) : `[${low}-${high}]`;
+}
+
+/**
+ * Builds a regular expression that matches the canonical decimal form of
+ * every integer from `0` to `max`, and nothing else.
+ *
+ * The numbers of each length are matched by their own alternative: shorter
+ * numbers freely, and numbers as long as `max` by the prefix they share with
+ * it followed by a smaller digit.
+ *
+ * @internal
+ */
+function rangePattern(max: string): string {
+  const length = max.length;
+  const alternatives = new Set(["0"]);
+
+  if (length > 1) {
+    alternatives.add(length === 2 ? "[1-9]" : `[1-9]\\d{0,${length - 2}}`);
+  }
+
+  for (let i = 0; i < length; i++) {
+    const low = i === 0 ? 1 : 0;
+    const high = Number(max[i]) - 1;
+
+    if (high >= low) {
+      alternatives.add(
+        max.slice(0, i) + digitRange(low, high) + digits(length - i - 1),
+      );
+    }
+  }
+
+  alternatives.add(max);
+
+  return `^(?:${[...alternatives].join("|")})$`;
+}
+
+/**
+ * Describes a serialized flag of `registry` as a JSON Schema, for OpenAPI
+ * specs and request validation. The schema is derived from the registry, so
+ * it changes whenever flags are added or renamed.
+ *
+ * - `"bits"` — a string of decimal digits. The pattern only accepts values
+ *   from `0` to `knownBits`, the value with every flag and packed field set.
+ * - `"names"` — an array of distinct names from `keys()` or composites,
+ *   which `toArray()` writes when composites are collapsed.
+ * - `"object"` — an object with a boolean for every name of `toObject()`,
+ *   composites included.
+ *
+ * The `"bits"` pattern checks the range, not the exact bits: a value below
+ * `knownBits` with an unknown bit set still matches, and is rejected by
+ * `parse()`.
+ *
+ * @param registry - The registry to describe.
+ * @param options - The format to describe; see {@link ToJsonSchemaOptions}.
+ * @returns A plain JSON Schema object.
+ *
+ * @example
+ * const Permissions = NumberFlagRegistry.from("READ", "WRITE", "EXECUTE");
+ *
+ * toJsonSchema(Permissions);
+ * // { type: "string", pattern: "^(?:0|[1-6]|7)$" }
+ *
+ * toJsonSchema(Permissions, { format: "names" });
+ * // {
+ * //   type: "array",
+ * //   items: { type: "string", enum: ["READ", "WRITE", "EXECUTE"] },
+ * //   uniqueItems: true,
+ * // }
+ */
+export function toJsonSchema<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  registry: FlagRegistry<TFlags, TBit, TBrand>,
+  options?: ToJsonSchemaOptions,
+): JsonSchema {
+  const { format = "bits" } = options ?? {};
+
+  const names = [
+    ...registry.keys(),
+    ...registry.repository.composites().map(([name]) => name),
+  ];
+
+  if (format === "names") {
+    return {
+      type: "array",
+      items: { type: "string", enum: names },
+      uniqueItems: true,
+    };
+  }
+
+  if (format === "object") {
+    return {
+      type: "object",
+      properties: Object.fromEntries(
+        names.map((name) => [name, { type: "boolean" }]),
+      ),
+      required: names,
+      additionalProperties: false,
+    };
+  }
+
+  return {
+    type: "string",
+    pattern: rangePattern(registry.knownBits.toString()),
+  };
+}
@@ -0,0 +1,6 @@
+export class BuilderReusedError extends Error {
+  constructor() {
+    super("Cannot use a FlagBuilder after build() has been called");
+    this.name = "BuilderReusedError";
+  }
+}
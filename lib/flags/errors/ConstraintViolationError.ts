@@ -0,0 +1,30 @@
+import type { ConstraintViolation } from "../types";
+
+function describe(violation: ConstraintViolation<string>): string {
+  if (violation.kind === "implies") {
+    return `"${violation.flag}" requires ${violation.missing.join(", ")}`;
+  }
+
+  const quantity = violation.kind === "atMostOne" ? "at most" : "exactly";
+  const set = violation.set.length > 0 ? violation.set.join(", ") : "none";
+
+  return `group "${violation.group}" allows ${quantity} one of ${violation.members.join(", ")} (set: ${set})`;
+}
+
+function offenders(violation: ConstraintViolation<string>): readonly string[] {
+  if (violation.kind === "implies") return [violation.flag];
+
+  return violation.set.length > 0 ? violation.set : violation.members;
+}
+
+export class ConstraintViolationError extends Error {
+  readonly violations: readonly ConstraintViolation<string>[];
+  readonly flags: readonly string[];
+
+  constructor(violations: ConstraintViolation<string>[]) {
+    super(`Flag constraints violated: ${violations.map(describe).join("; ")}`);
+    this.name = "ConstraintViolationError";
+    this.violations = violations;
+    this.flags = [...new Set(violations.flatMap(offenders))];
+  }
+}
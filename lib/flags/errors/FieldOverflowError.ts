@@ -0,0 +1,15 @@
+export class FieldOverflowError extends Error {
+  readonly field: string;
+  readonly value: number;
+  readonly width: number;
+
+  constructor(field: string, value: number, width: number) {
+    super(
+      `Value ${String(value)} does not fit field "${field}": expected an integer from 0 to ${String(2 ** width - 1)}`,
+    );
+    this.name = "FieldOverflowError";
+    this.field = field;
+    this.value = value;
+    this.width = width;
+  }
+}
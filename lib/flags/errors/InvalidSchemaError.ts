@@ -0,0 +1,9 @@
+export class InvalidSchemaError extends Error {
+  readonly schema: unknown;
+
+  constructor(reason: string, schema: unknown) {
+    super(`Invalid registry schema: ${reason}`);
+    this.name = "InvalidSchemaError";
+    this.schema = schema;
+  }
+}
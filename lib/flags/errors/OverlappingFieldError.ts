@@ -0,0 +1,11 @@
+export class OverlappingFieldError extends Error {
+  readonly field: string;
+  readonly other: string;
+
+  constructor(field: string, other: string) {
+    super(`Field "${field}" overlaps the bits of "${other}"`);
+    this.name = "OverlappingFieldError";
+    this.field = field;
+    this.other = other;
+  }
+}
@@ -0,0 +1,15 @@
+import { InvalidFlagError } from "./InvalidFlagError";
+
+export class ReservedBitError extends InvalidFlagError {
+  readonly position: number;
+
+  constructor(flag: string, value: unknown, position: number) {
+    super(
+      `Flag "${flag}" value ${String(value)} uses reserved or retired bit ${String(position)}`,
+      flag,
+      value,
+    );
+    this.name = "ReservedBitError";
+    this.position = position;
+  }
+}
@@ -0,0 +1,13 @@
+export class SchemaMismatchError extends Error {
+  readonly expected: string;
+  readonly actual: string;
+
+  constructor(expected: string, actual: string) {
+    super(
+      `Flag was written by a registry with fingerprint "${actual}", but this registry's fingerprint is "${expected}"`,
+    );
+    this.name = "SchemaMismatchError";
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
@@ -1,8 +1,10 @@
+import type { Bit } from "@/core";
+
 export class UnknownBitsError extends Error {
-  readonly value: number | bigint;
-  readonly unknownBits: number | bigint;
+  readonly value: Bit;
+  readonly unknownBits: Bit;
 
-  constructor(value: number | bigint, unknownBits: number | bigint) {
+  constructor(value: Bit, unknownBits: Bit) {
     super(
       `Value ${value} contains bits not registered in the registry: ${unknownBits}`,
     );
@@ -1,9 +1,20 @@
 export class UnknownFlagError extends Error {
   readonly flag: string;
 
-  constructor(flag: string) {
-    super(`Flag "${flag}" is not registered`);
+  /**
+   * Index of the name in the input string, when the name was read from one
+   * by `registry.parseNames()`; `null` otherwise.
+   */
+  readonly position: number | null;
+
+  constructor(flag: string, position: number | null = null) {
+    super(
+      position === null
+        ? `Flag "${flag}" is not registered`
+        : `Flag "${flag}" at position ${position} is not registered`,
+    );
     this.name = "UnknownFlagError";
     this.flag = flag;
+    this.position = position;
   }
 }
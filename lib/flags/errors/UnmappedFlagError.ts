@@ -0,0 +1,11 @@
+export class UnmappedFlagError extends Error {
+  readonly flags: readonly string[];
+
+  constructor(flags: string[]) {
+    super(
+      `Flags ${flags.map((flag) => `"${flag}"`).join(", ")} have no mapping and do not exist in the target registry. Rename, split, merge or drop them`,
+    );
+    this.name = "UnmappedFlagError";
+    this.flags = flags;
+  }
+}
@@ -0,0 +1,13 @@
+export class UnrelatedRegistryError extends Error {
+  readonly sourceKeys: readonly string[];
+  readonly targetKeys: readonly string[];
+
+  constructor(sourceKeys: string[], targetKeys: string[]) {
+    super(
+      "Cannot lift a flag from a registry that this registry does not extend",
+    );
+    this.name = "UnrelatedRegistryError";
+    this.sourceKeys = sourceKeys;
+    this.targetKeys = targetKeys;
+  }
+}
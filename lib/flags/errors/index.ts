@@ -1,9 +1,18 @@
+export { BuilderReusedError } from "./BuilderReusedError";
+export { ConstraintViolationError } from "./ConstraintViolationError";
 export { DuplicateError } from "./DuplicateError";
 export { DuplicateFlagsError } from "./DuplicateFlagsError";
+export { FieldOverflowError } from "./FieldOverflowError";
 export { InvalidFlagError } from "./InvalidFlagError";
+export { InvalidSchemaError } from "./InvalidSchemaError";
 export { NotPositiveError } from "./NotPositiveError";
 export { NotPowerOfTwoError } from "./NotPowerOfTwoError";
 export { OverflowError } from "./OverflowError";
+export { OverlappingFieldError } from "./OverlappingFieldError";
 export { ParseError } from "./ParseError";
+export { ReservedBitError } from "./ReservedBitError";
+export { SchemaMismatchError } from "./SchemaMismatchError";
 export { UnknownBitsError } from "./UnknownBitsError";
 export { UnknownFlagError } from "./UnknownFlagError";
+export { UnmappedFlagError } from "./UnmappedFlagError";
+export { UnrelatedRegistryError } from "./UnrelatedRegistryError";
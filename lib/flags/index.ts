@@ -1,7 +1,16 @@
 export { FlagBox } from "./box";
-export { BigIntFlagRegistry, NumberFlagRegistry } from "./registry";
+export { FlagBuilder } from "./builder";
+export { Migration, MigrationBuilder } from "./migration";
+export { PackedFlagRegistry } from "./packed";
+export {
+  BigIntFlagRegistry,
+  BitsetFlagRegistry,
+  NumberFlagRegistry,
+} from "./registry";
 export { Repository } from "./repository";
 
+export * from "./compat";
+export * from "./encoding";
 export * from "./errors";
 export * from "./utils";
 
@@ -0,0 +1,117 @@
+import type { Bit } from "@/core";
+
+import type { Flag, FlagRegistry, MigrationResult } from "../types";
+
+/**
+ * A compiled migration from the flags of one registry to another.
+ *
+ * Created by `MigrationBuilder.compile()`, or by {@link andThen} to chain two
+ * migrations. Every mapping was turned into a pair of masks at compile time,
+ * so running a migration only does a few bitwise operations per mapping.
+ *
+ * @typeParam TFrom - The flag names of the source registry.
+ * @typeParam TFromBit - The bit type of the source registry.
+ * @typeParam TFromBrand - The brand of the source registry.
+ * @typeParam TTo - The flag names of the target registry.
+ * @typeParam TToBit - The bit type of the target registry.
+ * @typeParam TToBrand - The brand of the target registry.
+ *
+ * @example
+ * ```ts
+ * // v1: READ, RW, EXEC   v2: READ, RW, EXECUTE   v3: READ, WRITE, EXECUTE
+ * const v1ToV2 = new MigrationBuilder(v1, v2).rename("EXEC", "EXECUTE").compile();
+ * const v2ToV3 = new MigrationBuilder(v2, v3).split("RW", ["READ", "WRITE"]).compile();
+ *
+ * const v1ToV3 = v1ToV2.andThen(v2ToV3);
+ * v1ToV3.migrate(v1.of("RW", "EXEC")).toArray(); // ["READ", "WRITE", "EXECUTE"]
+ * ```
+ */
+export class Migration<
+  TFrom extends string,
+  TFromBit extends Bit,
+  TFromBrand extends string | symbol,
+  TTo extends string,
+  TToBit extends Bit,
+  TToBrand extends string | symbol,
+> {
+  /**
+   * @internal Use `MigrationBuilder.compile()` or {@link andThen} instead.
+   *
+   * @param source - The registry of the flags this migration accepts.
+   * @param target - The registry of the flags it returns.
+   * @param stage - Migrates a flag of `source` that has already been lifted.
+   */
+  constructor(
+    /** The registry of the flags this migration accepts. */
+    readonly source: FlagRegistry<TFrom, TFromBit, TFromBrand>,
+    /** The registry of the flags this migration returns. */
+    readonly target: FlagRegistry<TTo, TToBit, TToBrand>,
+    private readonly stage: (
+      flag: Flag<TFrom, TFromBit, TFromBrand>,
+    ) => MigrationResult<TTo, TToBit, TToBrand>,
+  ) {}
+
+  /**
+   * Migrates a flag and reports which mappings fired, for audit logs.
+   *
+   * @param flag - A flag of {@link source} or of one of its ancestors.
+   * @returns The migrated flag and the mappings that matched it.
+   * @throws {@link UnrelatedRegistryError} if `flag` belongs to an unrelated registry.
+   * @throws {@link ConstraintViolationError} if {@link target} is strict and
+   *   the result breaks one of its rules.
+   *
+   * @example
+   * ```ts
+   * const { flag, fired } = migration.run(v1.of("RW"));
+   * fired; // [{ kind: "split", from: ["RW"], to: ["READ", "WRITE"] }]
+   * ```
+   */
+  run(
+    flag: Flag<string, TFromBit, string | symbol>,
+  ): MigrationResult<TTo, TToBit, TToBrand> {
+    return this.stage(this.source.lift(flag));
+  }
+
+  /**
+   * Migrates a flag of {@link source} to a flag of {@link target}.
+   * Same as `run(flag).flag`.
+   *
+   * @param flag - A flag of {@link source} or of one of its ancestors.
+   * @throws {@link UnrelatedRegistryError} if `flag` belongs to an unrelated registry.
+   * @throws {@link ConstraintViolationError} if {@link target} is strict and
+   *   the result breaks one of its rules.
+   */
+  migrate(
+    flag: Flag<string, TFromBit, string | symbol>,
+  ): Flag<TTo, TToBit, TToBrand> {
+    return this.run(flag).flag;
+  }
+
+  /**
+   * Chains this migration with one that starts where it ends.
+   *
+   * @param next - A migration whose {@link source} is this migration's
+   *   {@link target}, or a registry that extends it.
+   * @returns A migration from {@link source} to `next.target` that reports the
+   *   mappings of both stages.
+   */
+  andThen<
+    TVia extends string,
+    TViaBrand extends string | symbol,
+    TNext extends string,
+    TNextBit extends Bit,
+    TNextBrand extends string | symbol,
+  >(
+    next: Migration<TVia, TToBit, TViaBrand, TNext, TNextBit, TNextBrand>,
+  ): Migration<TFrom, TFromBit, TFromBrand, TNext, TNextBit, TNextBrand> {
+    return new Migration(this.source, next.target, (flag) => {
+      const first = this.stage(flag);
+      const second = next.run(first.flag);
+
+      return {
+        flag: second.flag,
+        fired: [...first.fired, ...second.fired],
+      };
+    });
+  }
+}
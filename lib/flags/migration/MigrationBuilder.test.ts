@@ -0,0 +1,178 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  ConstraintViolationError,
+  DuplicateFlagsError,
+  UnknownFlagError,
+  UnmappedFlagError,
+  UnrelatedRegistryError,
+} from "../errors";
+import { BigIntFlagRegistry } from "../registry/BigIntFlagRegistry";
+import { NumberFlagRegistry } from "../registry/NumberFlagRegistry";
+
+import { MigrationBuilder } from "./MigrationBuilder";
+
+// bits: READ=1, RW=2, EXEC=4, LEGACY=8, AUDIT_A=16, AUDIT_B=32
+const v1 = NumberFlagRegistry.from(
+  "READ",
+  "RW",
+  "EXEC",
+  "LEGACY",
+  "AUDIT_A",
+  "AUDIT_B",
+);
+
+// bits: AUDIT=1n, EXECUTE=2n, WRITE=4n, READ=8n
+const v2 = BigIntFlagRegistry.from("AUDIT", "EXECUTE", "WRITE", "READ");
+
+const builder = new MigrationBuilder(v1, v2)
+  .rename("EXEC", "EXECUTE")
+  .split("RW", ["READ", "WRITE"])
+  .merge(["AUDIT_A", "AUDIT_B"], "AUDIT")
+  .drop("LEGACY");
+
+const migration = builder.compile();
+
+describe("MigrationBuilder", () => {
+  test("carries unmentioned flags over by name onto their new bits", () => {
+    // input: READ (bit 0 in v1) -> READ (bit 3 in v2)
+    expect(migration.migrate(v1.of("READ")).bits).toBe(8n);
+  });
+
+  test("rename maps one flag to another", () => {
+    // input: EXEC -> EXECUTE
+    expect(migration.migrate(v1.of("EXEC")).toArray()).toEqual(["EXECUTE"]);
+  });
+
+  test("split sets every target flag", () => {
+    // input: RW -> READ + WRITE
+    expect(migration.migrate(v1.of("RW")).toArray()).toEqual([
+      "WRITE",
+      "READ",
+    ]);
+  });
+
+  test("merge sets the target when any source flag is set", () => {
+    // input: AUDIT_B alone, and AUDIT_A + AUDIT_B -> AUDIT
+    expect(migration.migrate(v1.of("AUDIT_B")).toArray()).toEqual(["AUDIT"]);
+    expect(migration.migrate(v1.of("AUDIT_A", "AUDIT_B")).bits).toBe(1n);
+  });
+
+  test("drop clears the flag", () => {
+    // input: LEGACY + READ -> READ
+    expect(migration.migrate(v1.of("LEGACY", "READ")).toArray()).toEqual([
+      "READ",
+    ]);
+  });
+
+  test("returns a flag of the target registry", () => {
+    // input: empty v1 flag -> empty v2 flag
+    const flag = migration.migrate(v1.empty());
+    expect(flag.registry).toBe(v2);
+    expect(flag.isEmpty()).toBe(true);
+  });
+
+  test("every method returns a new builder", () => {
+    // input: builder without drop -> compile() still fails on LEGACY
+    const partial = new MigrationBuilder(v1, v2).rename("EXEC", "EXECUTE");
+    partial.drop("LEGACY");
+    expect(() => partial.compile()).toThrow(UnmappedFlagError);
+  });
+
+  describe("compile()", () => {
+    test("throws UnmappedFlagError for a flag missing from the target", () => {
+      // input: no mapping for LEGACY, RW, EXEC, AUDIT_A, AUDIT_B
+      let caught: unknown;
+      try {
+        new MigrationBuilder(v1, v2).compile();
+      } catch (e) {
+        caught = e;
+      }
+      expect(caught).toBeInstanceOf(UnmappedFlagError);
+      expect((caught as UnmappedFlagError).flags).toEqual([
+        "RW",
+        "EXEC",
+        "LEGACY",
+        "AUDIT_A",
+        "AUDIT_B",
+      ]);
+    });
+
+    test("throws DuplicateFlagsError when a flag is mapped twice", () => {
+      // input: EXEC renamed and dropped
+      expect(() => builder.drop("EXEC").compile()).toThrow(
+        DuplicateFlagsError,
+      );
+    });
+
+    test("throws UnknownFlagError for an unregistered name", () => {
+      // input: rename to a name v2 does not have
+      expect(() =>
+        builder.rename("READ", "NOPE" as "READ").compile(),
+      ).toThrow(UnknownFlagError);
+    });
+  });
+});
+
+describe("Migration", () => {
+  test("run() reports the mappings that fired, in declaration order", () => {
+    // input: RW + LEGACY + READ -> split and drop fired
+    const { flag, fired } = migration.run(v1.of("RW", "LEGACY", "READ"));
+    expect(flag.toArray()).toEqual(["WRITE", "READ"]);
+    expect(fired).toEqual([
+      { kind: "split", from: ["RW"], to: ["READ", "WRITE"] },
+      { kind: "drop", from: ["LEGACY"], to: [] },
+    ]);
+  });
+
+  test("accepts flags of an ancestor of the source", () => {
+    // input: v0 flag, v1 extends v0
+    const v0 = NumberFlagRegistry.from("READ", "RW", "EXEC");
+    const v1b = v0.extend("LEGACY");
+    const m = new MigrationBuilder(v1b, v2)
+      .rename("EXEC", "EXECUTE")
+      .split("RW", ["READ", "WRITE"])
+      .drop("LEGACY")
+      .compile();
+    expect(m.migrate(v0.of("EXEC")).toArray()).toEqual(["EXECUTE"]);
+  });
+
+  test("throws UnrelatedRegistryError for flags of another registry", () => {
+    // input: flag of an unrelated registry with the same names
+    const other = NumberFlagRegistry.from("READ");
+    expect(() => migration.migrate(other.of("READ"))).toThrow(
+      UnrelatedRegistryError,
+    );
+  });
+
+  test("checks the constraints of a strict target", () => {
+    // input: READ + WRITE into a target where WRITE and READ exclude each other
+    const strict = v2.exclusive(
+      { access: ["READ", "WRITE"] },
+      { strict: true },
+    );
+    const m = new MigrationBuilder(v1, strict)
+      .rename("EXEC", "EXECUTE")
+      .split("RW", ["READ", "WRITE"])
+      .merge(["AUDIT_A", "AUDIT_B"], "AUDIT")
+      .drop("LEGACY")
+      .compile();
+    expect(() => m.migrate(v1.of("RW"))).toThrow(ConstraintViolationError);
+  });
+
+  test("andThen() chains migrations and concatenates their reports", () => {
+    // input: v1 -> v2 -> v3 where v3 renames EXECUTE to RUN
+    const v3 = NumberFlagRegistry.from("READ", "WRITE", "RUN", "AUDIT");
+    const v2ToV3 = new MigrationBuilder(v2, v3)
+      .rename("EXECUTE", "RUN")
+      .compile();
+
+    const { flag, fired } = migration.andThen(v2ToV3).run(v1.of("EXEC"));
+    expect(flag.registry).toBe(v3);
+    expect(flag.toArray()).toEqual(["RUN"]);
+    expect(fired).toEqual([
+      { kind: "rename", from: ["EXEC"], to: ["EXECUTE"] },
+      { kind: "rename", from: ["EXECUTE"], to: ["RUN"] },
+    ]);
+  });
+});
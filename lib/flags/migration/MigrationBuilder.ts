@@ -0,0 +1,205 @@
+import { computeMask } from "@/core/utils";
+
+import { FlagBox } from "../box";
+import { DuplicateFlagsError, UnmappedFlagError } from "../errors";
+import { assertConstraints } from "../utils";
+
+import { Migration } from "./Migration";
+
+import type { Bit } from "@/core";
+
+import type { FlagRegistry, MigrationStep } from "../types";
+
+/**
+ * Declares how the flags of one registry map to the flags of another, and
+ * compiles the mappings into a {@link Migration}.
+ *
+ * Every method returns a new builder, so a partly declared builder can be
+ * shared. Flags of the source that no mapping mentions are carried over to
+ * the target flag with the same name.
+ *
+ * @typeParam TFrom - The flag names of the source registry.
+ * @typeParam TFromBit - The bit type of the source registry.
+ * @typeParam TFromBrand - The brand of the source registry.
+ * @typeParam TTo - The flag names of the target registry.
+ * @typeParam TToBit - The bit type of the target registry.
+ * @typeParam TToBrand - The brand of the target registry.
+ *
+ * @example
+ * ```ts
+ * const v1 = NumberFlagRegistry.from("READ", "RW", "EXEC", "LEGACY", "AUDIT_A", "AUDIT_B");
+ * const v2 = BigIntFlagRegistry.from("READ", "WRITE", "EXECUTE", "AUDIT");
+ *
+ * const migration = new MigrationBuilder(v1, v2)
+ *   .rename("EXEC", "EXECUTE")
+ *   .split("RW", ["READ", "WRITE"])
+ *   .merge(["AUDIT_A", "AUDIT_B"], "AUDIT")
+ *   .drop("LEGACY")
+ *   .compile();
+ *
+ * migration.migrate(v1.of("RW", "AUDIT_B")).toArray(); // ["READ", "WRITE", "AUDIT"]
+ * ```
+ */
+export class MigrationBuilder<
+  TFrom extends string,
+  TFromBit extends Bit,
+  TFromBrand extends string | symbol,
+  TTo extends string,
+  TToBit extends Bit,
+  TToBrand extends string | symbol,
+> {
+  /**
+   * @param source - The registry of the stored flags.
+   * @param target - The registry to migrate them to.
+   * @param steps - Mappings declared so far.
+   */
+  constructor(
+    /** The registry of the stored flags. */
+    readonly source: FlagRegistry<TFrom, TFromBit, TFromBrand>,
+    /** The registry to migrate them to. */
+    readonly target: FlagRegistry<TTo, TToBit, TToBrand>,
+    private readonly steps: readonly MigrationStep[] = [],
+  ) {}
+
+  private with(step: MigrationStep): this {
+    return new MigrationBuilder(this.source, this.target, [
+      ...this.steps,
+      step,
+    ]) as this;
+  }
+
+  /**
+   * Maps a source flag to a target flag with another name or bit.
+   *
+   * @param from - The source flag.
+   * @param to - The target flag.
+   */
+  rename(from: TFrom, to: TTo): this {
+    return this.with({ kind: "rename", from: [from], to: [to] });
+  }
+
+  /**
+   * Maps a source flag to several target flags: when `from` is set, every
+   * flag in `to` is set.
+   *
+   * @param from - The source flag.
+   * @param to - The target flags.
+   */
+  split(from: TFrom, to: readonly TTo[]): this {
+    return this.with({ kind: "split", from: [from], to });
+  }
+
+  /**
+   * Maps several source flags to one target flag: when any flag in `from`
+   * is set, `to` is set.
+   *
+   * @param from - The source flags.
+   * @param to - The target flag.
+   */
+  merge(from: readonly TFrom[], to: TTo): this {
+    return this.with({ kind: "merge", from, to: [to] });
+  }
+
+  /**
+   * Drops source flags that have no counterpart in the target.
+   *
+   * @param from - The source flags to drop.
+   */
+  drop(...from: TFrom[]): this {
+    return this.with({ kind: "drop", from, to: [] });
+  }
+
+  /**
+   * Resolves every mapping to a pair of masks and returns the migration.
+   *
+   * Bits of a source flag that is neither mapped nor registered under the same
+   * name in the target are an error; bits no source flag owns (kept by
+   * `parse(value, { unknownBits: "keep" })`) are dropped.
+   *
+   * @returns The compiled {@link Migration}.
+   * @throws {@link UnknownFlagError} if a mapping names a flag that is not
+   *   registered in its registry.
+   * @throws {@link DuplicateFlagsError} if a source flag is mapped twice.
+   * @throws {@link UnmappedFlagError} if a source flag has no mapping and no
+   *   target flag with the same name.
+   */
+  compile(): Migration<TFrom, TFromBit, TFromBrand, TTo, TToBit, TToBrand> {
+    const { source, target } = this;
+
+    const from = source.combinator;
+    const to = target.combinator;
+
+    const resolve = <TBit extends Bit>(
+      registry: FlagRegistry<string, TBit, string | symbol>,
+      names: readonly string[],
+    ): TBit =>
+      computeMask(
+        registry.combinator,
+        names.map((name) => registry.repository.get(name)),
+      );
+
+    const compiled = this.steps.map((step) => ({
+      step,
+      from: resolve(source, step.from),
+      to: resolve(target, step.to),
+    }));
+
+    let mapped = from.zero;
+
+    for (const { step, from: mask } of compiled) {
+      if (!from.equals(from.and(mapped, mask), from.zero)) {
+        throw new DuplicateFlagsError(
+          step.from.filter(
+            (name) =>
+              !from.equals(
+                from.and(mapped, source.repository.get(name)),
+                from.zero,
+              ),
+          ),
+        );
+      }
+
+      mapped = from.or(mapped, mask);
+    }
+
+    const carried: [TFromBit, TToBit][] = [];
+    const unmapped: string[] = [];
+
+    for (const [name, bit] of source.entries()) {
+      if (!from.equals(from.and(mapped, bit), from.zero)) continue;
+
+      if (target.repository.has(name)) {
+        carried.push([bit, target.repository.get(name)]);
+      } else {
+        unmapped.push(name);
+      }
+    }
+
+    if (unmapped.length > 0) throw new UnmappedFlagError(unmapped);
+
+    return new Migration(source, target, (flag) => {
+      const isSet = (mask: TFromBit) =>
+        !from.equals(from.and(flag.bits, mask), from.zero);
+
+      let bits = to.zero;
+
+      for (const [bit, mask] of carried) {
+        if (isSet(bit)) bits = to.or(bits, mask);
+      }
+
+      const fired: MigrationStep[] = [];
+
+      for (const { step, from: mask, to: result } of compiled) {
+        if (!isSet(mask)) continue;
+
+        bits = to.or(bits, result);
+        fired.push(step);
+      }
+
+      return {
+        flag: assertConstraints(new FlagBox(bits, target)),
+        fired,
+      };
+    });
+  }
+}
@@ -0,0 +1,2 @@
+export { Migration } from "./Migration";
+export { MigrationBuilder } from "./MigrationBuilder";
@@ -0,0 +1,192 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+  DuplicateFlagsError,
+  FieldOverflowError,
+  InvalidFlagError,
+  OverflowError,
+  OverlappingFieldError,
+  UnknownBitsError,
+  UnrelatedRegistryError,
+} from "../errors";
+import {
+  BigIntFlagRegistry,
+  BitsetFlagRegistry,
+  NumberFlagRegistry,
+} from "../registry";
+
+// bits: ENCRYPTED=1, COMPRESSED=2, priority=bits 2..4, level=bits 5..6
+const base = NumberFlagRegistry.from("ENCRYPTED", "COMPRESSED");
+const packed = base.pack({
+  priority: { offset: 2, width: 3 },
+  level: { offset: 5, width: 2 },
+});
+
+describe("FlagRegistry#pack()", () => {
+  test("returns a registry that accepts field bits in parse()", () => {
+    // input: 0b1010101 -> ENCRYPTED + priority 5 + level 2
+    const flag = packed.registry.parse(0b1010101);
+    expect(flag.toArray()).toEqual(["ENCRYPTED"]);
+    expect(packed.get(flag, "priority")).toBe(5);
+    expect(packed.get(flag, "level")).toBe(2);
+  });
+
+  test("still rejects bits outside flags and fields", () => {
+    // input: bit 7 -> not a flag, not a field
+    expect(() => packed.registry.parse(0b10000000)).toThrow(UnknownBitsError);
+  });
+
+  test("throws OverlappingFieldError when a field overlaps a flag", () => {
+    // input: field at bit 1 -> COMPRESSED
+    expect(() => base.pack({ x: { offset: 1, width: 2 } })).toThrow(
+      OverlappingFieldError,
+    );
+  });
+
+  test("throws OverlappingFieldError when two fields overlap", () => {
+    // input: a = bits 4..6, b = bits 6..7
+    let caught: unknown;
+    try {
+      base.pack({ a: { offset: 4, width: 3 }, b: { offset: 6, width: 2 } });
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toBeInstanceOf(OverlappingFieldError);
+    expect((caught as OverlappingFieldError).field).toBe("b");
+    expect((caught as OverlappingFieldError).other).toBe("a");
+  });
+
+  test("throws InvalidFlagError for a malformed definition", () => {
+    // input: width 0, negative offset, fractional width
+    expect(() => base.pack({ x: { offset: 4, width: 0 } })).toThrow(
+      InvalidFlagError,
+    );
+    expect(() => base.pack({ x: { offset: -1, width: 2 } })).toThrow(
+      InvalidFlagError,
+    );
+    expect(() => base.pack({ x: { offset: 4, width: 1.5 } })).toThrow(
+      InvalidFlagError,
+    );
+  });
+
+  test("throws OverflowError when a field passes bit 30 of a number registry", () => {
+    // input: bits 29..31
+    expect(() => base.pack({ x: { offset: 29, width: 3 } })).toThrow(
+      OverflowError,
+    );
+    expect(() => base.pack({ x: { offset: 28, width: 3 } })).not.toThrow();
+  });
+
+  test("throws DuplicateFlagsError when a field reuses a flag name", () => {
+    // input: field "ENCRYPTED"
+    expect(() => base.pack({ ENCRYPTED: { offset: 4, width: 2 } })).toThrow(
+      DuplicateFlagsError,
+    );
+  });
+
+  test("extend() skips field bits when placing new flags", () => {
+    // input: extend("SIGNED") -> first free bit is 7
+    const v2 = packed.registry.extend("SIGNED");
+    expect(v2.get("SIGNED")).toBe(0b10000000);
+  });
+
+  test("extend() rejects explicit values on field bits", () => {
+    // input: { SIGNED: 4 } -> bit 2 belongs to priority
+    expect(() => packed.registry.extend({ SIGNED: 4 })).toThrow(
+      OverlappingFieldError,
+    );
+  });
+});
+
+describe("PackedFlagRegistry", () => {
+  test("set() writes a value and keeps every other bit", () => {
+    // input: ENCRYPTED + level 3, set priority 5
+    const flag = packed.set(packed.registry.parse(0b1100001), "priority", 5);
+    expect(flag.bits).toBe(0b1110101);
+    expect(packed.get(flag, "level")).toBe(3);
+  });
+
+  test("set() replaces the previous value", () => {
+    // input: priority 7 -> 2
+    const seven = packed.set(packed.registry.empty(), "priority", 7);
+    expect(packed.get(packed.set(seven, "priority", 2), "priority")).toBe(2);
+  });
+
+  test("set() throws FieldOverflowError for values that do not fit", () => {
+    // input: 8 for a 3-bit field, -1, 1.5
+    const empty = packed.registry.empty();
+    expect(() => packed.set(empty, "priority", 8)).toThrow(FieldOverflowError);
+    expect(() => packed.set(empty, "priority", -1)).toThrow(FieldOverflowError);
+    expect(() => packed.set(empty, "priority", 1.5)).toThrow(
+      FieldOverflowError,
+    );
+  });
+
+  test("has() behaves like FlagBox.has for boolean members", () => {
+    // input: ENCRYPTED + priority 7
+    const flag = packed.set(packed.registry.of("ENCRYPTED"), "priority", 7);
+    expect(packed.has(flag, "ENCRYPTED")).toBe(true);
+    expect(packed.has(flag, "COMPRESSED")).toBe(false);
+  });
+
+  test("field bits do not affect isFull() or toArray()", () => {
+    // input: every flag + level 1
+    const flag = packed.set(packed.registry.full(), "level", 1);
+    expect(flag.isFull()).toBe(true);
+    expect(flag.toArray()).toEqual(["ENCRYPTED", "COMPRESSED"]);
+  });
+
+  test("field bits do not affect size, isEmpty() or alias", () => {
+    // input: ENCRYPTED + priority 7, then priority 7 alone
+    const flag = packed.set(packed.registry.of("ENCRYPTED"), "priority", 7);
+    expect(flag.size).toBe(1);
+    expect(flag.alias).toBe("ENCRYPTED");
+
+    const fieldOnly = packed.set(packed.registry.empty(), "priority", 7);
+    expect(fieldOnly.size).toBe(0);
+    expect(fieldOnly.isEmpty()).toBe(true);
+    expect(fieldOnly.alias).toBe("EMPTY_FLAG");
+  });
+
+  test("accepts flags of the base registry", () => {
+    // input: base.of("COMPRESSED") -> priority 0
+    const flag = base.of("COMPRESSED");
+    expect(packed.get(flag, "priority")).toBe(0);
+    expect(packed.set(flag, "priority", 1).bits).toBe(0b110);
+  });
+
+  test("rejects flags of unrelated registries", () => {
+    const other = NumberFlagRegistry.from("ENCRYPTED", "COMPRESSED");
+    expect(() => packed.get(other.of("ENCRYPTED"), "priority")).toThrow(
+      UnrelatedRegistryError,
+    );
+  });
+
+  test("mask() and fields() describe the layout", () => {
+    expect(packed.mask("priority")).toBe(0b11100);
+    expect(packed.fields()).toEqual([
+      ["priority", { offset: 2, width: 3 }],
+      ["level", { offset: 5, width: 2 }],
+    ]);
+  });
+
+  test("works with bigint registries beyond 64 bits", () => {
+    // input: field at bits 70..73
+    const wide = BigIntFlagRegistry.from("A").pack({
+      code: { offset: 70, width: 4 },
+    });
+    const flag = wide.set(wide.registry.of("A"), "code", 9);
+    expect(flag.bits).toBe((9n << 70n) | 1n);
+    expect(wide.get(flag, "code")).toBe(9);
+  });
+
+  test("works with bitset registries across word boundaries", () => {
+    // input: field at bits 30..33
+    const wide = BitsetFlagRegistry.from("A").pack({
+      code: { offset: 30, width: 4 },
+    });
+    const flag = wide.set(wide.registry.of("A"), "code", 0b1011);
+    expect(flag.bits.toBigInt()).toBe((0b1011n << 30n) | 1n);
+    expect(wide.get(flag, "code")).toBe(0b1011);
+  });
+});
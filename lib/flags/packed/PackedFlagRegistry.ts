@@ -0,0 +1,189 @@
+import { rangeMask } from "@/core/utils";
+
+import { FlagBox } from "../box";
+import { FieldOverflowError, UnknownFlagError } from "../errors";
+
+import type { Bit } from "@/core";
+
+import type { FieldDefinition, Flag, FlagRegistry } from "../types";
+
+/**
+ * Reads and writes multi-bit fields packed into the flags of a registry,
+ * next to its single-bit flags.
+ *
+ * Created by `FlagRegistry.pack()`. Every read and write is done with the
+ * registry's combinator, so the same code works for `number`, `bigint` and
+ * `Bitset` registries. Flags are never modified: {@link set} returns a new one.
+ *
+ * @typeParam TFlags - The union of single-bit flag names.
+ * @typeParam TFields - The union of field names.
+ * @typeParam TBit - The numeric type of the bit values.
+ * @typeParam TBrand - The brand of {@link registry}.
+ *
+ * @example
+ * ```ts
+ * const packed = NumberFlagRegistry.from("ENCRYPTED", "COMPRESSED").pack({
+ *   priority: { offset: 2, width: 3 },
+ *   level:    { offset: 5, width: 2 },
+ * });
+ *
+ * let flag = packed.registry.of("ENCRYPTED");
+ * flag = packed.set(flag, "priority", 5);
+ * flag = packed.set(flag, "level", 2);
+ *
+ * flag.bits;                       // 0b1010101 = 85
+ * packed.get(flag, "priority");    // 5
+ * packed.has(flag, "COMPRESSED");  // false
+ * ```
+ */
+export class PackedFlagRegistry<
+  TFlags extends string,
+  TFields extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol = symbol,
+> {
+  readonly #masks: ReadonlyMap<TFields, TBit>;
+
+  /**
+   * @internal Use `FlagRegistry.pack()` instead.
+   *
+   * @param registry - The registry that holds the flags and accepts the bits
+   *   of the fields in `parse()`.
+   * @param fields - Field definitions by name, already validated.
+   */
+  constructor(
+    /**
+     * The registry whose flags carry the fields. Use it to create, parse and
+     * combine flags as usual.
+     */
+    readonly registry: FlagRegistry<TFlags, TBit, TBrand>,
+    private readonly definitions: ReadonlyMap<TFields, FieldDefinition>,
+  ) {
+    const { combinator } = registry;
+
+    this.#masks = new Map(
+      [...definitions].map(([name, { offset, width }]) => [
+        name,
+        rangeMask(combinator, offset, width),
+      ]),
+    );
+  }
+
+  private definition(field: TFields): FieldDefinition {
+    const definition = this.definitions.get(field);
+
+    if (definition === undefined) {
+      throw new UnknownFlagError(field);
+    }
+
+    return definition;
+  }
+
+  /**
+   * Returns every `[name, definition]` pair in declaration order.
+   *
+   * @example
+   * ```ts
+   * packed.fields(); // [["priority", { offset: 2, width: 3 }], ...]
+   * ```
+   */
+  fields(): [TFields, FieldDefinition][] {
+    return [...this.definitions];
+  }
+
+  /**
+   * Returns the mask with every bit of `field` set.
+   *
+   * @param field - The field name.
+   * @throws {@link UnknownFlagError} if `field` is not declared.
+   *
+   * @example
+   * ```ts
+   * packed.mask("priority"); // 0b11100 = 28
+   * ```
+   */
+  mask(field: TFields): TBit {
+    const mask = this.#masks.get(field);
+
+    if (mask === undefined) {
+      throw new UnknownFlagError(field);
+    }
+
+    return mask;
+  }
+
+  /**
+   * Reads the value stored in `field`.
+   *
+   * @param flag - A flag of {@link registry} or of one of its ancestors.
+   * @param field - The field name.
+   * @returns An integer from `0` to `2 ** width - 1`.
+   * @throws {@link UnknownFlagError} if `field` is not declared.
+   * @throws {@link UnrelatedRegistryError} if `flag` belongs to an unrelated registry.
+   */
+  get(flag: Flag<string, TBit, string | symbol>, field: TFields): number {
+    const { offset, width } = this.definition(field);
+    const { combinator } = this.registry;
+
+    const bits = combinator.and(this.registry.lift(flag).bits, this.mask(field));
+
+    let value = 0;
+
+    for (let i = 0; i < width; i++) {
+      const bit = combinator.shiftL(combinator.one, offset + i);
+
+      if (!combinator.equals(combinator.and(bits, bit), combinator.zero)) {
+        value += 2 ** i;
+      }
+    }
+
+    return value;
+  }
+
+  /**
+   * Returns a new flag with `field` set to `value` and every other bit kept.
+   *
+   * @param flag - A flag of {@link registry} or of one of its ancestors.
+   * @param field - The field name.
+   * @param value - An integer from `0` to `2 ** width - 1`.
+   * @returns A {@link Flag} of {@link registry}.
+   * @throws {@link UnknownFlagError} if `field` is not declared.
+   * @throws {@link FieldOverflowError} if `value` does not fit the field.
+   * @throws {@link UnrelatedRegistryError} if `flag` belongs to an unrelated registry.
+   */
+  set(
+    flag: Flag<string, TBit, string | symbol>,
+    field: TFields,
+    value: number,
+  ): Flag<TFlags, TBit, TBrand> {
+    const { offset, width } = this.definition(field);
+    const { combinator } = this.registry;
+
+    if (!Number.isInteger(value) || value < 0 || value >= 2 ** width) {
+      throw new FieldOverflowError(field, value, width);
+    }
+
+    let bits = combinator.andNot(this.registry.lift(flag).bits, this.mask(field));
+
+    for (let i = 0, rest = value; rest > 0; i++, rest = Math.floor(rest / 2)) {
+      if (rest % 2 === 1) {
+        bits = combinator.or(bits, combinator.shiftL(combinator.one, offset + i));
+      }
+    }
+
+    return new FlagBox(bits, this.registry);
+  }
+
+  /**
+   * Returns `true` when the single-bit flag (or composite) `name` is set.
+   * Same as `flag.has(name)` once `flag` is lifted to {@link registry}.
+   *
+   * @param flag - A flag of {@link registry} or of one of its ancestors.
+   * @param name - A flag or composite name.
+   * @throws {@link UnknownFlagError} if `name` is not registered.
+   * @throws {@link UnrelatedRegistryError} if `flag` belongs to an unrelated registry.
+   */
+  has(flag: Flag<string, TBit, string | symbol>, name: TFlags): boolean {
+    return this.registry.lift(flag).has(name);
+  }
+}
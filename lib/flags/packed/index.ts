@@ -0,0 +1 @@
+export { PackedFlagRegistry } from "./PackedFlagRegistry";
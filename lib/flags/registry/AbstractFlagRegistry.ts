@@ -1,13 +1,64 @@
-import { computeMask } from "@/core/utils";
+import { computeMask, copyBits, rangeMask } from "@/core/utils";
 
 import { FlagBox } from "../box";
-import { UnknownBitsError } from "../errors";
-import { resolveMask } from "../utils";
+import { FlagBuilder } from "../builder";
+import { toBytes } from "../encoding/toBytes";
+import {
+  ConstraintViolationError,
+  DuplicateFlagsError,
+  InvalidFlagError,
+  InvalidSchemaError,
+  NotPositiveError,
+  OverlappingFieldError,
+  ParseError,
+  ReservedBitError,
+  SchemaMismatchError,
+  UnknownBitsError,
+  UnknownFlagError,
+  UnrelatedRegistryError,
+} from "../errors";
+import { PackedFlagRegistry } from "../packed";
+import {
+  assertConstraints,
+  fingerprint,
+  isFlagEnvelope,
+  resolveMask,
+  resolveNames,
+  standardSchema,
+} from "../utils";
 
 import type { Bit, Combinator } from "@/core";
 
 import type { Repository } from "../repository";
-import type { Flag, FlagRegistry } from "../types";
+import type {
+  AnnotateOptions,
+  ComposeOptions,
+  ConstraintOptions,
+  ConstraintViolation,
+  DeprecationHandler,
+  ExclusiveGroup,
+  ExclusiveOptions,
+  FieldDefinition,
+  Flag,
+  FlagCodec,
+  FlagEnvelope,
+  FlagFormat,
+  FlagMetadata,
+  FlagRegistry,
+  FlagValue,
+  FromBytesOptions,
+  FromJSONOptions,
+  ParseNamesOptions,
+  ParseOptions,
+  RegistryKind,
+  RegistryOptions,
+  RegistrySchema,
+  SerializedFlag,
+  StandardSchemaV1,
+  UnknownBitsPolicy,
+} from "../types";
+
+import type { RegistryConfig } from "./types";
 
 /**
  * @internal
@@ -20,6 +71,78 @@ export abstract class AbstractFlagRegistry<
 > implements FlagRegistry<TFlags, TBit, TBrand>
 {
   private _fullBits: TBit | null = null;
+  private _fieldBits: TBit | null = null;
+  private _reservedBits: TBit | null = null;
+  private _retiredBits: TBit | null = null;
+  private _fingerprint: string | null = null;
+
+  /**
+   * The kind recorded by {@link toSchema}.
+   *
+   * @internal
+   */
+  protected abstract readonly kind: RegistryKind;
+
+  /**
+   * Composites, packed fields and other settings of this registry.
+   *
+   * @internal
+   */
+  protected readonly config: RegistryConfig<TBit>;
+
+  /**
+   * @param parent - The registry this one was created from with `extend()`,
+   *   `compose()` or `pack()`, or `null` for a registry created by a static factory.
+   * @param config - Overrides the settings inherited from `parent`.
+   */
+  protected constructor(
+    protected readonly parent: AbstractFlagRegistry<
+      string,
+      TBit,
+      string | symbol
+    > | null = null,
+    config: Partial<RegistryConfig<TBit>> = {},
+  ) {
+    this.config = {
+      composites: new Map(),
+      collapseComposites: false,
+      fields: new Map(),
+      implications: new Map(),
+      groups: new Map(),
+      metadata: new Map(),
+      onDeprecated: null,
+      reserved: new Set(),
+      retired: new Set(),
+      ignoreRetired: false,
+      strict: false,
+      ...parent?.config,
+      ...config,
+    };
+  }
+
+  /**
+   * Whether `toArray()` and `alias` collapse fully set composites into their
+   * names by default. See {@link compose}.
+   */
+  get collapseComposites(): boolean {
+    return this.config.collapseComposites;
+  }
+
+  /**
+   * Whether flags that break a rule declared with {@link imply} are rejected.
+   * See {@link ConstraintOptions.strict}.
+   */
+  get strict(): boolean {
+    return this.config.strict;
+  }
+
+  /**
+   * Called when a deprecated name is passed to `of()` or to an operator, or
+   * `null` when no handler is set. See {@link AnnotateOptions.onDeprecated}.
+   */
+  get onDeprecated(): DeprecationHandler | null {
+    return this.config.onDeprecated;
+  }
 
   /**
    * Checks whether the passed array has duplicate values.
@@ -46,20 +169,481 @@ export abstract class AbstractFlagRegistry<
   }
 
   /**
-   * Asserts that every bit in `bits` corresponds to at least one registered flag.
+   * Returns big-endian `bytes` as a `0x`-prefixed hexadecimal string that
+   * `coerce()` accepts.
+   *
+   * @internal
+   *
+   * @param bytes - The bytes, most significant first.
+   */
+  protected static hexOf(bytes: Uint8Array): string {
+    let hex = "";
+
+    for (const byte of bytes) hex += byte.toString(16).padStart(2, "0");
+
+    return `0x${hex || "0"}`;
+  }
+
+  /**
+   * Converts the options of a static factory into registry settings.
+   *
+   * @internal
+   *
+   * @param options - The options passed to `from()` or `define()`.
+   * @throws {@link InvalidFlagError} if a position is not a non-negative integer.
+   */
+  protected static configFrom(
+    options: RegistryOptions,
+  ): Pick<RegistryConfig<Bit>, "reserved" | "retired" | "ignoreRetired"> {
+    const { reserved = [], retired = [], ignoreRetired = false } = options;
+
+    for (const position of [...reserved, ...retired]) {
+      if (!Number.isInteger(position) || position < 0) {
+        throw new InvalidFlagError(
+          "Reserved bit position must be a non-negative integer",
+          String(position),
+          position,
+        );
+      }
+    }
+
+    return {
+      reserved: new Set(reserved),
+      retired: new Set(retired),
+      ignoreRetired,
+    };
+  }
+
+  /**
+   * Splits the values passed to `define()` into single-bit flags and
+   * composites. A value is a composite when it has more than one bit set and
+   * each of its bits belongs to a single-bit value of the same call. Any
+   * other value stays a flag, so the registry rejects it as before.
+   *
+   * @internal
+   *
+   * @param flags - The values passed to `define()`.
+   * @returns The single-bit flags, and the members of each composite.
+   */
+  protected static splitComposites<TValue extends number | bigint>(
+    flags: Record<string, TValue>,
+  ): [Map<string, TValue>, Record<string, string[]>] {
+    const bitsOf = (value: TValue): bigint | null =>
+      typeof value === "bigint" || Number.isSafeInteger(value)
+        ? BigInt(value)
+        : null;
+    const isSingle = (bits: bigint | null): bits is bigint =>
+      bits !== null && bits > 0n && (bits & (bits - 1n)) === 0n;
+
+    const singles = Object.entries(flags).filter(([, value]) =>
+      isSingle(bitsOf(value)),
+    );
+    const owned = singles.reduce((mask, [, value]) => mask | BigInt(value), 0n);
+
+    const map = new Map<string, TValue>();
+    const composites: Record<string, string[]> = {};
+
+    for (const [key, value] of Object.entries(flags)) {
+      const bits = bitsOf(value);
+
+      if (
+        bits === null ||
+        bits <= 0n ||
+        isSingle(bits) ||
+        (bits & ~owned) !== 0n
+      ) {
+        map.set(key, value);
+        continue;
+      }
+
+      composites[key] = singles
+        .filter(([, member]) => (bits & BigInt(member)) !== 0n)
+        .map(([name]) => name);
+    }
+
+    return [map, composites];
+  }
+
+  /**
+   * Adds the composites given to a static factory — the multi-bit values
+   * passed to `define()` and the `composites` option — to a registry it has
+   * just created, the same way {@link compose} does.
+   *
+   * @internal
+   *
+   * @param registry - The registry created by the factory.
+   * @param options - The options passed to the factory.
+   * @param composites - The composites found by {@link splitComposites}.
+   * @returns `registry`, or a registry that extends it with the composites.
+   * @throws {@link DuplicateFlagsError} if a composite name is used twice.
+   */
+  protected static withComposites<TBit extends Bit>(
+    registry: FlagRegistry<string, TBit, string | symbol>,
+    options: RegistryOptions,
+    composites: Record<string, string[]> = {},
+  ): FlagRegistry<string, TBit, string | symbol> {
+    const { composites: declared = {}, collapseComposites } = options;
+
+    const entries = [
+      ...Object.entries(composites),
+      ...Object.entries<readonly string[]>(declared),
+    ];
+    const names = entries.map(([key]) => key);
+
+    if (this.hasDuplicates(names)) {
+      throw new DuplicateFlagsError(this.findDuplicates(names));
+    }
+
+    if (entries.length === 0 && collapseComposites === undefined) {
+      return registry;
+    }
+
+    return registry.compose(Object.fromEntries(entries), {
+      collapse: collapseComposites,
+    });
+  }
+
+  /**
+   * Checks the shape of a schema passed to `fromSchema()` and splits it into
+   * the arguments of `define()`. The flags themselves are validated by
+   * `define()`, so a bad schema fails the same way a bad `define()` call does.
+   *
+   * @internal
+   *
+   * @param schema - The schema to read.
+   * @param kind - The kind of the registry being created.
+   * @returns The flags with `bigint` values, and the reserved and retired positions.
+   * @throws {@link InvalidSchemaError} if `schema` is not a schema of `kind`.
+   */
+  protected static readSchema(
+    schema: RegistrySchema,
+    kind: RegistryKind,
+  ): [Map<string, bigint>, RegistryOptions<never, never>] {
+    if (typeof schema !== "object" || (schema as unknown) === null) {
+      throw new InvalidSchemaError("expected an object", schema);
+    }
+
+    if (schema.kind !== kind) {
+      throw new InvalidSchemaError(
+        `expected kind "${kind}", got "${String(schema.kind)}"`,
+        schema,
+      );
+    }
+
+    const { flags: values } = schema as { flags: unknown };
+
+    if (typeof values !== "object" || values === null) {
+      throw new InvalidSchemaError("expected a flags object", schema);
+    }
+
+    const flags = new Map<string, bigint>();
+
+    for (const [name, value] of Object.entries(values)) {
+      if (typeof value !== "string" || !/^\d+$/.test(value)) {
+        throw new InvalidSchemaError(
+          `flag "${name}" must be a decimal string, got ${String(value)}`,
+          schema,
+        );
+      }
+
+      flags.set(name, BigInt(value));
+    }
+
+    const { reserved = [], retired = [] } = schema;
+
+    if (!Array.isArray(reserved) || !Array.isArray(retired)) {
+      throw new InvalidSchemaError(
+        "reserved and retired must be arrays of bit positions",
+        schema,
+      );
+    }
+
+    return [flags, { reserved, retired }];
+  }
+
+  /**
+   * Pairs every name with the lowest bit position that is neither reserved
+   * nor retired, in order. Used by `from()` to place flags.
+   *
+   * @internal
+   *
+   * @param flags - Flag names in registration order.
+   * @param options - The options passed to `from()`.
+   */
+  protected static assignPositions(
+    flags: string[],
+    options: RegistryOptions,
+  ): [string, number][] {
+    const blocked = new Set([
+      ...(options.reserved ?? []),
+      ...(options.retired ?? []),
+    ]);
+
+    let position = 0;
+
+    return flags.map((flag) => {
+      while (blocked.has(position)) position++;
+
+      return [flag, position++];
+    });
+  }
+
+  /**
+   * Asserts that `names` can be added to this registry by `extend()`.
+   *
+   * @internal
+   *
+   * @param names - The names of the flags to add.
+   * @throws {@link DuplicateFlagsError} if a name repeats or is already registered.
+   */
+  protected assertNewNames(names: string[]): void {
+    const composites = this.repository.composites().map(([key]) => key);
+    const fields = [...this.config.fields.keys()];
+
+    const all = [...this.keys(), ...composites, ...fields, ...names];
+
+    if (AbstractFlagRegistry.hasDuplicates(all)) {
+      throw new DuplicateFlagsError(AbstractFlagRegistry.findDuplicates(all));
+    }
+  }
+
+  /**
+   * Asserts that a packed field definition is well formed.
+   * Subclasses with a fixed width add their own upper bound.
+   *
+   * @internal
+   *
+   * @param name - The field name.
+   * @param field - The field definition.
+   * @throws {@link InvalidFlagError} if the offset is not a non-negative
+   *   integer or the width is not an integer from `1` to `53`.
+   */
+  protected validateField(name: string, field: FieldDefinition): void {
+    if (!Number.isInteger(field.offset) || field.offset < 0) {
+      throw new InvalidFlagError(
+        `Field "${name}" offset must be a non-negative integer`,
+        name,
+        field.offset,
+      );
+    }
+
+    if (!Number.isInteger(field.width) || field.width < 1 || field.width > 53) {
+      throw new InvalidFlagError(
+        `Field "${name}" width must be an integer from 1 to 53`,
+        name,
+        field.width,
+      );
+    }
+  }
+
+  /**
+   * Asserts that every packed field is well formed and that no two fields,
+   * nor a field and a flag, share a bit. Called by subclass constructors once
+   * the repository is set.
+   *
+   * @internal
+   *
+   * @throws {@link InvalidFlagError} if a field definition is malformed.
+   * @throws {@link OverlappingFieldError} if a field overlaps a flag or another field.
+   */
+  protected validateFields(): void {
+    const taken: [string, TBit][] = [...this.entries()];
+
+    for (const [name, field] of this.config.fields) {
+      this.validateField(name, field);
+
+      const mask = rangeMask(this.combinator, field.offset, field.width);
+
+      for (const [other, bits] of taken) {
+        const shared = this.combinator.and(mask, bits);
+
+        if (!this.combinator.equals(shared, this.combinator.zero)) {
+          throw new OverlappingFieldError(name, other);
+        }
+      }
+
+      taken.push([name, mask]);
+    }
+  }
+
+  /**
+   * Asserts that no flag and no packed field uses a reserved or retired bit.
+   * Called by subclass constructors once the repository is set.
+   *
+   * @internal
+   *
+   * @throws {@link ReservedBitError} if a flag or field uses a reserved or retired bit.
+   */
+  protected validateReserved(): void {
+    const fields = [...this.config.fields].map(
+      ([name, { offset, width }]): [string, TBit] => [
+        name,
+        rangeMask(this.combinator, offset, width),
+      ],
+    );
+
+    for (const position of [...this.config.reserved, ...this.config.retired]) {
+      const bit = this.combinator.shiftL(this.combinator.one, position);
+
+      for (const [name, value] of [...this.entries(), ...fields]) {
+        const shared = this.combinator.and(value, bit);
+
+        if (!this.combinator.equals(shared, this.combinator.zero)) {
+          throw new ReservedBitError(name, value, position);
+        }
+      }
+    }
+  }
+
+  private positionsMask(positions: Iterable<number>): TBit {
+    const bits = [...positions].map((position) =>
+      this.combinator.shiftL(this.combinator.one, position),
+    );
+
+    return computeMask(this.combinator, bits);
+  }
+
+  /**
+   * A bitmask with every reserved and every retired bit set.
+   *
+   * @internal
+   */
+  protected get reservedBits(): TBit {
+    this._reservedBits ??= this.positionsMask([
+      ...this.config.reserved,
+      ...this.config.retired,
+    ]);
+
+    return this._reservedBits;
+  }
+
+  private get retiredBits(): TBit {
+    this._retiredBits ??= this.positionsMask(this.config.retired);
+
+    return this._retiredBits;
+  }
+
+  /**
+   * A bitmask with every bit that `extend()` must not give to a new flag:
+   * bits of flags, of packed fields, and reserved or retired bits.
+   *
+   * @internal
+   */
+  protected get takenBits(): TBit {
+    const { combinator } = this;
+
+    return combinator.or(this.knownBits, this.reservedBits);
+  }
+
+  /**
+   * A bitmask with every bit that `parse()` accepts without an unknown-bits
+   * policy: the bits of the flags and of the packed fields.
+   */
+  get knownBits(): TBit {
+    return this.combinator.or(this.fullBits, this.fieldBits);
+  }
+
+  /**
+   * A bitmask with every bit of every packed field set.
+   *
+   * @internal
+   */
+  protected get fieldBits(): TBit {
+    this._fieldBits ??= computeMask(
+      this.combinator,
+      [...this.config.fields.values()].map((field) =>
+        rangeMask(this.combinator, field.offset, field.width),
+      ),
+    );
+
+    return this._fieldBits;
+  }
+
+  /**
+   * Applies the unknown-bits policy to `bits` and, when the registry is
+   * strict, asserts that the result breaks no implication rule or exclusive
+   * group.
    *
-   * Computes `bits & ~fullBits` to isolate any bits absent from the registry.
-   * If the result is non-zero, those bits are unknown and the value is rejected.
+   * Computes `bits & ~knownBits` to isolate any bits absent from the
+   * registry. If the result is non-zero, those bits are unknown and `policy`
+   * decides whether the value is rejected, stripped or kept.
    *
    * @param bits - The bit value to validate.
-   * @throws {@link UnknownBitsError} if `bits` contains bits not covered by any registered flag.
+   * @param policy - See {@link UnknownBitsPolicy}.
+   * @returns `bits`, without the unknown bits when `policy` is `"strip"`.
+   * @throws {@link UnknownBitsError} if `bits` contains bits not covered by
+   *   any registered flag and `policy` is `"throw"`.
+   * @throws {@link ConstraintViolationError} if the registry is strict and
+   *   `bits` break one of its rules.
    */
-  private validateBits(bits: TBit): void {
-    const unknownBits = this.combinator.andNot(bits, this.fullBits);
+  private validateBits(bits: TBit, policy: UnknownBitsPolicy): TBit {
+    const { combinator } = this;
 
-    if (unknownBits !== this.combinator.zero) {
-      throw new UnknownBitsError(bits, unknownBits);
+    const unknownBits = combinator.andNot(bits, this.knownBits);
+
+    if (!combinator.equals(unknownBits, combinator.zero)) {
+      if (policy === "throw") throw new UnknownBitsError(bits, unknownBits);
+
+      if (policy === "strip") bits = combinator.andNot(bits, unknownBits);
+    }
+
+    if (!this.strict) return bits;
+
+    const violations = this.findViolations(bits);
+
+    if (violations.length > 0) {
+      throw new ConstraintViolationError(violations);
     }
+
+    return bits;
+  }
+
+  /**
+   * Collects the implication rules and exclusive groups that `bits` break,
+   * rules first, each in declaration order.
+   */
+  private findViolations(bits: TBit): ConstraintViolation<TFlags>[] {
+    const violations: ConstraintViolation<TFlags>[] = [];
+
+    for (const [key, requires] of this.implications()) {
+      if (!this.contains(bits, this.repository.get(key))) continue;
+
+      const missing = requires.filter(
+        (name) => !this.contains(bits, this.repository.get(name)),
+      );
+
+      if (missing.length > 0) {
+        violations.push({ kind: "implies", flag: key, requires, missing });
+      }
+    }
+
+    for (const [group, { members, mode }] of this.groups()) {
+      const set = members.filter((name) =>
+        this.contains(bits, this.repository.get(name)),
+      );
+
+      const broken = mode === "atMostOne" ? set.length > 1 : set.length !== 1;
+
+      if (broken) {
+        violations.push({ kind: mode, group, members, set });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Resolves names declared by the registry itself — members of composites,
+   * rules and groups — without reporting them to `onDeprecated`, which is
+   * only for names supplied by callers.
+   *
+   * @throws {@link UnknownFlagError} if a name is not registered.
+   */
+  private declaredMask(names: readonly string[]): TBit {
+    return computeMask(
+      this.combinator,
+      names.map((name) => this.repository.get(name)),
+    );
   }
 
   /**
@@ -73,6 +657,65 @@ export abstract class AbstractFlagRegistry<
    */
   abstract readonly repository: Repository<TFlags, TBit>;
 
+  /**
+   * Creates a new registry that contains every flag of this one, at the same
+   * bit positions, plus the given names placed in the lowest free positions.
+   *
+   * @param flags - Names of the flags to add.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link DuplicateFlagsError} if a name repeats or is already registered.
+   */
+  abstract extend<
+    TNew extends string,
+    TNewBrand extends string | symbol = symbol,
+  >(...flags: TNew[]): FlagRegistry<TFlags | TNew, TBit, TNewBrand>;
+
+  /**
+   * Creates a new registry that contains every flag of this one, at the same
+   * bit positions, plus the given explicitly placed flags.
+   *
+   * @param flags - A plain object mapping new flag names to their bit values.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link DuplicateFlagsError} if a name is already registered.
+   * @throws {@link DuplicateError} if a value is already used by another flag.
+   */
+  abstract extend<
+    TNew extends string,
+    TNewBrand extends string | symbol = symbol,
+  >(
+    flags: Record<TNew, FlagValue<TBit>>,
+  ): FlagRegistry<TFlags | TNew, TBit, TNewBrand>;
+
+  /**
+   * Creates a `BigIntFlagRegistry` with the same flag names at the same bit
+   * positions, and the same reserved and retired positions.
+   *
+   * @returns A registry of `bigint` bits with the same layout.
+   */
+  abstract toBigInt(): FlagRegistry<TFlags, bigint, TBrand>;
+
+  /**
+   * Creates a `NumberFlagRegistry` with the same flag names at the same bit
+   * positions, and the same reserved and retired positions.
+   *
+   * @returns A registry of `number` bits with the same layout.
+   * @throws {@link OverflowError} if a flag, a reserved position or a retired
+   *   position does not fit in a `number`.
+   */
+  abstract toNumber(): FlagRegistry<TFlags, number, TBrand>;
+
+  /**
+   * Creates a registry of the same kind with the same single-bit flags and
+   * this registry as its parent.
+   *
+   * @internal
+   *
+   * @param config - The settings that differ from this registry's.
+   */
+  protected abstract derive(
+    config: Partial<RegistryConfig<TBit>>,
+  ): FlagRegistry<string, TBit, string | symbol>;
+
   /**
    * Converts a raw value or string representation into the registry's native bit type `TBit`.
    *
@@ -91,35 +734,213 @@ export abstract class AbstractFlagRegistry<
    * `"0x"` for hexadecimal, or a plain decimal string.
    *
    * @param value - The bit value or string representation to parse.
+   * @param options - See {@link ParseOptions}.
    * @returns A {@link Flag} whose {@link Flag.bits} equal the parsed value.
    * @throws {@link ParseError} if `value` cannot be converted to `TBit`.
    * @throws {@link UnknownBitsError} if the parsed value contains bits not
-   *   present in any registered flag.
+   *   present in any registered flag and `options.unknownBits` is `"throw"`.
+   *   Retired bits are dropped instead when `options.ignoreRetired` is
+   *   `true`, which defaults to the registry's `ignoreRetired` setting.
+   * @throws {@link ConstraintViolationError} if the registry is strict and the
+   *   value breaks one of its rules.
    *
    * @example
    * ```ts
    * registry.parse(3);      // Flag with bits 3
    * registry.parse("0b11"); // Flag with bits 3
    * registry.parse("0x3");  // Flag with bits 3
+   * registry.parse(19, { unknownBits: "strip" }); // Flag with bits 3
    * ```
    */
-  parse(value: TBit | string): Flag<TFlags, TBit, TBrand>;
+  parse(
+    value: TBit | string,
+    options?: ParseOptions,
+  ): Flag<TFlags, TBit, TBrand>;
   /**
    * @deprecated Do not pass radix parameter. Use prefixes (`0b`, `0o` or `0x`) or `parseInt` explicitly instead
    */
   parse(value: TBit | string, radix: unknown): Flag<TFlags, TBit, TBrand>;
-  parse(value: TBit | string, radix?: unknown): Flag<TFlags, TBit, TBrand> {
-    if (radix !== undefined) {
+  parse(value: TBit | string, options?: unknown): Flag<TFlags, TBit, TBrand> {
+    if (
+      options !== undefined &&
+      (typeof options !== "object" || options === null)
+    ) {
       throw new Error(
         "DEPRECATED: Do not pass radix parameter. Use prefixes (`0b`, `0o` or `0x`) or `parseInt` explicitly instead",
       );
     }
 
-    const bits = this.coerce(value);
+    const {
+      unknownBits = "throw",
+      ignoreRetired = this.config.ignoreRetired,
+    } = (options ?? {}) as ParseOptions;
+
+    let bits = this.coerce(value);
 
-    this.validateBits(bits);
+    if (ignoreRetired) {
+      bits = this.combinator.andNot(bits, this.retiredBits);
+    }
+
+    return new FlagBox(this.validateBits(bits, unknownBits), this);
+  }
 
-    return new FlagBox(bits, this);
+  /**
+   * Parses a string of flag names — the format of {@link Flag.alias} and
+   * `Flag.toString()` — into a {@link Flag}.
+   *
+   * Names may be separated by `+`, `|`, `,` or whitespace. Composite names
+   * are expanded, `EMPTY_FLAG` stands for no flags, and the whole
+   * `Flag([READ+WRITE]: 3)` form is accepted with its bit value ignored.
+   *
+   * @param input - The names to parse.
+   * @param options - See {@link ParseNamesOptions}.
+   * @returns A {@link Flag} with every named flag set.
+   * @throws {@link ParseError} if `input` contains no names.
+   * @throws {@link UnknownFlagError} if a name is not registered; its
+   *   `position` is the index of the name in `input`.
+   * @throws {@link ConstraintViolationError} if the registry is strict and the
+   *   result breaks one of its rules.
+   *
+   * @example
+   * ```ts
+   * registry.parseNames("READ+WRITE");             // READ + WRITE
+   * registry.parseNames("READ | WRITE, EXECUTE");  // READ + WRITE + EXECUTE
+   * registry.parseNames("Flag([READ+WRITE]: 3)");  // READ + WRITE
+   * registry.parseNames("EMPTY_FLAG").isEmpty();   // true
+   * registry.parseNames("read", { caseInsensitive: true }); // READ
+   * ```
+   */
+  parseNames(
+    input: string,
+    options?: ParseNamesOptions,
+  ): Flag<TFlags, TBit, TBrand> {
+    return this.of(...resolveNames(this, input, options));
+  }
+
+  /**
+   * Decodes bytes written by `toBytes()` into a {@link Flag}.
+   *
+   * The bytes are read as one unsigned integer of any length and then go
+   * through the same validation as {@link parse}.
+   *
+   * @param bytes - The encoded value.
+   * @param options - Byte order and unknown-bits policy; see
+   *   {@link FromBytesOptions}.
+   * @returns A {@link Flag} whose {@link Flag.bits} equal the decoded value.
+   * @throws {@link UnknownBitsError} if the value contains bits not present in
+   *   any registered flag and `options.unknownBits` is `"throw"`.
+   * @throws {@link ConstraintViolationError} if the registry is strict and the
+   *   value breaks one of its rules.
+   *
+   * @example
+   * ```ts
+   * registry.fromBytes(new Uint8Array([0x00, 0x03])); // Flag with bits 3
+   * registry.fromBytes(new Uint8Array([0x03, 0x00]), { endian: "little" }); // Flag with bits 3
+   * ```
+   */
+  fromBytes(
+    bytes: Uint8Array,
+    options?: FromBytesOptions,
+  ): Flag<TFlags, TBit, TBrand> {
+    const { endian = "big", ...parseOptions } = options ?? {};
+
+    const ordered = endian === "big" ? bytes : bytes.toReversed();
+
+    return this.parse(AbstractFlagRegistry.hexOf(ordered), parseOptions);
+  }
+
+  /**
+   * Decodes text written by `encode()` with the same codec into a
+   * {@link Flag}.
+   *
+   * The decoded bytes go through the same validation as {@link fromBytes}.
+   * Only the text `encode()` writes is accepted: text with leading zero bytes
+   * beyond the width of `toBytes()`, or with too few bytes, is rejected, so
+   * every flag has exactly one encoding.
+   *
+   * @param text - The encoded value.
+   * @param codec - The text encoding, e.g. `base64url`, `base32` or `base36`.
+   * @param options - See {@link ParseOptions}.
+   * @returns A {@link Flag} whose {@link Flag.bits} equal the decoded value.
+   * @throws {@link ParseError} if `text` is not valid for `codec`, or is not
+   *   the text `encode()` writes for its value.
+   * @throws {@link UnknownBitsError} if the value contains bits not present in
+   *   any registered flag and `options.unknownBits` is `"throw"`.
+   * @throws {@link ConstraintViolationError} if the registry is strict and the
+   *   value breaks one of its rules.
+   *
+   * @example
+   * ```ts
+   * registry.decode("Aw", base64url); // Flag with bits 3
+   * registry.decode("AAAD", base64url); // throws ParseError — leading zeros
+   * registry.decode("3", base36);     // Flag with bits 3
+   * ```
+   */
+  decode(
+    text: string,
+    codec: FlagCodec,
+    options?: ParseOptions,
+  ): Flag<TFlags, TBit, TBrand> {
+    const bytes = codec.decode(text);
+
+    // Compared with what encode() writes for the same bits, before any
+    // unknown-bits policy, so every flag has exactly one accepted text.
+    const bits = this.coerce(AbstractFlagRegistry.hexOf(bytes));
+
+    if (codec.encode(toBytes(new FlagBox(bits, this))) !== text) {
+      throw new ParseError(text);
+    }
+
+    return this.fromBytes(bytes, options);
+  }
+
+  /**
+   * Reads a flag back from its JSON form: an envelope written by
+   * `toEnvelope()`, or the bare bit string written by `flag.toJSON()`.
+   *
+   * A bit string and an envelope with this registry's {@link fingerprint}
+   * are read with {@link parse}. An envelope written by another layout
+   * throws, or is rebuilt from its names when `options.onMismatch` is
+   * `"rebuild"`.
+   *
+   * @param json - A {@link FlagEnvelope} or a bit string.
+   * @param options - See {@link FromJSONOptions}.
+   * @returns The decoded {@link Flag}.
+   * @throws {@link ParseError} if `json` is neither an envelope nor a valid
+   *   bit string.
+   * @throws {@link SchemaMismatchError} if the envelope's fingerprint differs
+   *   and `options.onMismatch` is `"throw"`.
+   * @throws {@link UnknownFlagError} if the flag is rebuilt from names and one
+   *   of them is not registered.
+   * @throws {@link UnknownBitsError} if the bits contain bits not present in
+   *   any registered flag and `options.unknownBits` is `"throw"`.
+   *
+   * @example
+   * ```ts
+   * registry.fromJSON(toEnvelope(registry.of("READ"))); // Flag([READ]: 1)
+   * registry.fromJSON("5");                              // Flag([READ+EXECUTE]: 5)
+   * registry.fromJSON(oldEnvelope, { onMismatch: "rebuild" });
+   * ```
+   */
+  fromJSON(
+    json: FlagEnvelope | string,
+    options?: FromJSONOptions,
+  ): Flag<TFlags, TBit, TBrand> {
+    const { onMismatch = "throw", ...parseOptions } = options ?? {};
+
+    if (typeof json === "string") return this.parse(json, parseOptions);
+
+    if (!isFlagEnvelope(json)) throw new ParseError(json);
+
+    if (json.schema === this.fingerprint) {
+      return this.parse(json.bits, parseOptions);
+    }
+
+    if (onMismatch === "throw") {
+      throw new SchemaMismatchError(this.fingerprint, json.schema);
+    }
+
+    return this.of(...(json.names as TFlags[]));
   }
 
   /**
@@ -129,6 +950,8 @@ export abstract class AbstractFlagRegistry<
    * @param flags - The names of flags to combine.
    * @returns A {@link Flag} whose {@link Flag.bits} is the OR of all given flags.
    * @throws {@link UnknownFlagError} if any name is not registered.
+   * @throws {@link ConstraintViolationError} if the registry is strict and the
+   *   result breaks one of its rules.
    *
    * @example
    * ```ts
@@ -139,7 +962,33 @@ export abstract class AbstractFlagRegistry<
   of(...flags: TFlags[]): Flag<TFlags, TBit, TBrand> {
     const bits = resolveMask(this, flags);
 
-    return new FlagBox(bits, this);
+    return assertConstraints(new FlagBox(bits, this));
+  }
+
+  /**
+   * Returns a {@link FlagBuilder} that collects bits in place and creates a
+   * single flag when `build()` is called, instead of one flag per step.
+   *
+   * @param initial - A flag of this registry or of one of its ancestors to
+   *   start from. Defaults to no flags.
+   * @returns A new {@link FlagBuilder}.
+   * @throws {@link UnrelatedRegistryError} if `initial` belongs to an unrelated
+   *   registry.
+   *
+   * @example
+   * ```ts
+   * const builder = registry.builder();
+   * for (const row of rows) builder.setIf(row.canWrite, "WRITE");
+   * builder.build(); // Flag([WRITE]: 2) if any row can write
+   * ```
+   */
+  builder(
+    initial?: Flag<string, TBit, string | symbol>,
+  ): FlagBuilder<TFlags, TBit, TBrand> {
+    const bits =
+      initial === undefined ? this.combinator.zero : this.lift(initial).bits;
+
+    return new FlagBuilder(this, bits);
   }
 
   /**
@@ -245,6 +1094,458 @@ export abstract class AbstractFlagRegistry<
     return this.repository.entries();
   }
 
+  /**
+   * Creates a new registry with the same flags plus named composites — names
+   * bound to the combination of several registered flags.
+   *
+   * Composite names work wherever a flag name does (`of()`, `has()`, `add`,
+   * `remove`, `hasAll`, ...); `has()` returns `true` only when all of the
+   * composite's bits are set. Composites do not own bits: they are not part of
+   * {@link fullBits}, `keys()`, `values()` or `entries()`.
+   *
+   * @param composites - A plain object mapping composite names to the flag
+   *   names they combine.
+   * @param options - See {@link ComposeOptions}.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link DuplicateFlagsError} if a composite name is already registered.
+   * @throws {@link UnknownFlagError} if a member is not registered.
+   * @throws {@link NotPositiveError} if a composite has no members.
+   *
+   * @example
+   * ```ts
+   * const registry = NumberFlagRegistry.from("READ", "WRITE", "DELETE").compose({
+   *   ADMIN: ["READ", "WRITE", "DELETE"],
+   * });
+   *
+   * registry.of("ADMIN").bits;         // 7
+   * registry.of("READ").has("ADMIN");  // false
+   * ```
+   */
+  compose<
+    TComposite extends string,
+    TNewBrand extends string | symbol = symbol,
+  >(
+    composites: Record<TComposite, readonly TFlags[]>,
+    options: ComposeOptions = {},
+  ): FlagRegistry<TFlags | TComposite, TBit, TNewBrand> {
+    const entries = Object.entries(composites) as [TComposite, TFlags[]][];
+
+    this.assertNewNames(entries.map(([key]) => key));
+
+    const map = new Map<string, TBit>(this.repository.composites());
+
+    for (const [key, members] of entries) {
+      const mask = this.declaredMask(members);
+
+      if (this.combinator.equals(mask, this.combinator.zero)) {
+        throw new NotPositiveError(key, mask);
+      }
+
+      map.set(key, mask);
+    }
+
+    const collapseComposites = options.collapse ?? this.collapseComposites;
+
+    return this.derive({ composites: map, collapseComposites }) as FlagRegistry<
+      TFlags | TComposite,
+      TBit,
+      TNewBrand
+    >;
+  }
+
+  /**
+   * Creates a registry with the same flags plus multi-bit fields — small
+   * unsigned integers stored in bits no flag uses — and returns it wrapped in
+   * a {@link PackedFlagRegistry} that reads and writes the fields.
+   *
+   * `parse()` of the new registry accepts bits of the fields as well as bits
+   * of the flags.
+   *
+   * @param fields - A plain object mapping field names to their position.
+   * @returns A {@link PackedFlagRegistry} whose `registry` extends this one.
+   * @throws {@link DuplicateFlagsError} if a field name is already registered.
+   * @throws {@link InvalidFlagError} if a field definition is malformed.
+   * @throws {@link OverlappingFieldError} if a field overlaps a flag or another field.
+   *
+   * @example
+   * ```ts
+   * const packed = NumberFlagRegistry.from("ENCRYPTED", "COMPRESSED").pack({
+   *   priority: { offset: 2, width: 3 },
+   *   level:    { offset: 5, width: 2 },
+   * });
+   *
+   * const flag = packed.set(packed.registry.of("ENCRYPTED"), "priority", 5);
+   * packed.get(flag, "priority"); // 5
+   * ```
+   */
+  pack<TFields extends string, TNewBrand extends string | symbol = symbol>(
+    fields: Record<TFields, FieldDefinition>,
+  ): PackedFlagRegistry<TFlags, TFields, TBit, TNewBrand> {
+    const entries = Object.entries(fields) as [TFields, FieldDefinition][];
+
+    this.assertNewNames(entries.map(([key]) => key));
+
+    const map = new Map<string, FieldDefinition>([
+      ...this.config.fields,
+      ...entries,
+    ]);
+
+    const registry = this.derive({ fields: map }) as FlagRegistry<
+      TFlags,
+      TBit,
+      TNewBrand
+    >;
+
+    return new PackedFlagRegistry(registry, new Map(entries));
+  }
+
+  /**
+   * Creates a new registry with the same flags plus implication rules: when
+   * a flag is set, every flag it implies must be set too.
+   *
+   * Rules are checked by {@link validate} and applied by the `closure`
+   * operator; with `strict: true` the registry rejects flags that break them.
+   * Rules for a name that already has rules are merged.
+   *
+   * @param rules - A plain object mapping flag (or composite) names to the
+   *   names they imply.
+   * @param options - See {@link ConstraintOptions}.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link UnknownFlagError} if a name is not registered.
+   *
+   * @example
+   * ```ts
+   * const registry = NumberFlagRegistry.from("READ", "WRITE", "ADMIN").imply({
+   *   WRITE: ["READ"],
+   *   ADMIN: ["READ", "WRITE"],
+   * });
+   *
+   * registry.validate(registry.of("WRITE")); // [{ flag: "WRITE", missing: ["READ"], ... }]
+   * ```
+   */
+  imply<TNewBrand extends string | symbol = symbol>(
+    rules: Partial<Record<TFlags, readonly TFlags[]>>,
+    options: ConstraintOptions = {},
+  ): FlagRegistry<TFlags, TBit, TNewBrand> {
+    const entries = Object.entries(rules) as [TFlags, TFlags[]][];
+
+    const map = new Map(this.config.implications);
+
+    for (const [key, implied] of entries) {
+      this.declaredMask([key, ...implied]);
+
+      const merged = new Set([...(map.get(key) ?? []), ...implied]);
+
+      map.set(key, [...merged]);
+    }
+
+    return this.derive({
+      implications: map,
+      strict: options.strict ?? this.strict,
+    }) as FlagRegistry<TFlags, TBit, TNewBrand>;
+  }
+
+  /**
+   * Returns every implication rule as a `[name, implied]` pair in
+   * declaration order.
+   *
+   * @example
+   * ```ts
+   * registry.implications(); // [["WRITE", ["READ"]], ["ADMIN", ["READ", "WRITE"]]]
+   * ```
+   */
+  implications(): [TFlags, TFlags[]][] {
+    return [...this.config.implications].map(([key, implied]) => [
+      key as TFlags,
+      [...implied] as TFlags[],
+    ]);
+  }
+
+  /**
+   * Creates a new registry with the same flags plus exclusive groups — sets
+   * of flags of which at most one (or exactly one) may be set, like radio
+   * buttons.
+   *
+   * Groups are checked by {@link validate}; with `strict: true` the registry
+   * rejects flags that break them, including in `parse()`. With
+   * `replace: true` the `add` operator clears the other members of a group.
+   *
+   * @param groups - A plain object mapping group names to their members.
+   * @param options - See {@link ExclusiveOptions}.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link DuplicateFlagsError} if a group name is already declared.
+   * @throws {@link UnknownFlagError} if a member is not registered.
+   * @throws {@link NotPositiveError} if a group has no members.
+   *
+   * @example
+   * ```ts
+   * const registry = NumberFlagRegistry.from("LIGHT", "DARK", "SYSTEM").exclusive(
+   *   { theme: ["LIGHT", "DARK", "SYSTEM"] },
+   *   { mode: "exactlyOne", replace: true },
+   * );
+   *
+   * add(registry.of("LIGHT"), "DARK").toArray(); // ["DARK"]
+   * ```
+   */
+  exclusive<TNewBrand extends string | symbol = symbol>(
+    groups: Record<string, readonly TFlags[]>,
+    options: ExclusiveOptions = {},
+  ): FlagRegistry<TFlags, TBit, TNewBrand> {
+    const { mode = "atMostOne", replace = false } = options;
+
+    const entries = Object.entries(groups);
+    const map = new Map(this.config.groups);
+
+    const names = [...map.keys(), ...entries.map(([key]) => key)];
+
+    if (AbstractFlagRegistry.hasDuplicates(names)) {
+      throw new DuplicateFlagsError(AbstractFlagRegistry.findDuplicates(names));
+    }
+
+    for (const [key, members] of entries) {
+      const mask = this.declaredMask(members);
+
+      if (this.combinator.equals(mask, this.combinator.zero)) {
+        throw new NotPositiveError(key, mask);
+      }
+
+      map.set(key, { members: [...members], mode, replace });
+    }
+
+    return this.derive({
+      groups: map,
+      strict: options.strict ?? this.strict,
+    }) as FlagRegistry<TFlags, TBit, TNewBrand>;
+  }
+
+  /**
+   * Returns every exclusive group as a `[name, group]` pair in declaration order.
+   *
+   * @example
+   * ```ts
+   * registry.groups();
+   * // [["theme", { members: ["LIGHT", "DARK"], mode: "atMostOne", replace: false }]]
+   * ```
+   */
+  groups(): [string, ExclusiveGroup<TFlags>][] {
+    return [...this.config.groups].map(([key, group]) => [
+      key,
+      group as ExclusiveGroup<TFlags>,
+    ]);
+  }
+
+  /**
+   * Returns the rules `flag` breaks: for every set name that implies others,
+   * the implied names that are not set, then every exclusive group with too
+   * many (or no required) members set.
+   *
+   * @param flag - The flag to check.
+   * @returns The violated rules in declaration order; empty when `flag` is valid.
+   *
+   * @example
+   * ```ts
+   * registry.validate(registry.of("WRITE"));
+   * // [{ kind: "implies", flag: "WRITE", requires: ["READ"], missing: ["READ"] }]
+   * ```
+   */
+  validate(flag: Flag<TFlags, TBit, TBrand>): ConstraintViolation<TFlags>[] {
+    return this.findViolations(flag.bits);
+  }
+
+  /**
+   * Returns `true` when every bit of `mask` is set in `bits`.
+   */
+  private contains(bits: TBit, mask: TBit): boolean {
+    return this.combinator.equals(this.combinator.and(bits, mask), mask);
+  }
+
+  /**
+   * Creates a new registry with the same flags plus metadata — a
+   * description, a category and a deprecation marker — for some of them.
+   * Metadata for a name that already has some is merged.
+   *
+   * @param metadata - A plain object mapping flag (or composite) names to
+   *   their metadata.
+   * @param options - See {@link AnnotateOptions}.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link UnknownFlagError} if a name or a `replacement` is not registered.
+   *
+   * @example
+   * ```ts
+   * const registry = NumberFlagRegistry.from("READ", "VIEW").annotate({
+   *   READ: { description: "Read access", category: "access" },
+   *   VIEW: { deprecated: true, replacement: "READ" },
+   * });
+   *
+   * registry.describe("VIEW").replacement; // "READ"
+   * ```
+   */
+  annotate<TNewBrand extends string | symbol = symbol>(
+    metadata: Partial<Record<TFlags, FlagMetadata<TFlags>>>,
+    options: AnnotateOptions = {},
+  ): FlagRegistry<TFlags, TBit, TNewBrand> {
+    const entries = Object.entries(metadata) as [
+      TFlags,
+      FlagMetadata<TFlags>,
+    ][];
+
+    const map = new Map(this.config.metadata);
+
+    for (const [key, value] of entries) {
+      for (const name of [key, value.replacement]) {
+        if (name !== undefined && !this.repository.has(name)) {
+          throw new UnknownFlagError(name);
+        }
+      }
+
+      map.set(key, { ...map.get(key), ...value });
+    }
+
+    return this.derive({
+      metadata: map,
+      onDeprecated: options.onDeprecated ?? this.onDeprecated,
+    }) as FlagRegistry<TFlags, TBit, TNewBrand>;
+  }
+
+  /**
+   * Returns the metadata of a flag or composite; an empty object when it has none.
+   *
+   * @param name - A registered flag or composite name.
+   * @throws {@link UnknownFlagError} if `name` is not registered.
+   *
+   * @example
+   * ```ts
+   * registry.describe("READ"); // { description: "Read access", category: "access" }
+   * ```
+   */
+  describe(name: TFlags): FlagMetadata<TFlags> {
+    if (!this.repository.has(name)) {
+      throw new UnknownFlagError(name);
+    }
+
+    return (this.config.metadata.get(name) ?? {}) as FlagMetadata<TFlags>;
+  }
+
+  /**
+   * Returns a `[name, metadata]` pair for every flag, in registration order,
+   * followed by every composite.
+   *
+   * @example
+   * ```ts
+   * registry.metadata();
+   * // [["READ", { description: "Read access" }], ["VIEW", { deprecated: true, ... }]]
+   * ```
+   */
+  metadata(): [TFlags, FlagMetadata<TFlags>][] {
+    const composites = this.repository.composites().map(([key]) => key);
+
+    return [...this.keys(), ...composites].map((key) => [
+      key,
+      this.describe(key),
+    ]);
+  }
+
+  /**
+   * Returns the reserved bit positions in ascending order.
+   * See {@link RegistryOptions.reserved}.
+   *
+   * @example
+   * ```ts
+   * NumberFlagRegistry.from({ reserved: [5, 2] }, "READ").reserved(); // [2, 5]
+   * ```
+   */
+  reserved(): number[] {
+    return [...this.config.reserved].sort((a, b) => a - b);
+  }
+
+  /**
+   * Returns the retired bit positions in ascending order.
+   * See {@link RegistryOptions.retired}.
+   *
+   * @example
+   * ```ts
+   * NumberFlagRegistry.from({ retired: [1] }, "READ").retired(); // [1]
+   * ```
+   */
+  retired(): number[] {
+    return [...this.config.retired].sort((a, b) => a - b);
+  }
+
+  /**
+   * Describes the layout of this registry — its kind, flags and reserved and
+   * retired positions — as a plain, JSON-safe object. Pass it to the static
+   * `fromSchema()` of the same registry class to rebuild an equivalent
+   * registry.
+   *
+   * @example
+   * ```ts
+   * NumberFlagRegistry.from({ reserved: [2] }, "READ", "WRITE").toSchema();
+   * // { kind: "number", flags: { READ: "1", WRITE: "2" }, reserved: [2], retired: [] }
+   * ```
+   */
+  toSchema(): RegistrySchema<TFlags> {
+    return {
+      kind: this.kind,
+      flags: Object.fromEntries(
+        this.entries().map(([key, value]) => [key, value.toString()]),
+      ) as Record<TFlags, string>,
+      reserved: this.reserved(),
+      retired: this.retired(),
+    };
+  }
+
+  /**
+   * Returns a [Standard Schema](https://standardschema.dev) v1 validator that
+   * reads a serialized flag of this registry. Registry errors become issues;
+   * an unknown name has its index or key as the `path`.
+   *
+   * @param format - The accepted {@link FlagFormat}; any of them if omitted.
+   * @param options - Passed to {@link parse} for numeric values.
+   * @returns A schema whose output is a {@link Flag} of this registry.
+   *
+   * @example
+   * ```ts
+   * registry.schema("object")["~standard"].validate({ READ: true });
+   * // { value: Flag([READ]: 1) }
+   * ```
+   */
+  schema<TFormat extends FlagFormat = FlagFormat>(
+    format?: TFormat,
+    options?: ParseOptions,
+  ): StandardSchemaV1<
+    SerializedFlag<TFlags, TFormat>,
+    Flag<TFlags, TBit, TBrand>
+  > {
+    return standardSchema(this, format, options);
+  }
+
+  /**
+   * Re-creates a {@link Flag} of a registry this one extends (directly or
+   * through a chain of `extend()` calls) as a flag of this registry.
+   * The bits are kept as they are.
+   *
+   * @param flag - A flag of this registry or of one of its ancestors.
+   * @returns A {@link Flag} of this registry with the same bits.
+   * @throws {@link UnrelatedRegistryError} if `flag` belongs to a registry
+   *   this one does not extend.
+   *
+   * @example
+   * ```ts
+   * const v2 = v1.extend("DELETE");
+   *
+   * v2.lift(v1.of("READ")).has("READ"); // true
+   * ```
+   */
+  lift(flag: Flag<string, TBit, string | symbol>): Flag<TFlags, TBit, TBrand> {
+    if (flag.registry === this) return new FlagBox(flag.bits, this);
+
+    for (let parent = this.parent; parent !== null; parent = parent.parent) {
+      if (parent === flag.registry) return new FlagBox(flag.bits, this);
+    }
+
+    throw new UnrelatedRegistryError(flag.registry.keys(), this.keys());
+  }
+
   /**
    * A bitmask with every registered flag set — the bitwise OR of all flag values.
    *
@@ -257,6 +1558,22 @@ export abstract class AbstractFlagRegistry<
   get fullBits(): TBit {
     this._fullBits ??= computeMask(this.combinator, this.repository.values());
 
-    return this._fullBits;
+    return copyBits(this._fullBits);
+  }
+
+  /**
+   * A short, stable hash of {@link entries}: which name owns which bit.
+   * Stored by `toEnvelope()` so that `fromJSON()` can tell when a value was
+   * written by a different layout.
+   *
+   * @example
+   * ```ts
+   * registry.fingerprint; // "27a593b1910524e7"
+   * ```
+   */
+  get fingerprint(): string {
+    this._fingerprint ??= fingerprint(this.entries());
+
+    return this._fingerprint;
   }
 }
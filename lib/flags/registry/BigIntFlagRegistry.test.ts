@@ -2,11 +2,16 @@ import { describe, expect, spyOn, test } from "bun:test";
 
 import {
   DuplicateError,
+  DuplicateFlagsError,
+  InvalidSchemaError,
   NotPositiveError,
   NotPowerOfTwoError,
+  OverflowError,
   ParseError,
+  ReservedBitError,
   UnknownBitsError,
   UnknownFlagError,
+  UnrelatedRegistryError,
 } from "../errors";
 
 import { BigIntFlagRegistry } from "./BigIntFlagRegistry";
@@ -391,3 +396,179 @@ describe("BigIntFlagRegistry#fullBits", () => {
     expect(r.fullBits).toBe(1n | hi);
   });
 });
+
+describe("BigIntFlagRegistry#extend()", () => {
+  test("keeps existing bits and appends new names to free positions", () => {
+    // input: read..admin (1n..8n) + "audit" -> 16n
+    const v2 = registry.extend("audit");
+    expect(v2.values()).toEqual([1n, 2n, 4n, 8n, 16n]);
+  });
+
+  test("fills gaps left by define()", () => {
+    // input: { a: 1n, c: 4n } + "b" -> b = 2n
+    const v2 = BigIntFlagRegistry.define({ a: 1n, c: 4n }).extend("b");
+    expect(v2.get("b")).toBe(2n);
+  });
+
+  test("grows past 64 bits without limit", () => {
+    // input: 64-flag registry + "extra" -> extra = 1n << 64n
+    const names = Array.from({ length: 64 }, (_, i) => `f${i}`);
+    const v2 = BigIntFlagRegistry.from(...names).extend("extra");
+    expect(v2.get("extra")).toBe(1n << 64n);
+  });
+
+  test("accepts explicit values", () => {
+    // input: { audit: 1n << 40n }
+    const v2 = registry.extend({ audit: 1n << 40n });
+    expect(v2.get("audit")).toBe(1n << 40n);
+  });
+
+  test("throws DuplicateFlagsError for repeated names", () => {
+    // input: extend("audit", "audit")
+    expect(() => registry.extend("audit", "audit")).toThrow(DuplicateFlagsError);
+  });
+
+  test("throws DuplicateError for an explicit value that is already used", () => {
+    // input: { audit: 1n } -> 1n belongs to "read"
+    expect(() => registry.extend({ audit: 1n })).toThrow(DuplicateError);
+  });
+});
+
+describe("BigIntFlagRegistry#lift()", () => {
+  test("re-creates a parent flag in the child registry", () => {
+    // input: v1 read+write -> v2 flag with bits 3n
+    const v2 = registry.extend("audit");
+    const lifted = v2.lift(registry.of("read", "write"));
+    expect(lifted.registry).toBe(v2);
+    expect(lifted.bits).toBe(3n);
+  });
+
+  test("throws UnrelatedRegistryError for an unrelated flag", () => {
+    // input: flag of a separate registry with the same keys
+    const other = BigIntFlagRegistry.from<Perms>("read", "write", "execute", "admin");
+    expect(() => registry.extend("audit").lift(other.of("read"))).toThrow(
+      UnrelatedRegistryError,
+    );
+  });
+});
+
+describe("BigIntFlagRegistry#compose()", () => {
+  test("composite names resolve to the combined mask", () => {
+    // input: editor = read | write -> 3n
+    const composed = registry.compose({ editor: ["read", "write"] });
+    expect(composed.get("editor")).toBe(3n);
+    expect(composed.of("editor").has("editor")).toBe(true);
+    expect(composed.fullBits).toBe(15n);
+  });
+});
+
+describe("BigIntFlagRegistry reserved and retired bits", () => {
+  test("from() skips reserved and retired positions beyond 64 bits", () => {
+    // input: retired 0..63 -> a = bit 64
+    const retired = Array.from({ length: 64 }, (_, i) => i);
+    const wide = BigIntFlagRegistry.from({ retired }, "a");
+    expect(wide.get("a")).toBe(1n << 64n);
+  });
+
+  test("define() rejects a flag placed on a reserved bit", () => {
+    expect(() =>
+      BigIntFlagRegistry.define({ a: 1n << 70n }, { reserved: [70] }),
+    ).toThrow(ReservedBitError);
+  });
+
+  test("parse() drops retired bits with ignoreRetired", () => {
+    // input: a + bit 1 -> a
+    const lenient = BigIntFlagRegistry.from(
+      { retired: [1], ignoreRetired: true },
+      "a",
+    );
+    expect(lenient.parse("3").bits).toBe(1n);
+    expect(() => lenient.parse(4n)).toThrow(UnknownBitsError);
+  });
+});
+
+describe("BigIntFlagRegistry#toSchema() and fromSchema()", () => {
+  test("round-trips bits beyond 2^53 through JSON", () => {
+    // input: read=1n, archive=1n << 70n
+    const layout = BigIntFlagRegistry.define({ read: 1n, archive: 1n << 70n });
+    const schema = layout.toSchema();
+    expect(schema.flags.archive).toBe((1n << 70n).toString());
+
+    const copy = BigIntFlagRegistry.fromSchema(
+      JSON.parse(JSON.stringify(schema)) as typeof schema,
+    );
+    expect(copy.get("archive")).toBe(1n << 70n);
+    expect(copy.fingerprint).toBe(layout.fingerprint);
+  });
+
+  test("fromSchema() fails like define() for bad values", () => {
+    // input: duplicate bit, non power of two
+    const schema = (flags: Record<string, string>) => ({
+      kind: "bigint" as const,
+      flags,
+      reserved: [],
+      retired: [],
+    });
+    expect(() =>
+      BigIntFlagRegistry.fromSchema(schema({ a: "4", b: "4" })),
+    ).toThrow(DuplicateError);
+    expect(() => BigIntFlagRegistry.fromSchema(schema({ a: "6" }))).toThrow(
+      NotPowerOfTwoError,
+    );
+  });
+
+  test("fromSchema() rejects a schema of another kind", () => {
+    // input: number schema
+    const schema = registry.toSchema();
+    expect(() =>
+      BigIntFlagRegistry.fromSchema({ ...schema, kind: "number" }),
+    ).toThrow(InvalidSchemaError);
+  });
+});
+
+describe("BigIntFlagRegistry#toNumber() and toBigInt()", () => {
+  test("toNumber() keeps names and positions", () => {
+    // input: read=1n ... admin=8n -> 1 ... 8
+    const small = registry.toNumber();
+    expect(small.entries()).toEqual([
+      ["read", 1],
+      ["write", 2],
+      ["execute", 4],
+      ["admin", 8],
+    ]);
+    expect(small.fingerprint).toBe(registry.fingerprint);
+  });
+
+  test("toNumber() throws OverflowError for flags above 2^30", () => {
+    // input: archive = 1n << 40n
+    const wide = BigIntFlagRegistry.define({ read: 1n, archive: 1n << 40n });
+    expect(() => wide.toNumber()).toThrow(OverflowError);
+  });
+
+  test("toNumber() throws OverflowError naming a reserved position above bit 30", () => {
+    // input: 9 flags on bits 0-8, bit 40 reserved — 1 << 40 would wrap to bit 8
+    const names = ["a", "b", "c", "d", "e", "f", "g", "h", "i"];
+    const reserved = BigIntFlagRegistry.from({ reserved: [40] }, ...names);
+
+    let caught: unknown;
+    try {
+      reserved.toNumber();
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toBeInstanceOf(OverflowError);
+    expect((caught as OverflowError).flag).toBe("reserved");
+    expect((caught as OverflowError).value).toBe(40);
+  });
+
+  test("toNumber() keeps reserved and retired positions up to bit 30", () => {
+    const layout = BigIntFlagRegistry.from({ reserved: [30], retired: [1] }, "a");
+    const small = layout.toNumber();
+    expect(small.reserved()).toEqual([30]);
+    expect(small.retired()).toEqual([1]);
+  });
+
+  test("toBigInt() returns the same registry", () => {
+    expect(registry.toBigInt()).toBe(registry);
+  });
+});
@@ -10,9 +10,16 @@ import {
 import { Repository } from "../repository";
 
 import { AbstractFlagRegistry } from "./AbstractFlagRegistry";
+import { NumberFlagRegistry } from "./NumberFlagRegistry";
 
 import type { Combinator } from "@/core";
-import type { FlagRegistry } from "../types";
+import type {
+  FlagRegistry,
+  RegistryOptions,
+  RegistrySchema,
+} from "../types";
+
+import type { RegistryConfig } from "./types";
 
 const BIGINT_COMBINATOR = new BigIntCombinator();
 
@@ -26,6 +33,13 @@ export class BigIntFlagRegistry<
    */
   public readonly combinator: Combinator<bigint> = BIGINT_COMBINATOR;
 
+  /**
+   * The kind recorded by {@link toSchema}.
+   *
+   * @internal
+   */
+  protected readonly kind = "bigint";
+
   /**
    * The underlying read-only store that maps flag names to their bit values.
    */
@@ -107,12 +121,36 @@ export class BigIntFlagRegistry<
     return this.coerceString(value);
   }
 
-  private constructor(flags: Map<TFlags, bigint>) {
-    super();
+  /**
+   * Creates a registry of the same kind with the same single-bit flags and
+   * this registry as its parent.
+   *
+   * @internal
+   *
+   * @param config - The settings that differ from this registry's.
+   */
+  protected derive(
+    config: Partial<RegistryConfig<bigint>>,
+  ): FlagRegistry<string, bigint, string | symbol> {
+    return new BigIntFlagRegistry(new Map<string, bigint>(this.entries()), this, config);
+  }
+
+  private constructor(
+    flags: Map<TFlags, bigint>,
+    parent: BigIntFlagRegistry<string, string | symbol> | null = null,
+    config: Partial<RegistryConfig<bigint>> = {},
+  ) {
+    super(parent, config);
 
     this.validateFlags(flags);
 
-    this.repository = new Repository(flags);
+    this.repository = new Repository(
+      flags,
+      new Map(this.config.composites) as Map<TFlags, bigint>,
+    );
+
+    this.validateReserved();
+    this.validateFields();
   }
 
   /**
@@ -121,13 +159,22 @@ export class BigIntFlagRegistry<
    * Use this factory when you need precise control over bit values — for example,
    * when values must match an external protocol, a database column, or a legacy enum.
    *
+   * A value with several bits set, each of them the value of another flag in
+   * `flags`, declares a composite of those flags, as {@link compose} does.
+   *
    * @param flags - A plain object whose keys are flag names and values are the
    *   `bigint` bit values to assign to each flag.
+   * @param options - Reserved and retired bit positions and composites; see
+   *   {@link RegistryOptions}.
    * @returns A new {@link FlagRegistry} typed to the given flag names and branded
    *   with `TBrand`.
    * @throws {@link NotPositiveError} if any value is `≤ 0n`.
    * @throws {@link DuplicateError} if two flags share the same bit value.
-   * @throws {@link NotPowerOfTwoError} if any value is not a power of two.
+   * @throws {@link NotPowerOfTwoError} if any value is not a power of two nor a
+   *   combination of other values.
+   * @throws {@link DuplicateFlagsError} if a composite name is used twice.
+   * @throws {@link UnknownFlagError} if a composite member is not in `flags`.
+   * @throws {@link ReservedBitError} if a flag is placed on a reserved or retired bit.
    *
    * @example
    * ```ts
@@ -140,12 +187,56 @@ export class BigIntFlagRegistry<
    * registry.of("READ", "WRITE").bits; // 3n
    * ```
    */
-  static define<TFlags extends string, TBrand extends string | symbol = symbol>(
+  static define<
+    TFlags extends string,
+    TBrand extends string | symbol = symbol,
+    TComposite extends string = never,
+  >(
     flags: Record<TFlags, bigint>,
-  ): FlagRegistry<TFlags, bigint, TBrand> {
-    const entries = Object.entries(flags) as [TFlags, bigint][];
+    options: RegistryOptions<NoInfer<TFlags>, TComposite> = {},
+  ): FlagRegistry<TFlags | TComposite, bigint, TBrand> {
+    const [map, composites] = this.splitComposites(flags);
+
+    return this.withComposites(
+      new this(map, null, this.configFrom(options)),
+      options,
+      composites,
+    ) as FlagRegistry<TFlags | TComposite, bigint, TBrand>;
+  }
+
+  /**
+   * Rebuilds a `BigIntFlagRegistry` from a schema written by `toSchema()`.
+   *
+   * The flags go through the same validation as {@link define}, so a bad
+   * schema fails the same way a bad `define()` call does.
+   *
+   * @param schema - A schema of kind `"bigint"`; see {@link RegistrySchema}.
+   * @returns A new {@link FlagRegistry} with the same flags and reserved and
+   *   retired positions.
+   * @throws {@link InvalidSchemaError} if `schema` is malformed or of another kind.
+   * @throws {@link NotPositiveError} if any value is `0`.
+   * @throws {@link DuplicateError} if two flags share the same bit value.
+   * @throws {@link NotPowerOfTwoError} if any value is not a power of two.
+   * @throws {@link ReservedBitError} if a flag is placed on a reserved or retired bit.
+   *
+   * @example
+   * ```ts
+   * const schema = BigIntFlagRegistry.from("READ", "WRITE").toSchema();
+   * const copy = BigIntFlagRegistry.fromSchema(JSON.parse(JSON.stringify(schema)));
+   *
+   * copy.of("READ", "WRITE").bits; // 3n
+   * ```
+   */
+  static fromSchema<
+    TFlags extends string,
+    TBrand extends string | symbol = symbol,
+  >(schema: RegistrySchema<TFlags>): FlagRegistry<TFlags, bigint, TBrand> {
+    const [flags, options] = this.readSchema(schema, "bigint");
 
-    return new this(new Map(entries));
+    return this.define(
+      Object.fromEntries(flags) as Record<TFlags, bigint>,
+      options,
+    );
   }
 
   /**
@@ -171,15 +262,156 @@ export class BigIntFlagRegistry<
    */
   static from<TFlags extends string, TBrand extends string | symbol = symbol>(
     ...flags: TFlags[]
-  ): FlagRegistry<TFlags, bigint, TBrand> {
+  ): FlagRegistry<TFlags, bigint, TBrand>;
+  /**
+   * Creates a `BigIntFlagRegistry` from a list of flag names, auto-assigning
+   * the lowest bit positions that are neither reserved nor retired.
+   *
+   * @param options - Reserved and retired bit positions and composites; see
+   *   {@link RegistryOptions}.
+   * @param flags - Flag names in registration order. Each name must be unique.
+   * @returns A new {@link FlagRegistry} typed to the given flag names and branded
+   *   with `TBrand`.
+   * @throws {@link DuplicateFlagsError} if any name, flag or composite,
+   *   appears more than once.
+   * @throws {@link UnknownFlagError} if a composite member is not in `flags`.
+   *
+   * @example
+   * ```ts
+   * const registry = BigIntFlagRegistry.from({ retired: [1] }, "READ", "WRITE");
+   * // READ = bit 0, WRITE = bit 2
+   * ```
+   */
+  static from<
+    TFlags extends string,
+    TBrand extends string | symbol = symbol,
+    TComposite extends string = never,
+  >(
+    options: RegistryOptions<NoInfer<TFlags>, TComposite>,
+    ...flags: TFlags[]
+  ): FlagRegistry<TFlags | TComposite, bigint, TBrand>;
+  static from(
+    ...args: string[] | [RegistryOptions, ...string[]]
+  ): FlagRegistry<string, bigint, string | symbol> {
+    const [first] = args;
+
+    const options = typeof first === "object" ? first : {};
+    const flags = (typeof first === "object" ? args.slice(1) : args) as string[];
+
     if (this.hasDuplicates(flags)) {
       throw new DuplicateFlagsError(this.findDuplicates(flags));
     }
 
-    const map = flags.reduce((acc, current, i) => {
-      return acc.set(current, 2n ** BigInt(i));
-    }, new Map<TFlags, bigint>());
+    const map = new Map(
+      this.assignPositions(flags, options).map(([flag, position]) => [
+        flag,
+        1n << BigInt(position),
+      ]),
+    );
 
-    return new this(map);
+    return this.withComposites(
+      new this(map, null, this.configFrom(options)),
+      options,
+    );
+  }
+
+  /**
+   * Creates a new registry that contains every flag of this one, at the same
+   * bit positions, plus the given names placed in the lowest free positions.
+   *
+   * @param flags - Names of the flags to add.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link DuplicateFlagsError} if a name repeats or is already registered.
+   *
+   * @example
+   * ```ts
+   * const v1 = BigIntFlagRegistry.define({ READ: 1n, EXECUTE: 4n });
+   * const v2 = v1.extend("WRITE", "DELETE");
+   * // READ = 1n, EXECUTE = 4n, WRITE = 2n, DELETE = 8n
+   * ```
+   */
+  extend<TNew extends string, TNewBrand extends string | symbol = symbol>(
+    ...flags: TNew[]
+  ): FlagRegistry<TFlags | TNew, bigint, TNewBrand>;
+  /**
+   * Creates a new registry that contains every flag of this one, at the same
+   * bit positions, plus the given explicitly placed flags.
+   *
+   * @param flags - A plain object mapping new flag names to their `bigint`
+   *   bit values.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link DuplicateFlagsError} if a name is already registered.
+   * @throws {@link DuplicateError} if a value is already used by another flag.
+   * @throws {@link NotPositiveError} if any value is `≤ 0n`.
+   * @throws {@link NotPowerOfTwoError} if any value is not a power of two.
+   *
+   * @example
+   * ```ts
+   * const v2 = v1.extend({ AUDIT: 1n << 40n });
+   * ```
+   */
+  extend<TNew extends string, TNewBrand extends string | symbol = symbol>(
+    flags: Record<TNew, bigint>,
+  ): FlagRegistry<TFlags | TNew, bigint, TNewBrand>;
+  extend(
+    ...args: string[] | [Record<string, bigint>]
+  ): FlagRegistry<string, bigint, string | symbol> {
+    const [first] = args;
+
+    const map = new Map<string, bigint>(this.entries());
+
+    if (typeof first === "object") {
+      const entries = Object.entries(first);
+
+      this.assertNewNames(entries.map(([key]) => key));
+
+      return new BigIntFlagRegistry(new Map([...map, ...entries]), this);
+    }
+
+    const names = args as string[];
+
+    this.assertNewNames(names);
+
+    let used = this.takenBits;
+    let bit = 1n;
+
+    for (const name of names) {
+      while (this.combinator.and(used, bit) !== 0n) bit <<= 1n;
+
+      map.set(name, bit);
+      used = this.combinator.or(used, bit);
+    }
+
+    return new BigIntFlagRegistry(map, this);
+  }
+
+  /**
+   * Returns this registry, which already uses `bigint` bits.
+   */
+  toBigInt(): FlagRegistry<TFlags, bigint, TBrand> {
+    return this;
+  }
+
+  /**
+   * Creates a `NumberFlagRegistry` with the same flag names at the same bit
+   * positions, and the same reserved and retired positions.
+   * Composites, packed fields, rules and metadata are not copied.
+   *
+   * @throws {@link OverflowError} if a flag, a reserved position or a retired
+   *   position is above bit 30, which a `NumberFlagRegistry` cannot hold.
+   *   Such positions are not dropped, so the converted registry never
+   *   silently loses part of the layout.
+   *
+   * @example
+   * ```ts
+   * const small = BigIntFlagRegistry.from("READ", "WRITE").toNumber();
+   * small.get("WRITE"); // 2
+   * ```
+   */
+  toNumber(): FlagRegistry<TFlags, number, TBrand> {
+    return NumberFlagRegistry.fromSchema({
+      ...this.toSchema(),
+      kind: "number",
+    });
   }
 }
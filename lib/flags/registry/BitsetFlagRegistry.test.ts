@@ -0,0 +1,299 @@
+import { describe, expect, test } from "bun:test";
+
+import { Bitset } from "@/core/bitset";
+import {
+  add,
+  complement,
+  equals,
+  hasAll,
+  hasAny,
+  hasNone,
+  remove,
+  toggle,
+} from "@/operators/basic";
+import {
+  difference,
+  intersection,
+  isSubsetOf,
+  isSupersetOf,
+  overlaps,
+  symmetricDifference,
+  union,
+} from "@/operators/set";
+
+import {
+  DuplicateError,
+  DuplicateFlagsError,
+  NotPositiveError,
+  NotPowerOfTwoError,
+  OverflowError,
+  ParseError,
+  UnknownBitsError,
+  UnknownFlagError,
+} from "../errors";
+
+import { BitsetFlagRegistry } from "./BitsetFlagRegistry";
+
+type Perms = "read" | "write" | "execute" | "admin";
+
+// bits: read=1, write=2, execute=4, admin=8
+const registry = BitsetFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+
+// 300 flags: f0 = bit 0 ... f299 = bit 299
+const names = Array.from({ length: 300 }, (_, i) => `f${i}`);
+const wide = BitsetFlagRegistry.from(...names);
+
+describe("BitsetFlagRegistry.define()", () => {
+  test("creates a registry from an explicit flag->bigint map", () => {
+    // input: { read: 1n, write: 2n } -> bits stored as Bitsets
+    const r = BitsetFlagRegistry.define({ read: 1n, write: 2n });
+    expect(r.of("read").bits).toBeInstanceOf(Bitset);
+    expect(r.of("read").bits.toBigInt()).toBe(1n);
+    expect(r.of("write").bits.toBigInt()).toBe(2n);
+  });
+
+  test("accepts values far beyond 64 bits", () => {
+    // input: { huge: 1n << 500n } -> stored across 16 words
+    const r = BitsetFlagRegistry.define({ huge: 1n << 500n });
+    expect(r.get("huge").toBigInt()).toBe(1n << 500n);
+  });
+
+  test("throws NotPositiveError when a flag value is 0n", () => {
+    // input: { bad: 0n }
+    expect(() => BitsetFlagRegistry.define({ bad: 0n })).toThrow(
+      NotPositiveError,
+    );
+  });
+
+  test("throws DuplicateError when two flags share a bit", () => {
+    // input: { a: 4n, b: 4n }
+    expect(() => BitsetFlagRegistry.define({ a: 4n, b: 4n })).toThrow(
+      DuplicateError,
+    );
+  });
+
+  test("throws NotPowerOfTwoError for a multi-bit value", () => {
+    // input: { bad: 3n }
+    expect(() => BitsetFlagRegistry.define({ bad: 3n })).toThrow(
+      NotPowerOfTwoError,
+    );
+  });
+
+  test("declares a composite for a value made of other flags' bits", () => {
+    // input: { read: 1n, archive: 1n << 300n, both: read | archive }
+    const r = BitsetFlagRegistry.define({
+      read: 1n,
+      archive: 1n << 300n,
+      both: (1n << 300n) | 1n,
+    });
+    expect(r.keys()).toEqual(["read", "archive"]);
+    expect(r.of("both").toArray()).toEqual(["read", "archive"]);
+  });
+});
+
+describe("BitsetFlagRegistry.from()", () => {
+  test("assigns consecutive bit positions", () => {
+    // input: read, write, execute, admin -> 1, 2, 4, 8
+    expect(registry.values().map((v) => v.toBigInt())).toEqual([
+      1n,
+      2n,
+      4n,
+      8n,
+    ]);
+  });
+
+  test("supports hundreds of flags", () => {
+    // input: 300 names -> f299 = bit 299, fullBits has 300 set bits
+    expect(wide.get("f299").toBigInt()).toBe(1n << 299n);
+    expect(wide.combinator.popcount(wide.fullBits)).toBe(300);
+  });
+
+  test("throws DuplicateFlagsError for repeated names", () => {
+    // input: "a", "b", "a"
+    expect(() => BitsetFlagRegistry.from("a", "b", "a")).toThrow(
+      DuplicateFlagsError,
+    );
+  });
+});
+
+describe("BitsetFlagRegistry#extend()", () => {
+  test("keeps existing bits and places new names in free positions", () => {
+    // input: 300-flag registry + "extra" -> extra = bit 300
+    const v2 = wide.extend("extra");
+    expect(v2.get("f299").toBigInt()).toBe(1n << 299n);
+    expect(v2.get("extra").toBigInt()).toBe(1n << 300n);
+  });
+
+  test("accepts explicit bigint values and lifts parent flags", () => {
+    // input: { audit: 1n << 64n }
+    const v2 = registry.extend({ audit: 1n << 64n });
+    expect(v2.get("audit").toBigInt()).toBe(1n << 64n);
+    expect(v2.lift(registry.of("admin")).toArray()).toEqual(["admin"]);
+  });
+});
+
+describe("BitsetFlagRegistry#toSchema() and fromSchema()", () => {
+  test("round-trips a wide registry", () => {
+    // input: 300 flags -> kind "bitset", f299 = "2^299"
+    const schema = wide.toSchema();
+    expect(schema.kind).toBe("bitset");
+    expect(schema.flags.f299).toBe((1n << 299n).toString());
+
+    const copy = BitsetFlagRegistry.fromSchema(schema);
+    expect(copy.get("f299").toBigInt()).toBe(1n << 299n);
+    expect(copy.fingerprint).toBe(wide.fingerprint);
+  });
+});
+
+describe("BitsetFlagRegistry#toBigInt() and toNumber()", () => {
+  test("toBigInt() keeps names and positions beyond 64 bits", () => {
+    // input: 300 flags -> f299 = 1n << 299n
+    const big = wide.toBigInt();
+    expect(big.get("f299")).toBe(1n << 299n);
+    expect(big.fingerprint).toBe(wide.fingerprint);
+  });
+
+  test("toNumber() converts a narrow registry", () => {
+    // input: read ... admin -> 1 ... 8
+    expect(registry.toNumber().values()).toEqual([1, 2, 4, 8]);
+  });
+
+  test("toNumber() throws OverflowError for flags above 2^30", () => {
+    // input: 300 flags
+    expect(() => wide.toNumber()).toThrow(OverflowError);
+  });
+
+  test("toNumber() throws OverflowError for a retired position above bit 30", () => {
+    // input: read + write, bit 40 retired
+    const retired = BitsetFlagRegistry.from({ retired: [40] }, "read", "write");
+    expect(() => retired.toNumber()).toThrow(OverflowError);
+  });
+});
+
+describe("BitsetFlagRegistry#parse()", () => {
+  test("parses a decimal string", () => {
+    // input: "5" -> read + execute
+    expect(registry.parse("5").toArray()).toEqual(["read", "execute"]);
+  });
+
+  test("parses prefixed strings", () => {
+    // input: "0b11", "0x8"
+    expect(registry.parse("0b11").toArray()).toEqual(["read", "write"]);
+    expect(registry.parse("0x8").toArray()).toEqual(["admin"]);
+  });
+
+  test("parses a Bitset and copies it", () => {
+    // input: Bitset [3] -> flag bits are a different, equal instance
+    const input = new Bitset([3]);
+    const flag = registry.parse(input);
+    input[0] = 0;
+    expect(flag.bits.toBigInt()).toBe(3n);
+  });
+
+  test("round-trips toJSON() for high bits", () => {
+    // input: f0 + f299 serialized as a decimal string and parsed back
+    const flag = wide.of("f0", "f299");
+    const parsed = wide.parse(flag.toJSON());
+    expect(equals(parsed, flag)).toBe(true);
+  });
+
+  test("throws ParseError for malformed or negative strings", () => {
+    // input: "", "abc", "-1"
+    expect(() => registry.parse("  ")).toThrow(ParseError);
+    expect(() => registry.parse("abc")).toThrow(ParseError);
+    expect(() => registry.parse("-1")).toThrow(ParseError);
+  });
+
+  test("throws UnknownBitsError for unregistered bits", () => {
+    // input: 17 (16 | 1) -> unknownBits = 16
+    let caught: unknown;
+    try {
+      registry.parse("17");
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toBeInstanceOf(UnknownBitsError);
+    expect(String((caught as UnknownBitsError).unknownBits)).toBe("16");
+  });
+});
+
+describe("BitsetFlagRegistry flags", () => {
+  test("of() throws UnknownFlagError for unregistered names", () => {
+    // input: "nope"
+    expect(() => registry.of("nope" as Perms)).toThrow(UnknownFlagError);
+  });
+
+  test("empty() is empty and full() is full", () => {
+    expect(registry.empty().isEmpty()).toBe(true);
+    expect(registry.full().isFull()).toBe(true);
+    expect(registry.of("read", "write", "execute", "admin").isFull()).toBe(
+      true,
+    );
+  });
+
+  test("has(), size, toArray() and toString() work on high bits", () => {
+    // input: f1 + f200
+    const flag = wide.of("f1", "f200");
+    expect(flag.has("f200")).toBe(true);
+    expect(flag.has("f2")).toBe(false);
+    expect(flag.size).toBe(2);
+    expect(flag.toArray()).toEqual(["f1", "f200"]);
+    expect(flag.toString(16)).toBe(
+      `Flag([f1+f200]: ${((1n << 200n) | 2n).toString(16)})`,
+    );
+  });
+
+  test("writes to get(), values() or fullBits do not change the registry", () => {
+    // input: first word of each returned bitset cleared
+    const r = BitsetFlagRegistry.from("a", "b");
+    r.get("a")[0] = 0;
+    r.values()[1]![0] = 0;
+    r.fullBits[0] = 0;
+    r.full().bits[0] = 0;
+
+    expect(r.of("a", "b").toArray()).toEqual(["a", "b"]);
+    expect(r.fullBits.toBigInt()).toBe(3n);
+  });
+});
+
+describe("operators on BitsetFlagRegistry", () => {
+  test("basic operators", () => {
+    const base = registry.of("read");
+
+    expect(add(base, "write").toArray()).toEqual(["read", "write"]);
+    expect(remove(registry.full(), "admin").toArray()).toEqual([
+      "read",
+      "write",
+      "execute",
+    ]);
+    expect(toggle(base, "read", "admin").toArray()).toEqual(["admin"]);
+    expect(complement(base).toArray()).toEqual(["write", "execute", "admin"]);
+    expect(hasAll(registry.of("read", "write"), "read", "write")).toBe(true);
+    expect(hasAny(base, "write", "admin")).toBe(false);
+    expect(hasNone(base, "write", "admin")).toBe(true);
+    expect(equals(add(base, "write"), registry.of("write", "read"))).toBe(true);
+  });
+
+  test("set operators", () => {
+    const a = wide.of("f0", "f100", "f250");
+    const b = wide.of("f100", "f299");
+
+    expect(union(a, b).toArray()).toEqual(["f0", "f100", "f250", "f299"]);
+    expect(intersection(a, b).toArray()).toEqual(["f100"]);
+    expect(difference(a, b).toArray()).toEqual(["f0", "f250"]);
+    expect(symmetricDifference(a, b).toArray()).toEqual([
+      "f0",
+      "f250",
+      "f299",
+    ]);
+    expect(overlaps(a, b)).toBe(true);
+    expect(overlaps(a, wide.of("f1"))).toBe(false);
+    expect(isSubsetOf(wide.of("f100"), a)).toBe(true);
+    expect(isSupersetOf(a, b)).toBe(false);
+  });
+});
@@ -0,0 +1,445 @@
+import { Bitset, BitsetCombinator } from "@/core";
+
+import {
+  DuplicateError,
+  DuplicateFlagsError,
+  NotPositiveError,
+  NotPowerOfTwoError,
+  ParseError,
+} from "../errors";
+import { Repository } from "../repository";
+
+import { AbstractFlagRegistry } from "./AbstractFlagRegistry";
+import { BigIntFlagRegistry } from "./BigIntFlagRegistry";
+import { NumberFlagRegistry } from "./NumberFlagRegistry";
+
+import type { Combinator } from "@/core";
+import type {
+  FlagRegistry,
+  RegistryOptions,
+  RegistrySchema,
+} from "../types";
+
+import type { RegistryConfig } from "./types";
+
+const BITSET_COMBINATOR = new BitsetCombinator();
+
+export class BitsetFlagRegistry<
+  TFlags extends string,
+  TBrand extends string | symbol = symbol,
+> extends AbstractFlagRegistry<TFlags, Bitset, TBrand> {
+  /**
+   * The bitwise combinator used internally to perform AND, OR, NOT, and other
+   * operations on values of type `TBit`.
+   */
+  public readonly combinator: Combinator<Bitset> = BITSET_COMBINATOR;
+
+  /**
+   * The kind recorded by {@link toSchema}.
+   *
+   * @internal
+   */
+  protected readonly kind = "bitset";
+
+  /**
+   * The underlying read-only store that maps flag names to their bit values.
+   */
+  public readonly repository: Repository<TFlags, Bitset>;
+
+  /**
+   * Validates that every flag in the map can form a well-formed bitfield.
+   *
+   * Each bit value must satisfy three conditions:
+   * - **Positive** — value must be greater than `0n`.
+   * - **Unique** — no two flags may share the same bit value.
+   * - **Power of two** — value must have exactly one bit set (`value & (value - 1) === 0`).
+   *
+   * @param flags - Map of flag names to their `bigint` bit values.
+   * @throws {@link NotPositiveError} if any value is `≤ 0n`.
+   * @throws {@link DuplicateError} if any bit value appears more than once.
+   * @throws {@link NotPowerOfTwoError} if any value is not a power of two.
+   */
+  private validateFlags<TFlags extends string>(flags: Map<TFlags, bigint>) {
+    const seenBits = new Set<bigint>();
+
+    const entries = flags.entries();
+
+    for (const [key, value] of entries) {
+      if (value <= 0n) {
+        throw new NotPositiveError(key, value);
+      }
+
+      if (seenBits.has(value)) {
+        throw new DuplicateError(key, value);
+      }
+
+      if ((value & (value - 1n)) !== 0n) {
+        throw new NotPowerOfTwoError(key, value);
+      }
+
+      seenBits.add(value);
+    }
+  }
+
+  private coerceBitset(value: Bitset): Bitset {
+    // OR-ing with zero copies the words and drops trailing zero words, so the
+    // flag never shares a mutable buffer with the caller.
+    return this.combinator.or(value, this.combinator.zero);
+  }
+
+  private coerceString(value: string): Bitset {
+    const normalized = value.trim();
+
+    if (normalized.length === 0) {
+      throw new ParseError(value);
+    }
+
+    let num: bigint;
+
+    try {
+      num = BigInt(normalized);
+    } catch {
+      throw new ParseError(value);
+    }
+
+    if (num < 0n) {
+      throw new ParseError(value);
+    }
+
+    return Bitset.fromBigInt(num);
+  }
+
+  /**
+   * Converts a raw value or string representation into the registry's native bit type `TBit`.
+   *
+   * @internal
+   *
+   * @param value - A native bit value or its string representation.
+   * @returns The parsed value as `TBit`.
+   * @throws {@link ParseError} if `value` cannot be converted to a valid non-negative `TBit`.
+   */
+  protected coerce(value: Bitset | string): Bitset {
+    if (typeof value === "string") return this.coerceString(value);
+
+    return this.coerceBitset(value);
+  }
+
+  /**
+   * Creates a registry of the same kind with the same single-bit flags and
+   * this registry as its parent.
+   *
+   * @internal
+   *
+   * @param config - The settings that differ from this registry's.
+   */
+  protected derive(
+    config: Partial<RegistryConfig<Bitset>>,
+  ): FlagRegistry<string, Bitset, string | symbol> {
+    return new BitsetFlagRegistry(
+      new Map<string, bigint>(
+        this.entries().map(([key, value]) => [key, value.toBigInt()]),
+      ),
+      this,
+      config,
+    );
+  }
+
+  private constructor(
+    flags: Map<TFlags, bigint>,
+    parent: BitsetFlagRegistry<string, string | symbol> | null = null,
+    config: Partial<RegistryConfig<Bitset>> = {},
+  ) {
+    super(parent, config);
+
+    this.validateFlags(flags);
+
+    const bitsets = new Map<TFlags, Bitset>();
+
+    for (const [key, value] of flags) {
+      bitsets.set(key, Bitset.fromBigInt(value));
+    }
+
+    this.repository = new Repository(
+      bitsets,
+      new Map(this.config.composites) as Map<TFlags, Bitset>,
+    );
+
+    this.validateReserved();
+    this.validateFields();
+  }
+
+  /**
+   * Creates a `BitsetFlagRegistry` from an explicit name-to-bit mapping.
+   *
+   * Bit values are given as `bigint` powers of two (the same values
+   * BigIntFlagRegistry.define accepts) and stored as {@link Bitset}s.
+   *
+   * A value with several bits set, each of them the value of another flag in
+   * `flags`, declares a composite of those flags, as {@link compose} does.
+   *
+   * @param flags - A plain object whose keys are flag names and values are the
+   *   `bigint` bit values to assign to each flag.
+   * @param options - Reserved and retired bit positions and composites; see
+   *   {@link RegistryOptions}.
+   * @returns A new {@link FlagRegistry} typed to the given flag names and branded
+   *   with `TBrand`.
+   * @throws {@link NotPositiveError} if any value is `≤ 0n`.
+   * @throws {@link DuplicateError} if two flags share the same bit value.
+   * @throws {@link NotPowerOfTwoError} if any value is not a power of two nor a
+   *   combination of other values.
+   * @throws {@link DuplicateFlagsError} if a composite name is used twice.
+   * @throws {@link UnknownFlagError} if a composite member is not in `flags`.
+   * @throws {@link ReservedBitError} if a flag is placed on a reserved or retired bit.
+   *
+   * @example
+   * ```ts
+   * const registry = BitsetFlagRegistry.define({
+   *   READ:    1n,
+   *   WRITE:   2n,
+   *   ARCHIVE: 1n << 300n,
+   * });
+   *
+   * registry.of("READ", "WRITE").bits.toString(); // "3"
+   * ```
+   */
+  static define<
+    TFlags extends string,
+    TBrand extends string | symbol = symbol,
+    TComposite extends string = never,
+  >(
+    flags: Record<TFlags, bigint>,
+    options: RegistryOptions<NoInfer<TFlags>, TComposite> = {},
+  ): FlagRegistry<TFlags | TComposite, Bitset, TBrand> {
+    const [map, composites] = this.splitComposites(flags);
+
+    return this.withComposites(
+      new this(map, null, this.configFrom(options)),
+      options,
+      composites,
+    ) as FlagRegistry<TFlags | TComposite, Bitset, TBrand>;
+  }
+
+  /**
+   * Rebuilds a `BitsetFlagRegistry` from a schema written by `toSchema()`.
+   *
+   * The flags go through the same validation as {@link define}, so a bad
+   * schema fails the same way a bad `define()` call does.
+   *
+   * @param schema - A schema of kind `"bitset"`; see {@link RegistrySchema}.
+   * @returns A new {@link FlagRegistry} with the same flags and reserved and
+   *   retired positions.
+   * @throws {@link InvalidSchemaError} if `schema` is malformed or of another kind.
+   * @throws {@link NotPositiveError} if any value is `0`.
+   * @throws {@link DuplicateError} if two flags share the same bit value.
+   * @throws {@link NotPowerOfTwoError} if any value is not a power of two.
+   * @throws {@link ReservedBitError} if a flag is placed on a reserved or retired bit.
+   *
+   * @example
+   * ```ts
+   * const schema = BitsetFlagRegistry.from("READ", "WRITE").toSchema();
+   * const copy = BitsetFlagRegistry.fromSchema(schema);
+   *
+   * copy.of("READ", "WRITE").bits.toString(); // "3"
+   * ```
+   */
+  static fromSchema<
+    TFlags extends string,
+    TBrand extends string | symbol = symbol,
+  >(schema: RegistrySchema<TFlags>): FlagRegistry<TFlags, Bitset, TBrand> {
+    const [flags, options] = this.readSchema(schema, "bitset");
+
+    return this.define(
+      Object.fromEntries(flags) as Record<TFlags, bigint>,
+      options,
+    );
+  }
+
+  /**
+   * Creates a `BitsetFlagRegistry` from a list of flag names, auto-assigning
+   * consecutive bit positions.
+   *
+   * The first name receives bit `0`, the second bit `1`, and so on. Bits are
+   * stored in a `Uint32Array`, so the registry supports an unlimited number of
+   * flags.
+   *
+   * @param flags - Flag names in registration order. Each name must be unique.
+   * @returns A new {@link FlagRegistry} typed to the given flag names and branded
+   *   with `TBrand`.
+   * @throws {@link DuplicateFlagsError} if any name appears more than once.
+   *
+   * @example
+   * ```ts
+   * const registry = BitsetFlagRegistry.from("READ", "WRITE", "EXECUTE");
+   * // READ = bit 0, WRITE = bit 1, EXECUTE = bit 2
+   *
+   * registry.of("READ", "EXECUTE").bits.toString(); // "5"
+   * ```
+   */
+  static from<TFlags extends string, TBrand extends string | symbol = symbol>(
+    ...flags: TFlags[]
+  ): FlagRegistry<TFlags, Bitset, TBrand>;
+  /**
+   * Creates a `BitsetFlagRegistry` from a list of flag names, auto-assigning
+   * the lowest bit positions that are neither reserved nor retired.
+   *
+   * @param options - Reserved and retired bit positions and composites; see
+   *   {@link RegistryOptions}.
+   * @param flags - Flag names in registration order. Each name must be unique.
+   * @returns A new {@link FlagRegistry} typed to the given flag names and branded
+   *   with `TBrand`.
+   * @throws {@link DuplicateFlagsError} if any name, flag or composite,
+   *   appears more than once.
+   * @throws {@link UnknownFlagError} if a composite member is not in `flags`.
+   *
+   * @example
+   * ```ts
+   * const registry = BitsetFlagRegistry.from({ retired: [1] }, "READ", "WRITE");
+   * // READ = bit 0, WRITE = bit 2
+   * ```
+   */
+  static from<
+    TFlags extends string,
+    TBrand extends string | symbol = symbol,
+    TComposite extends string = never,
+  >(
+    options: RegistryOptions<NoInfer<TFlags>, TComposite>,
+    ...flags: TFlags[]
+  ): FlagRegistry<TFlags | TComposite, Bitset, TBrand>;
+  static from(
+    ...args: string[] | [RegistryOptions, ...string[]]
+  ): FlagRegistry<string, Bitset, string | symbol> {
+    const [first] = args;
+
+    const options = typeof first === "object" ? first : {};
+    const flags = (typeof first === "object" ? args.slice(1) : args) as string[];
+
+    if (this.hasDuplicates(flags)) {
+      throw new DuplicateFlagsError(this.findDuplicates(flags));
+    }
+
+    const map = new Map(
+      this.assignPositions(flags, options).map(([flag, position]) => [
+        flag,
+        1n << BigInt(position),
+      ]),
+    );
+
+    return this.withComposites(
+      new this(map, null, this.configFrom(options)),
+      options,
+    );
+  }
+
+  /**
+   * Creates a new registry that contains every flag of this one, at the same
+   * bit positions, plus the given names placed in the lowest free positions.
+   *
+   * @param flags - Names of the flags to add.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link DuplicateFlagsError} if a name repeats or is already registered.
+   *
+   * @example
+   * ```ts
+   * const v1 = BitsetFlagRegistry.define({ READ: 1n, EXECUTE: 4n });
+   * const v2 = v1.extend("WRITE", "DELETE");
+   * // READ = bit 0, EXECUTE = bit 2, WRITE = bit 1, DELETE = bit 3
+   * ```
+   */
+  extend<TNew extends string, TNewBrand extends string | symbol = symbol>(
+    ...flags: TNew[]
+  ): FlagRegistry<TFlags | TNew, Bitset, TNewBrand>;
+  /**
+   * Creates a new registry that contains every flag of this one, at the same
+   * bit positions, plus the given explicitly placed flags.
+   *
+   * @param flags - A plain object mapping new flag names to their `bigint`
+   *   bit values.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link DuplicateFlagsError} if a name is already registered.
+   * @throws {@link DuplicateError} if a value is already used by another flag.
+   * @throws {@link NotPositiveError} if any value is `≤ 0n`.
+   * @throws {@link NotPowerOfTwoError} if any value is not a power of two.
+   *
+   * @example
+   * ```ts
+   * const v2 = v1.extend({ AUDIT: 1n << 400n });
+   * ```
+   */
+  extend<TNew extends string, TNewBrand extends string | symbol = symbol>(
+    flags: Record<TNew, bigint>,
+  ): FlagRegistry<TFlags | TNew, Bitset, TNewBrand>;
+  extend(
+    ...args: string[] | [Record<string, bigint>]
+  ): FlagRegistry<string, Bitset, string | symbol> {
+    const [first] = args;
+
+    const map = new Map<string, bigint>(
+      this.entries().map(([key, value]) => [key, value.toBigInt()]),
+    );
+
+    if (typeof first === "object") {
+      const entries = Object.entries(first);
+
+      this.assertNewNames(entries.map(([key]) => key));
+
+      return new BitsetFlagRegistry(new Map([...map, ...entries]), this);
+    }
+
+    const names = args as string[];
+
+    this.assertNewNames(names);
+
+    let used = this.takenBits.toBigInt();
+    let bit = 1n;
+
+    for (const name of names) {
+      while ((used & bit) !== 0n) bit <<= 1n;
+
+      map.set(name, bit);
+      used |= bit;
+    }
+
+    return new BitsetFlagRegistry(map, this);
+  }
+
+  /**
+   * Creates a `BigIntFlagRegistry` with the same flag names at the same bit
+   * positions, and the same reserved and retired positions.
+   * Composites, packed fields, rules and metadata are not copied.
+   *
+   * @example
+   * ```ts
+   * const big = BitsetFlagRegistry.from("READ", "WRITE").toBigInt();
+   * big.get("WRITE"); // 2n
+   * ```
+   */
+  toBigInt(): FlagRegistry<TFlags, bigint, TBrand> {
+    return BigIntFlagRegistry.fromSchema({
+      ...this.toSchema(),
+      kind: "bigint",
+    });
+  }
+
+  /**
+   * Creates a `NumberFlagRegistry` with the same flag names at the same bit
+   * positions, and the same reserved and retired positions.
+   * Composites, packed fields, rules and metadata are not copied.
+   *
+   * @throws {@link OverflowError} if a flag, a reserved position or a retired
+   *   position is above bit 30, which a `NumberFlagRegistry` cannot hold.
+   *   Such positions are not dropped, so the converted registry never
+   *   silently loses part of the layout.
+   *
+   * @example
+   * ```ts
+   * const small = BitsetFlagRegistry.from("READ", "WRITE").toNumber();
+   * small.get("WRITE"); // 2
+   * ```
+   */
+  toNumber(): FlagRegistry<TFlags, number, TBrand> {
+    return NumberFlagRegistry.fromSchema({
+      ...this.toSchema(),
+      kind: "number",
+    });
+  }
+}
@@ -1,13 +1,22 @@
 import { describe, expect, test } from "bun:test";
 
+import { add, complement, remove, toggle } from "@/operators/basic";
+
+import { toBytes } from "../encoding";
 import {
+  ConstraintViolationError,
   DuplicateError,
+  DuplicateFlagsError,
+  InvalidFlagError,
+  InvalidSchemaError,
   NotPositiveError,
   NotPowerOfTwoError,
   OverflowError,
   ParseError,
+  ReservedBitError,
   UnknownBitsError,
   UnknownFlagError,
+  UnrelatedRegistryError,
 } from "../errors";
 
 import { NumberFlagRegistry } from "./NumberFlagRegistry";
@@ -138,6 +147,47 @@ describe("NumberFlagRegistry.define()", () => {
     // input: { safe: 0x20000000 } -> below threshold, no error
     expect(() => NumberFlagRegistry.define({ safe: 0x20000000 })).not.toThrow();
   });
+
+  test("declares a composite for a value made of other flags' bits", () => {
+    // input: { READ: 1, WRITE: 2, DELETE: 4, ADMIN: 7 } -> ADMIN = READ|WRITE|DELETE
+    const r = NumberFlagRegistry.define({
+      READ: 1,
+      WRITE: 2,
+      DELETE: 4,
+      ADMIN: 7,
+    });
+    expect(r.keys()).toEqual(["READ", "WRITE", "DELETE"]);
+    expect(r.fullBits).toBe(7);
+    expect(r.of("ADMIN").toArray()).toEqual(["READ", "WRITE", "DELETE"]);
+    expect(r.of("READ", "WRITE").has("ADMIN")).toBe(false);
+  });
+
+  test("still throws NotPowerOfTwoError when a multi-bit value has a bit no flag owns", () => {
+    // input: { READ: 1, BOTH: 3 } -> bit 2 belongs to no flag
+    expect(() => NumberFlagRegistry.define({ READ: 1, BOTH: 3 })).toThrow(
+      NotPowerOfTwoError,
+    );
+  });
+
+  test("accepts composites and collapseComposites in the options", () => {
+    // input: composites { EDITOR: [READ, WRITE] } with collapsing on
+    const r = NumberFlagRegistry.define(
+      { READ: 1, WRITE: 2 },
+      { composites: { EDITOR: ["READ", "WRITE"] }, collapseComposites: true },
+    );
+    expect(r.get("EDITOR")).toBe(3);
+    expect(r.of("READ", "WRITE").alias).toBe("EDITOR");
+  });
+
+  test("throws DuplicateFlagsError when a composite is declared twice", () => {
+    // input: ADMIN as a value and in the composites option
+    expect(() =>
+      NumberFlagRegistry.define(
+        { READ: 1, WRITE: 2, ADMIN: 3 },
+        { composites: { ADMIN: ["READ"] } },
+      ),
+    ).toThrow(DuplicateFlagsError);
+  });
 });
 
 describe("NumberFlagRegistry.from()", () => {
@@ -207,6 +257,28 @@ describe("NumberFlagRegistry.from()", () => {
     expect((caught as OverflowError).flag).toBe("f31");
     expect((caught as OverflowError).value).toBe(2 ** 31);
   });
+
+  test("declares the composites given in the options", () => {
+    // input: composites { editor: [read, write] } -> editor = 3, not a key
+    const r = NumberFlagRegistry.from(
+      { composites: { editor: ["read", "write"] } },
+      "read",
+      "write",
+      "admin",
+    );
+    expect(r.of("editor", "admin").bits).toBe(7);
+    expect(r.keys()).toEqual(["read", "write", "admin"]);
+  });
+
+  test("throws UnknownFlagError for a composite member that is not a flag", () => {
+    // input: composites { editor: [read, ghost] }
+    expect(() =>
+      NumberFlagRegistry.from(
+        { composites: { editor: ["read", "ghost" as "read"] } },
+        "read",
+      ),
+    ).toThrow(UnknownFlagError);
+  });
 });
 
 describe("NumberFlagRegistry#parse() — number input", () => {
@@ -320,6 +392,196 @@ describe("NumberFlagRegistry#parse() — string input", () => {
   });
 });
 
+describe("NumberFlagRegistry#parse() — unknownBits policy", () => {
+  test("throws UnknownBitsError by default and with \"throw\"", () => {
+    // input: 17 (16|1) -> bit 4 is unknown
+    expect(() => registry.parse(17, {})).toThrow(UnknownBitsError);
+    expect(() => registry.parse(17, { unknownBits: "throw" })).toThrow(
+      UnknownBitsError,
+    );
+  });
+
+  test("\"strip\" drops unknown bits", () => {
+    // input: 17 (16|1) -> read only
+    const flag = registry.parse(17, { unknownBits: "strip" });
+    expect(flag.bits).toBe(1);
+    expect(flag.toArray()).toEqual(["read"]);
+  });
+
+  test("\"keep\" keeps unknown bits as opaque bits", () => {
+    // input: 49 (32|16|1) -> bits kept, only read listed
+    const flag = registry.parse(49, { unknownBits: "keep" });
+    expect(flag.bits).toBe(49);
+    expect(flag.toArray()).toEqual(["read"]);
+    expect(flag.toObject()).toEqual({
+      read: true,
+      write: false,
+      execute: false,
+      admin: false,
+    });
+    expect(flag.has("read")).toBe(true);
+    expect(flag.isEmpty()).toBe(false);
+  });
+
+  test("\"keep\" bits do not make a flag full or count towards isFull()", () => {
+    // input: 31 (16|15) -> full, opaque bit 4 ignored
+    expect(registry.parse(31, { unknownBits: "keep" }).isFull()).toBe(true);
+    expect(registry.parse(23, { unknownBits: "keep" }).isFull()).toBe(false);
+  });
+
+  test("opaque bits survive add, remove, toggle and complement", () => {
+    // input: 17 kept -> 16 stays through every operator
+    const flag = registry.parse(17, { unknownBits: "keep" });
+    expect(add(flag, "write").bits).toBe(19);
+    expect(remove(flag, "read").bits).toBe(16);
+    expect(toggle(flag, "admin").bits).toBe(25);
+    expect(complement(flag).bits).toBe(30);
+  });
+
+  test("opaque bits round-trip through toJSON()", () => {
+    // input: 17 kept -> "17" -> 17 kept
+    const flag = add(registry.parse(17, { unknownBits: "keep" }), "execute");
+    expect(flag.toJSON()).toBe("21");
+    expect(registry.parse(flag.toJSON(), { unknownBits: "keep" }).bits).toBe(
+      21,
+    );
+  });
+
+  test("rejects bits the 32-bit combinator cannot hold under every policy", () => {
+    // input: bit 31, bit 40 -> would wrap negative or be lost by add()
+    for (const unknownBits of ["throw", "strip", "keep"] as const) {
+      expect(() => registry.parse(2 ** 31 + 1, { unknownBits })).toThrow(
+        ParseError,
+      );
+      expect(() => registry.parse(2 ** 40 + 1, { unknownBits })).toThrow(
+        ParseError,
+      );
+      expect(() => registry.parse("0x80000001", { unknownBits })).toThrow(
+        ParseError,
+      );
+    }
+  });
+
+  test("kept bit 30 survives add(), toJSON() and toBytes()", () => {
+    // input: 2^30 + 1 kept -> add write -> 2^30 + 3
+    const flag = add(registry.parse(2 ** 30 + 1, { unknownBits: "keep" }), "write");
+    expect(flag.bits).toBe(2 ** 30 + 3);
+    expect(registry.parse(flag.toJSON(), { unknownBits: "keep" }).bits).toBe(
+      2 ** 30 + 3,
+    );
+    expect(
+      registry.fromBytes(toBytes(flag), { unknownBits: "keep" }).bits,
+    ).toBe(2 ** 30 + 3);
+  });
+
+  test("\"keep\" bits do not count towards size, isEmpty() or alias", () => {
+    // input: 17 (16|1) -> read only; 16 -> no registered flag
+    const flag = registry.parse(17, { unknownBits: "keep" });
+    expect(flag.size).toBe(1);
+    expect(flag.size).toBe(flag.toArray().length);
+
+    const opaque = registry.parse(16, { unknownBits: "keep" });
+    expect(opaque.size).toBe(0);
+    expect(opaque.isEmpty()).toBe(true);
+    expect(opaque.alias).toBe("EMPTY_FLAG");
+  });
+
+  test("knownBits covers flags and packed fields", () => {
+    // input: 4 flags + 2-bit field at offset 4 -> 0b110000 | 0b1111
+    const packed = registry.pack({ level: { offset: 4, width: 2 } });
+    expect(registry.knownBits).toBe(15);
+    expect(packed.registry.knownBits).toBe(63);
+  });
+});
+
+describe("NumberFlagRegistry#parseNames()", () => {
+  test("parses names joined by any separator", () => {
+    // input: "read+write", "read | write", "read,write", "read write" -> 3
+    const inputs = ["read+write", "read | write", "read,write", "read write"];
+
+    for (const input of inputs) {
+      expect(registry.parseNames(input).bits).toBe(3);
+    }
+  });
+
+  test("round-trips alias and toString()", () => {
+    // input: read + admin -> "read+admin", "Flag([read+admin]: 1001)"
+    const flag = registry.of("read", "admin");
+    expect(registry.parseNames(flag.alias).bits).toBe(9);
+    expect(registry.parseNames(flag.toString(2)).bits).toBe(9);
+  });
+
+  test("accepts the EMPTY_FLAG token", () => {
+    // input: "EMPTY_FLAG", "Flag([EMPTY_FLAG]: 0)" -> empty
+    expect(registry.parseNames("EMPTY_FLAG").isEmpty()).toBe(true);
+    expect(registry.parseNames(registry.empty().toString()).isEmpty()).toBe(
+      true,
+    );
+  });
+
+  test("expands composite names", () => {
+    // input: "editor+admin" with editor = read|write -> 11
+    const composed = registry.compose({ editor: ["read", "write"] });
+    expect(composed.parseNames("editor+admin").bits).toBe(11);
+  });
+
+  test("matches names case-insensitively when asked", () => {
+    // input: "READ+Write", "empty_flag"
+    expect(() => registry.parseNames("READ")).toThrow(UnknownFlagError);
+    expect(
+      registry.parseNames("READ+Write", { caseInsensitive: true }).bits,
+    ).toBe(3);
+    expect(
+      registry.parseNames("empty_flag", { caseInsensitive: true }).isEmpty(),
+    ).toBe(true);
+  });
+
+  test("throws UnknownFlagError with the position of the unknown name", () => {
+    // input: "read + nope" -> "nope" at index 7
+    let caught: unknown;
+    try {
+      registry.parseNames("read + nope");
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toBeInstanceOf(UnknownFlagError);
+    expect((caught as UnknownFlagError).flag).toBe("nope");
+    expect((caught as UnknownFlagError).position).toBe(7);
+  });
+
+  test("throws ParseError for a string without names", () => {
+    // input: "", " + "
+    expect(() => registry.parseNames("")).toThrow(ParseError);
+    expect(() => registry.parseNames(" + ")).toThrow(ParseError);
+  });
+});
+
+describe("NumberFlagRegistry#fromBytes()", () => {
+  test("reads big-endian bytes by default", () => {
+    // input: [0, 0, 0, 5] -> read + execute
+    const flag = registry.fromBytes(new Uint8Array([0, 0, 0, 5]));
+    expect(flag.toArray()).toEqual(["read", "execute"]);
+  });
+
+  test("reads little-endian bytes", () => {
+    // input: [5, 0, 0, 0], little -> 5
+    const bytes = new Uint8Array([5, 0, 0, 0]);
+    expect(registry.fromBytes(bytes, { endian: "little" }).bits).toBe(5);
+  });
+
+  test("reads no bytes as an empty flag", () => {
+    // input: [] -> 0
+    expect(registry.fromBytes(new Uint8Array()).isEmpty()).toBe(true);
+  });
+
+  test("validates like parse()", () => {
+    // input: [0x11] -> bit 4 unknown
+    const bytes = new Uint8Array([0x11]);
+    expect(() => registry.fromBytes(bytes)).toThrow(UnknownBitsError);
+    expect(registry.fromBytes(bytes, { unknownBits: "strip" }).bits).toBe(1);
+  });
+});
+
 describe("NumberFlagRegistry#of()", () => {
   test("returns empty flag when called with no arguments", () => {
     // input: of() -> bits === 0
@@ -408,3 +670,637 @@ describe("NumberFlagRegistry#fullBits", () => {
     expect(r.fullBits).toBe(5);
   });
 });
+
+describe("NumberFlagRegistry#extend()", () => {
+  test("keeps existing bits and appends new names to free positions", () => {
+    // input: read..admin (1..8) + "audit", "owner" -> 16, 32
+    const v2 = registry.extend("audit", "owner");
+    expect(v2.entries()).toEqual([
+      ["read", 1],
+      ["write", 2],
+      ["execute", 4],
+      ["admin", 8],
+      ["audit", 16],
+      ["owner", 32],
+    ]);
+  });
+
+  test("fills gaps left by define()", () => {
+    // input: { a: 1, c: 4 } + "b", "d" -> b = 2, d = 8
+    const v2 = NumberFlagRegistry.define({ a: 1, c: 4 }).extend("b", "d");
+    expect(v2.get("b")).toBe(2);
+    expect(v2.get("d")).toBe(8);
+  });
+
+  test("accepts explicit values", () => {
+    // input: { audit: 64 } -> audit = 64, old flags unchanged
+    const v2 = registry.extend({ audit: 64 });
+    expect(v2.get("audit")).toBe(64);
+    expect(v2.get("admin")).toBe(8);
+  });
+
+  test("does not modify the parent registry", () => {
+    // input: extend("audit") -> parent keys unchanged
+    registry.extend("audit");
+    expect(registry.keys()).toEqual(["read", "write", "execute", "admin"]);
+  });
+
+  test("throws DuplicateFlagsError for a name that is already registered", () => {
+    // input: extend("read")
+    expect(() => registry.extend("read" as string)).toThrow(DuplicateFlagsError);
+    expect(() => registry.extend({ write: 64 } as Record<string, number>)).toThrow(
+      DuplicateFlagsError,
+    );
+  });
+
+  test("throws DuplicateError for an explicit value that is already used", () => {
+    // input: { audit: 2 } -> 2 belongs to "write"
+    expect(() => registry.extend({ audit: 2 })).toThrow(DuplicateError);
+  });
+
+  test("throws OverflowError when no bit below MAX_SAFE_FLAG is free", () => {
+    // input: 31-flag registry + "extra"
+    const names = Array.from({ length: 31 }, (_, i) => `f${i}`);
+    const full = NumberFlagRegistry.from(...names);
+
+    let caught: unknown;
+    try {
+      full.extend("extra");
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toBeInstanceOf(OverflowError);
+    expect((caught as OverflowError).flag).toBe("extra");
+    expect((caught as OverflowError).message).toContain("all 31 bit positions");
+  });
+
+  test("throws OverflowError for an explicit value above MAX_SAFE_FLAG", () => {
+    // input: { big: 2 ** 31 }
+    expect(() => registry.extend({ big: 2 ** 31 })).toThrow(OverflowError);
+  });
+});
+
+describe("NumberFlagRegistry#lift()", () => {
+  const v2 = registry.extend("audit");
+  const v3 = v2.extend("owner");
+
+  test("re-creates a parent flag in the child registry", () => {
+    // input: v1 read+admin -> v2 flag with the same bits
+    const lifted = v2.lift(registry.of("read", "admin"));
+    expect(lifted.registry).toBe(v2);
+    expect(lifted.bits).toBe(9);
+    expect(lifted.toArray()).toEqual(["read", "admin"]);
+  });
+
+  test("lifts across several extend() calls", () => {
+    // input: v1 flag lifted into v3
+    expect(v3.lift(registry.of("write")).registry).toBe(v3);
+  });
+
+  test("accepts a flag of the registry itself", () => {
+    // input: v2 flag lifted into v2
+    expect(v2.lift(v2.of("audit")).bits).toBe(16);
+  });
+
+  test("throws UnrelatedRegistryError for a child or unrelated flag", () => {
+    // input: v2 flag lifted into v1; flag of an identical but separate registry
+    const other = NumberFlagRegistry.from("read");
+    expect(() => registry.lift(v2.of("audit"))).toThrow(UnrelatedRegistryError);
+    expect(() => v2.lift(other.of("read"))).toThrow(UnrelatedRegistryError);
+  });
+});
+
+describe("NumberFlagRegistry#compose()", () => {
+  const composed = registry.compose({ editor: ["read", "write"] });
+
+  test("composite names resolve to the combined mask", () => {
+    // input: editor = read | write -> 3
+    expect(composed.get("editor")).toBe(3);
+    expect(composed.of("editor", "admin").bits).toBe(11);
+  });
+
+  test("composites stay out of keys() and fullBits", () => {
+    // expected: same keys and fullBits as the base registry
+    expect(composed.keys()).toEqual(registry.keys());
+    expect(composed.fullBits).toBe(registry.fullBits);
+  });
+
+  test("composites can reference other composites", () => {
+    // input: owner = editor + execute -> 7
+    const nested = composed.compose({ owner: ["editor", "execute"] });
+    expect(nested.get("owner")).toBe(7);
+    expect(nested.get("editor")).toBe(3);
+  });
+
+  test("composites survive extend()", () => {
+    // input: composed registry extended with "audit"
+    const v2 = composed.extend("audit");
+    expect(v2.get("editor")).toBe(3);
+    expect(v2.get("audit")).toBe(16);
+  });
+
+  test("collapse setting is inherited", () => {
+    // input: collapse registry, then extend()
+    const collapsing = registry.compose(
+      { editor: ["read", "write"] },
+      { collapse: true },
+    );
+    expect(collapsing.collapseComposites).toBe(true);
+    expect(collapsing.extend("audit").collapseComposites).toBe(true);
+    expect(registry.collapseComposites).toBe(false);
+  });
+
+  test("parent flags can be lifted", () => {
+    // input: base flag lifted into the composed registry
+    expect(composed.lift(registry.of("read", "write")).has("editor")).toBe(
+      true,
+    );
+  });
+
+  test("throws DuplicateFlagsError for a name that is already registered", () => {
+    // input: composite named "read"; extend() with a composite's name
+    expect(() =>
+      registry.compose({ read: ["write"] } as Record<string, Perms[]>),
+    ).toThrow(DuplicateFlagsError);
+    expect(() => composed.extend("editor")).toThrow(DuplicateFlagsError);
+  });
+
+  test("throws UnknownFlagError for an unregistered member", () => {
+    // input: composite with member "ghost"
+    expect(() => registry.compose({ bad: ["ghost" as Perms] })).toThrow(
+      UnknownFlagError,
+    );
+  });
+
+  test("throws NotPositiveError for a composite without members", () => {
+    // input: composite with no members -> empty mask
+    expect(() => registry.compose({ none: [] })).toThrow(NotPositiveError);
+  });
+});
+
+describe("NumberFlagRegistry#imply()", () => {
+  // write -> read, admin -> everything
+  const implied = registry.imply({
+    write: ["read"],
+    admin: ["read", "write", "execute"],
+  });
+
+  test("validate() returns nothing for a flag that follows every rule", () => {
+    // input: read + write
+    expect(implied.validate(implied.of("read", "write"))).toEqual([]);
+  });
+
+  test("validate() returns each violated rule with its missing names", () => {
+    // input: write + admin -> write misses read; admin misses read, execute
+    expect(implied.validate(implied.of("write", "admin"))).toEqual([
+      { kind: "implies", flag: "write", requires: ["read"], missing: ["read"] },
+      {
+        kind: "implies",
+        flag: "admin",
+        requires: ["read", "write", "execute"],
+        missing: ["read", "execute"],
+      },
+    ]);
+  });
+
+  test("implications() lists rules and merges repeated declarations", () => {
+    // input: second imply() adds execute to write's rule
+    const merged = implied.imply({ write: ["execute", "read"] });
+    expect(merged.implications()).toEqual([
+      ["write", ["read", "execute"]],
+      ["admin", ["read", "write", "execute"]],
+    ]);
+  });
+
+  test("is not strict by default", () => {
+    // input: write alone
+    expect(implied.strict).toBe(false);
+    expect(() => implied.of("write")).not.toThrow();
+  });
+
+  test("strict mode makes of() and parse() throw ConstraintViolationError", () => {
+    // input: write alone -> read missing
+    const strict = registry.imply({ write: ["read"] }, { strict: true });
+    let caught: unknown;
+    try {
+      strict.of("write");
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toBeInstanceOf(ConstraintViolationError);
+    expect((caught as ConstraintViolationError).flags).toEqual(["write"]);
+    expect(() => strict.parse(2)).toThrow(ConstraintViolationError);
+    expect(strict.of("read", "write").bits).toBe(3);
+  });
+
+  test("strict mode is inherited by extend()", () => {
+    const strict = registry.imply({ write: ["read"] }, { strict: true });
+    const v2 = strict.extend("audit");
+    expect(v2.strict).toBe(true);
+    expect(() => v2.of("write")).toThrow(ConstraintViolationError);
+  });
+
+  test("throws UnknownFlagError for an unregistered name", () => {
+    // input: rule on "ghost"; rule requiring "ghost"
+    expect(() => registry.imply({ ghost: ["read"] } as never)).toThrow(
+      UnknownFlagError,
+    );
+    expect(() => registry.imply({ write: ["ghost" as Perms] })).toThrow(
+      UnknownFlagError,
+    );
+  });
+});
+
+describe("NumberFlagRegistry#exclusive()", () => {
+  // bits: light=1, dark=2, system=4, compact=8
+  const themes = NumberFlagRegistry.from("light", "dark", "system", "compact");
+  const atMostOne = themes.exclusive({ theme: ["light", "dark", "system"] });
+  const exactlyOne = themes.exclusive(
+    { theme: ["light", "dark", "system"] },
+    { mode: "exactlyOne" },
+  );
+
+  test("validate() accepts zero or one member for atMostOne", () => {
+    expect(atMostOne.validate(atMostOne.of("compact"))).toEqual([]);
+    expect(atMostOne.validate(atMostOne.of("dark", "compact"))).toEqual([]);
+  });
+
+  test("validate() reports a group with more than one member set", () => {
+    // input: light + dark
+    expect(atMostOne.validate(atMostOne.of("light", "dark"))).toEqual([
+      {
+        kind: "atMostOne",
+        group: "theme",
+        members: ["light", "dark", "system"],
+        set: ["light", "dark"],
+      },
+    ]);
+  });
+
+  test("validate() reports an exactlyOne group with no member set", () => {
+    // input: compact only
+    const [violation] = exactlyOne.validate(exactlyOne.of("compact"));
+    expect(violation).toMatchObject({ kind: "exactlyOne", set: [] });
+    expect(exactlyOne.validate(exactlyOne.of("system"))).toEqual([]);
+  });
+
+  test("groups() lists groups with their settings", () => {
+    expect(exactlyOne.groups()).toEqual([
+      [
+        "theme",
+        {
+          members: ["light", "dark", "system"],
+          mode: "exactlyOne",
+          replace: false,
+        },
+      ],
+    ]);
+  });
+
+  test("strict mode makes parse() reject values that break a group", () => {
+    // input: 3 = light + dark
+    const strict = themes.exclusive(
+      { theme: ["light", "dark", "system"] },
+      { strict: true },
+    );
+    let caught: unknown;
+    try {
+      strict.parse(3);
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toBeInstanceOf(ConstraintViolationError);
+    expect((caught as ConstraintViolationError).flags).toEqual([
+      "light",
+      "dark",
+    ]);
+    expect(strict.parse(9).toArray()).toEqual(["light", "compact"]);
+  });
+
+  test("throws DuplicateFlagsError for a group name that is already declared", () => {
+    expect(() => atMostOne.exclusive({ theme: ["compact"] })).toThrow(
+      DuplicateFlagsError,
+    );
+  });
+
+  test("throws UnknownFlagError or NotPositiveError for bad members", () => {
+    expect(() => themes.exclusive({ bad: ["ghost" as "light"] })).toThrow(
+      UnknownFlagError,
+    );
+    expect(() => themes.exclusive({ none: [] })).toThrow(NotPositiveError);
+  });
+});
+
+describe("NumberFlagRegistry#annotate()", () => {
+  const annotated = registry
+    .compose({ editor: ["read", "write"] })
+    .annotate({
+      read: { description: "Read access", category: "access" },
+      admin: { deprecated: true, replacement: "execute" },
+      editor: { description: "Read and write" },
+    });
+
+  test("describe() returns the metadata of a flag or composite", () => {
+    expect(annotated.describe("read")).toEqual({
+      description: "Read access",
+      category: "access",
+    });
+    expect(annotated.describe("editor").description).toBe("Read and write");
+  });
+
+  test("describe() returns an empty object for a flag without metadata", () => {
+    expect(annotated.describe("write")).toEqual({});
+  });
+
+  test("describe() throws UnknownFlagError for an unregistered name", () => {
+    expect(() => annotated.describe("ghost" as Perms)).toThrow(
+      UnknownFlagError,
+    );
+  });
+
+  test("metadata() lists every flag, then every composite", () => {
+    expect(annotated.metadata().map(([key]) => key)).toEqual([
+      "read",
+      "write",
+      "execute",
+      "admin",
+      "editor",
+    ]);
+  });
+
+  test("merges metadata declared twice for the same name", () => {
+    const merged = annotated.annotate({ read: { category: "core" } });
+    expect(merged.describe("read")).toEqual({
+      description: "Read access",
+      category: "core",
+    });
+  });
+
+  test("of() reports deprecated names only when a handler is set", () => {
+    const calls: string[] = [];
+    expect(annotated.onDeprecated).toBeNull();
+    expect(() => annotated.of("admin")).not.toThrow();
+
+    const watched = annotated.annotate(
+      {},
+      { onDeprecated: (name) => calls.push(name) },
+    );
+    watched.of("read", "admin");
+    expect(calls).toEqual(["admin"]);
+  });
+
+  test("compose(), imply() and exclusive() do not report their own names", () => {
+    // input: admin is deprecated and used in every declaration
+    const calls: string[] = [];
+    const watched = annotated
+      .annotate({}, { onDeprecated: (name) => calls.push(name) })
+      .compose({ all: ["read", "admin"] })
+      .imply({ admin: ["read"] })
+      .exclusive({ role: ["write", "admin"] });
+    expect(calls).toEqual([]);
+
+    watched.of("admin");
+    expect(calls).toEqual(["admin"]);
+  });
+
+  test("throws UnknownFlagError for an unregistered name or replacement", () => {
+    expect(() => registry.annotate({ ghost: {} } as never)).toThrow(
+      UnknownFlagError,
+    );
+    expect(() =>
+      registry.annotate({ admin: { replacement: "ghost" as Perms } }),
+    ).toThrow(UnknownFlagError);
+  });
+});
+
+describe("NumberFlagRegistry reserved and retired bits", () => {
+  // bits: a=1, b=8, c=32 (1, 2 retired; 4 reserved)
+  const options = { retired: [1, 2], reserved: [4] };
+  const reserved = NumberFlagRegistry.from(options, "a", "b", "c");
+
+  test("from() skips reserved and retired positions", () => {
+    expect(reserved.values()).toEqual([1, 8, 32]);
+  });
+
+  test("from() without options still assigns consecutive bits", () => {
+    expect(NumberFlagRegistry.from("a", "b").values()).toEqual([1, 2]);
+  });
+
+  test("reserved() and retired() list positions in ascending order", () => {
+    expect(reserved.reserved()).toEqual([4]);
+    expect(NumberFlagRegistry.from({ retired: [9, 3] }, "a").retired()).toEqual(
+      [3, 9],
+    );
+  });
+
+  test("from() throws OverflowError when skipping pushes a flag past bit 30", () => {
+    // input: 30 retired positions, 2 names -> second name lands on bit 31
+    const retired = Array.from({ length: 30 }, (_, i) => i);
+    expect(() => NumberFlagRegistry.from({ retired }, "a", "b")).toThrow(
+      OverflowError,
+    );
+  });
+
+  test("define() rejects a flag placed on a retired bit", () => {
+    // input: b = 4 (bit 2), bit 2 retired
+    let caught: unknown;
+    try {
+      NumberFlagRegistry.define({ a: 1, b: 4 }, { retired: [2] });
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toBeInstanceOf(ReservedBitError);
+    expect((caught as ReservedBitError).flag).toBe("b");
+    expect((caught as ReservedBitError).position).toBe(2);
+  });
+
+  test("define() throws InvalidFlagError for a malformed position", () => {
+    expect(() => NumberFlagRegistry.define({ a: 1 }, { reserved: [-1] })).toThrow(
+      InvalidFlagError,
+    );
+  });
+
+  test("from() and define() reject positions past bit 30 with OverflowError", () => {
+    // input: positions 31 and 40 — 1 << 40 would wrap to bit 8
+    const names = ["a", "b", "c", "d", "e", "f", "g", "h", "i", "j"];
+
+    for (const position of [31, 40]) {
+      for (const kind of ["reserved", "retired"] as const) {
+        let caught: unknown;
+        try {
+          NumberFlagRegistry.from({ [kind]: [position] }, ...names);
+        } catch (e) {
+          caught = e;
+        }
+        expect(caught).toBeInstanceOf(OverflowError);
+        expect((caught as OverflowError).flag).toBe(kind);
+        expect((caught as OverflowError).value).toBe(position);
+
+        expect(() =>
+          NumberFlagRegistry.define({ a: 1 }, { [kind]: [position] }),
+        ).toThrow(OverflowError);
+      }
+    }
+  });
+
+  test("fromSchema() rejects a retired position past bit 30", () => {
+    expect(() =>
+      NumberFlagRegistry.fromSchema({
+        kind: "number",
+        flags: { a: "1" },
+        reserved: [],
+        retired: [40],
+      }),
+    ).toThrow(OverflowError);
+  });
+
+  test("bit 30 is a valid reserved position", () => {
+    expect(NumberFlagRegistry.from({ reserved: [30] }, "a").reserved()).toEqual(
+      [30],
+    );
+  });
+
+  test("extend() skips reserved bits and rejects explicit values on them", () => {
+    // input: extend("d") -> first free bit is 6
+    expect(reserved.extend("d").get("d")).toBe(64);
+    expect(() => reserved.extend({ d: 16 })).toThrow(ReservedBitError);
+  });
+
+  test("pack() rejects a field on a reserved bit", () => {
+    expect(() => reserved.pack({ x: { offset: 4, width: 1 } })).toThrow(
+      ReservedBitError,
+    );
+  });
+
+  test("parse() rejects retired bits by default", () => {
+    // input: a + bit 1
+    expect(() => reserved.parse(3)).toThrow(UnknownBitsError);
+  });
+
+  test("parse() drops retired bits with ignoreRetired", () => {
+    // input: a + bit 1 + bit 2 -> a; reserved bit 4 is still rejected
+    const lenient = NumberFlagRegistry.from(
+      { ...options, ignoreRetired: true },
+      "a",
+      "b",
+      "c",
+    );
+    expect(lenient.parse(7).bits).toBe(1);
+    expect(() => lenient.parse(17)).toThrow(UnknownBitsError);
+  });
+
+  test("parse() option ignoreRetired overrides the registry setting", () => {
+    // input: a + bit 1 -> a when ignored, UnknownBitsError otherwise
+    const lenient = NumberFlagRegistry.from(
+      { ...options, ignoreRetired: true },
+      "a",
+      "b",
+      "c",
+    );
+    expect(reserved.parse(3, { ignoreRetired: true }).bits).toBe(1);
+    expect(() => lenient.parse(3, { ignoreRetired: false })).toThrow(
+      UnknownBitsError,
+    );
+    expect(lenient.parse(3, {}).bits).toBe(1);
+  });
+
+  test("settings are inherited by derived registries", () => {
+    const lenient = NumberFlagRegistry.from({ retired: [0], ignoreRetired: true }, "a");
+    const v2 = lenient.compose({ all: ["a"] });
+    expect(v2.retired()).toEqual([0]);
+    expect(v2.parse(3).bits).toBe(2);
+  });
+});
+
+describe("NumberFlagRegistry#toSchema() and fromSchema()", () => {
+  const layout = NumberFlagRegistry.from(
+    { reserved: [4], retired: [1] },
+    "read",
+    "write",
+    "execute",
+  );
+
+  test("toSchema() records kind, flags and reserved and retired bits", () => {
+    // input: read=1, write=4, execute=8, reserved 4, retired 1
+    expect(layout.toSchema()).toEqual({
+      kind: "number",
+      flags: { read: "1", write: "4", execute: "8" },
+      reserved: [4],
+      retired: [1],
+    });
+  });
+
+  test("fromSchema() rebuilds an equivalent registry", () => {
+    // input: schema through JSON -> same entries, reserved and fingerprint
+    const schema = JSON.parse(JSON.stringify(layout.toSchema())) as ReturnType<
+      typeof layout.toSchema
+    >;
+    const copy = NumberFlagRegistry.fromSchema(schema);
+    expect(copy.entries()).toEqual(layout.entries());
+    expect(copy.reserved()).toEqual([4]);
+    expect(copy.retired()).toEqual([1]);
+    expect(copy.fingerprint).toBe(layout.fingerprint);
+  });
+
+  test("fromSchema() fails like define() for bad values", () => {
+    // input: duplicate bit, non power of two, above 2^30, on a retired bit
+    const schema = (flags: Record<string, string>, retired: number[] = []) => ({
+      kind: "number" as const,
+      flags,
+      reserved: [],
+      retired,
+    });
+    expect(() =>
+      NumberFlagRegistry.fromSchema(schema({ a: "2", b: "2" })),
+    ).toThrow(DuplicateError);
+    expect(() => NumberFlagRegistry.fromSchema(schema({ a: "3" }))).toThrow(
+      NotPowerOfTwoError,
+    );
+    expect(() =>
+      NumberFlagRegistry.fromSchema(schema({ a: String(2 ** 31) })),
+    ).toThrow(OverflowError);
+    expect(() =>
+      NumberFlagRegistry.fromSchema(schema({ a: "2" }, [1])),
+    ).toThrow(ReservedBitError);
+  });
+
+  test("fromSchema() throws InvalidSchemaError for a malformed schema", () => {
+    // input: wrong kind, non-decimal value, flags missing
+    const base = layout.toSchema();
+    expect(() =>
+      NumberFlagRegistry.fromSchema({ ...base, kind: "bigint" }),
+    ).toThrow(InvalidSchemaError);
+    expect(() =>
+      NumberFlagRegistry.fromSchema({ ...base, flags: { read: "0x1" } }),
+    ).toThrow(InvalidSchemaError);
+    expect(() =>
+      NumberFlagRegistry.fromSchema({ kind: "number" } as never),
+    ).toThrow(InvalidSchemaError);
+  });
+});
+
+describe("NumberFlagRegistry#toBigInt() and toNumber()", () => {
+  const layout = NumberFlagRegistry.from(
+    { reserved: [4], retired: [1] },
+    "read",
+    "write",
+    "execute",
+  );
+
+  test("toBigInt() keeps names, positions and reserved and retired bits", () => {
+    // input: read=1, write=4, execute=8 -> 1n, 4n, 8n
+    const big = layout.toBigInt();
+    expect(big.entries()).toEqual([
+      ["read", 1n],
+      ["write", 4n],
+      ["execute", 8n],
+    ]);
+    expect(big.reserved()).toEqual([4]);
+    expect(big.retired()).toEqual([1]);
+    expect(big.fingerprint).toBe(layout.fingerprint);
+  });
+
+  test("toNumber() returns the same registry", () => {
+    expect(layout.toNumber()).toBe(layout);
+  });
+});
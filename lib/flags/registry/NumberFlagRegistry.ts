@@ -11,9 +11,17 @@ import {
 import { Repository } from "../repository";
 
 import { AbstractFlagRegistry } from "./AbstractFlagRegistry";
+import { BigIntFlagRegistry } from "./BigIntFlagRegistry";
 
 import type { Combinator } from "@/core";
-import type { FlagRegistry } from "../types";
+import type {
+  FieldDefinition,
+  FlagRegistry,
+  RegistryOptions,
+  RegistrySchema,
+} from "../types";
+
+import type { RegistryConfig } from "./types";
 
 const NUMBER_COMBINATOR = new NumberCombinator();
 
@@ -38,6 +46,13 @@ export class NumberFlagRegistry<
    */
   public readonly combinator: Combinator<number> = NUMBER_COMBINATOR;
 
+  /**
+   * The kind recorded by {@link toSchema}.
+   *
+   * @internal
+   */
+  protected readonly kind = "number";
+
   /**
    * The underlying read-only store that maps flag names to their bit values.
    */
@@ -48,6 +63,12 @@ export class NumberFlagRegistry<
       throw new ParseError(value);
     }
 
+    // Bit 31 and above do not survive the 32-bit operators of the
+    // combinator, so they are rejected before any unknown-bits policy runs.
+    if (value >= 2 * NumberFlagRegistry.MAX_SAFE_FLAG) {
+      throw new ParseError(value);
+    }
+
     return value;
   }
 
@@ -70,7 +91,8 @@ export class NumberFlagRegistry<
    *
    * @param value - A native bit value or its string representation.
    * @returns The parsed value as `TBit`.
-   * @throws {@link ParseError} if `value` cannot be converted to a valid non-negative `TBit`.
+   * @throws {@link ParseError} if `value` cannot be converted to a valid non-negative `TBit`,
+   *   or has a bit above bit 30.
    */
 
   protected coerce(value: number | string): number {
@@ -120,12 +142,93 @@ export class NumberFlagRegistry<
     }
   }
 
-  private constructor(flags: Map<TFlags, number>) {
-    super();
+  /**
+   * Asserts that a packed field definition is well formed and fits in the
+   * 31 bit positions a `NumberFlagRegistry` can use.
+   *
+   * @internal
+   *
+   * @param name - The field name.
+   * @param field - The field definition.
+   * @throws {@link InvalidFlagError} if the definition is malformed.
+   * @throws {@link OverflowError} if the field reaches past bit 30.
+   */
+  protected override validateField(name: string, field: FieldDefinition): void {
+    super.validateField(name, field);
+
+    const end = field.offset + field.width;
+
+    if (2 ** (end - 1) > NumberFlagRegistry.MAX_SAFE_FLAG) {
+      throw new OverflowError(
+        name,
+        end,
+        `Field "${name}" ends at bit ${String(end - 1)}, past the 31 bit positions of NumberFlagRegistry. Use BigIntFlagRegistry for wider layouts.`,
+      );
+    }
+  }
+
+  /**
+   * Converts the options of a static factory into registry settings, and
+   * asserts that every reserved and retired position is one of the 31 bit
+   * positions a `NumberFlagRegistry` can use. Past bit 30, `1 << position`
+   * wraps and would block an unrelated bit.
+   *
+   * @internal
+   *
+   * @param options - The options passed to `from()` or `define()`.
+   * @throws {@link InvalidFlagError} if a position is not a non-negative integer.
+   * @throws {@link OverflowError} if a position is past bit 30.
+   */
+  protected static override configFrom(
+    options: RegistryOptions,
+  ): Pick<RegistryConfig<number>, "reserved" | "retired" | "ignoreRetired"> {
+    const config = super.configFrom(options);
+
+    for (const kind of ["reserved", "retired"] as const) {
+      for (const position of config[kind]) {
+        if (2 ** position > NumberFlagRegistry.MAX_SAFE_FLAG) {
+          throw new OverflowError(
+            kind,
+            position,
+            `${kind === "reserved" ? "Reserved" : "Retired"} bit position ${String(position)} is past bit 30, the last position of NumberFlagRegistry. Use BigIntFlagRegistry for wider layouts.`,
+          );
+        }
+      }
+    }
+
+    return config;
+  }
+
+  /**
+   * Creates a registry of the same kind with the same single-bit flags and
+   * this registry as its parent.
+   *
+   * @internal
+   *
+   * @param config - The settings that differ from this registry's.
+   */
+  protected derive(
+    config: Partial<RegistryConfig<number>>,
+  ): FlagRegistry<string, number, string | symbol> {
+    return new NumberFlagRegistry(new Map<string, number>(this.entries()), this, config);
+  }
+
+  private constructor(
+    flags: Map<TFlags, number>,
+    parent: NumberFlagRegistry<string, string | symbol> | null = null,
+    config: Partial<RegistryConfig<number>> = {},
+  ) {
+    super(parent, config);
 
     this.validateFlags(flags);
 
-    this.repository = new Repository(flags);
+    this.repository = new Repository(
+      flags,
+      new Map(this.config.composites) as Map<TFlags, number>,
+    );
+
+    this.validateReserved();
+    this.validateFields();
   }
 
   /**
@@ -134,14 +237,24 @@ export class NumberFlagRegistry<
    * Use this factory when you need precise control over bit values — for example,
    * when values must match an external protocol, a database column, or a legacy enum.
    *
+   * A value with several bits set, each of them the value of another flag in
+   * `flags`, declares a composite of those flags, as {@link compose} does.
+   *
    * @param flags - A plain object whose keys are flag names and values are the
    *   `number` bit values to assign to each flag.
+   * @param options - Reserved and retired bit positions and composites; see
+   *   {@link RegistryOptions}.
    * @returns A new {@link FlagRegistry} typed to the given flag names and branded
    *   with `TBrand`.
    * @throws {@link NotPositiveError} if any value is `≤ 0`.
-   * @throws {@link OverflowError} if any value exceeds {@link MAX_SAFE_FLAG} (`2^30`).
+   * @throws {@link OverflowError} if any value exceeds {@link MAX_SAFE_FLAG} (`2^30`),
+   *   or a reserved or retired position is past bit 30.
    * @throws {@link DuplicateError} if two flags share the same bit value.
-   * @throws {@link NotPowerOfTwoError} if any value is not a power of two.
+   * @throws {@link NotPowerOfTwoError} if any value is not a power of two nor a
+   *   combination of other values.
+   * @throws {@link DuplicateFlagsError} if a composite name is used twice.
+   * @throws {@link UnknownFlagError} if a composite member is not in `flags`.
+   * @throws {@link ReservedBitError} if a flag is placed on a reserved or retired bit.
    *
    * @example
    * ```ts
@@ -154,12 +267,60 @@ export class NumberFlagRegistry<
    * registry.of("READ", "WRITE").bits; // 3
    * ```
    */
-  static define<TFlags extends string, TBrand extends string | symbol = symbol>(
+  static define<
+    TFlags extends string,
+    TBrand extends string | symbol = symbol,
+    TComposite extends string = never,
+  >(
     flags: Record<TFlags, number>,
-  ): FlagRegistry<TFlags, number, TBrand> {
-    const entries = Object.entries(flags) as [TFlags, number][];
+    options: RegistryOptions<NoInfer<TFlags>, TComposite> = {},
+  ): FlagRegistry<TFlags | TComposite, number, TBrand> {
+    const [map, composites] = this.splitComposites(flags);
 
-    return new this(new Map(entries));
+    return this.withComposites(
+      new this(map, null, this.configFrom(options)),
+      options,
+      composites,
+    ) as FlagRegistry<TFlags | TComposite, number, TBrand>;
+  }
+
+  /**
+   * Rebuilds a `NumberFlagRegistry` from a schema written by `toSchema()`.
+   *
+   * The flags go through the same validation as {@link define}, so a bad
+   * schema fails the same way a bad `define()` call does.
+   *
+   * @param schema - A schema of kind `"number"`; see {@link RegistrySchema}.
+   * @returns A new {@link FlagRegistry} with the same flags and reserved and
+   *   retired positions.
+   * @throws {@link InvalidSchemaError} if `schema` is malformed or of another kind.
+   * @throws {@link NotPositiveError} if any value is `0`.
+   * @throws {@link OverflowError} if any value exceeds {@link MAX_SAFE_FLAG} (`2^30`),
+   *   or a reserved or retired position is past bit 30.
+   * @throws {@link DuplicateError} if two flags share the same bit value.
+   * @throws {@link NotPowerOfTwoError} if any value is not a power of two.
+   * @throws {@link ReservedBitError} if a flag is placed on a reserved or retired bit.
+   *
+   * @example
+   * ```ts
+   * const schema = NumberFlagRegistry.from("READ", "WRITE").toSchema();
+   * const copy = NumberFlagRegistry.fromSchema(schema);
+   *
+   * copy.of("READ", "WRITE").bits; // 3
+   * ```
+   */
+  static fromSchema<
+    TFlags extends string,
+    TBrand extends string | symbol = symbol,
+  >(schema: RegistrySchema<TFlags>): FlagRegistry<TFlags, number, TBrand> {
+    const [flags, options] = this.readSchema(schema, "number");
+
+    return this.define(
+      Object.fromEntries(
+        [...flags].map(([name, value]) => [name, Number(value)]),
+      ) as Record<TFlags, number>,
+      options,
+    );
   }
 
   /**
@@ -188,15 +349,164 @@ export class NumberFlagRegistry<
    */
   static from<TFlags extends string, TBrand extends string | symbol = symbol>(
     ...flags: TFlags[]
-  ): FlagRegistry<TFlags, number, TBrand> {
+  ): FlagRegistry<TFlags, number, TBrand>;
+  /**
+   * Creates a `NumberFlagRegistry` from a list of flag names, auto-assigning
+   * the lowest bit positions that are neither reserved nor retired.
+   *
+   * @param options - Reserved and retired bit positions and composites; see
+   *   {@link RegistryOptions}.
+   * @param flags - Flag names in registration order. Each name must be unique.
+   * @returns A new {@link FlagRegistry} typed to the given flag names and branded
+   *   with `TBrand`.
+   * @throws {@link DuplicateFlagsError} if any name, flag or composite,
+   *   appears more than once.
+   * @throws {@link UnknownFlagError} if a composite member is not in `flags`.
+   * @throws {@link OverflowError} if a flag would be placed past {@link MAX_SAFE_FLAG},
+   *   or a reserved or retired position is past bit 30.
+   *
+   * @example
+   * ```ts
+   * const registry = NumberFlagRegistry.from({ retired: [1] }, "READ", "WRITE");
+   * // READ = bit 0, WRITE = bit 2
+   * ```
+   */
+  static from<
+    TFlags extends string,
+    TBrand extends string | symbol = symbol,
+    TComposite extends string = never,
+  >(
+    options: RegistryOptions<NoInfer<TFlags>, TComposite>,
+    ...flags: TFlags[]
+  ): FlagRegistry<TFlags | TComposite, number, TBrand>;
+  static from(
+    ...args: string[] | [RegistryOptions, ...string[]]
+  ): FlagRegistry<string, number, string | symbol> {
+    const [first] = args;
+
+    const options = typeof first === "object" ? first : {};
+    const flags = (typeof first === "object" ? args.slice(1) : args) as string[];
+
     if (this.hasDuplicates(flags)) {
       throw new DuplicateFlagsError(this.findDuplicates(flags));
     }
 
-    const map = flags.reduce((acc, current, i) => {
-      return acc.set(current, 2 ** i);
-    }, new Map<TFlags, number>());
+    const map = new Map(
+      this.assignPositions(flags, options).map(([flag, position]) => [
+        flag,
+        2 ** position,
+      ]),
+    );
 
-    return new this(map);
+    return this.withComposites(
+      new this(map, null, this.configFrom(options)),
+      options,
+    );
+  }
+
+  /**
+   * Creates a new registry that contains every flag of this one, at the same
+   * bit positions, plus the given names placed in the lowest free positions.
+   *
+   * @param flags - Names of the flags to add.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link DuplicateFlagsError} if a name repeats or is already registered.
+   * @throws {@link OverflowError} if every bit up to {@link MAX_SAFE_FLAG} is taken.
+   *
+   * @example
+   * ```ts
+   * const v1 = NumberFlagRegistry.define({ READ: 1, EXECUTE: 4 });
+   * const v2 = v1.extend("WRITE", "DELETE");
+   * // READ = 1, EXECUTE = 4, WRITE = 2, DELETE = 8
+   * ```
+   */
+  extend<TNew extends string, TNewBrand extends string | symbol = symbol>(
+    ...flags: TNew[]
+  ): FlagRegistry<TFlags | TNew, number, TNewBrand>;
+  /**
+   * Creates a new registry that contains every flag of this one, at the same
+   * bit positions, plus the given explicitly placed flags.
+   *
+   * @param flags - A plain object mapping new flag names to their bit values.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link DuplicateFlagsError} if a name is already registered.
+   * @throws {@link DuplicateError} if a value is already used by another flag.
+   * @throws {@link NotPositiveError} if any value is `≤ 0`.
+   * @throws {@link OverflowError} if any value exceeds {@link MAX_SAFE_FLAG} (`2^30`).
+   * @throws {@link NotPowerOfTwoError} if any value is not a power of two.
+   *
+   * @example
+   * ```ts
+   * const v2 = v1.extend({ AUDIT: 64 });
+   * ```
+   */
+  extend<TNew extends string, TNewBrand extends string | symbol = symbol>(
+    flags: Record<TNew, number>,
+  ): FlagRegistry<TFlags | TNew, number, TNewBrand>;
+  extend(
+    ...args: string[] | [Record<string, number>]
+  ): FlagRegistry<string, number, string | symbol> {
+    const [first] = args;
+
+    const map = new Map<string, number>(this.entries());
+
+    if (typeof first === "object") {
+      const entries = Object.entries(first);
+
+      this.assertNewNames(entries.map(([key]) => key));
+
+      return new NumberFlagRegistry(new Map([...map, ...entries]), this);
+    }
+
+    const names = args as string[];
+
+    this.assertNewNames(names);
+
+    let used = this.takenBits;
+    let i = 0;
+
+    for (const name of names) {
+      while (this.combinator.and(used, 2 ** i) !== 0) i++;
+
+      const bit = 2 ** i;
+
+      if (bit > NumberFlagRegistry.MAX_SAFE_FLAG) {
+        throw new OverflowError(
+          name,
+          bit,
+          `Cannot extend registry with flag "${name}": all 31 bit positions of NumberFlagRegistry are taken. Use BigIntFlagRegistry for more flags.`,
+        );
+      }
+
+      map.set(name, bit);
+      used = this.combinator.or(used, bit);
+    }
+
+    return new NumberFlagRegistry(map, this);
+  }
+
+  /**
+   * Creates a `BigIntFlagRegistry` with the same flag names at the same bit
+   * positions, and the same reserved and retired positions.
+   * Composites, packed fields, rules and metadata are not copied.
+   *
+   * @example
+   * ```ts
+   * const big = NumberFlagRegistry.from("READ", "WRITE").toBigInt();
+   * big.get("WRITE"); // 2n
+   * ```
+   */
+  toBigInt(): FlagRegistry<TFlags, bigint, TBrand> {
+    return BigIntFlagRegistry.fromSchema({
+      ...this.toSchema(),
+      kind: "bigint",
+    });
+  }
+
+  /**
+   * Returns this registry, which already uses `number` bits.
+   */
+  toNumber(): FlagRegistry<TFlags, number, TBrand> {
+    return this;
   }
 }
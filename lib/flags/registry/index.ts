@@ -1,2 +1,3 @@
 export { BigIntFlagRegistry } from "./BigIntFlagRegistry";
+export { BitsetFlagRegistry } from "./BitsetFlagRegistry";
 export { NumberFlagRegistry } from "./NumberFlagRegistry";
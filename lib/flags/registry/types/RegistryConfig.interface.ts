@@ -0,0 +1,50 @@
+import type { Bit } from "@/core";
+
+import type {
+  DeprecationHandler,
+  ExclusiveGroup,
+  FieldDefinition,
+  FlagMetadata,
+} from "../../types";
+
+/**
+ * Everything a registry carries besides its single-bit flags.
+ * A registry created with `extend()`, `compose()` or `pack()` starts from
+ * its parent's config and overrides only what changes.
+ *
+ * @internal
+ */
+export interface RegistryConfig<TBit extends Bit> {
+  /** Composite names mapped to their masks, inherited ones included. */
+  readonly composites: ReadonlyMap<string, TBit>;
+
+  /** Default of the `collapse` option of `toArray()`. */
+  readonly collapseComposites: boolean;
+
+  /** Packed fields by name, inherited ones included. */
+  readonly fields: ReadonlyMap<string, FieldDefinition>;
+
+  /** Names mapped to the names they imply, inherited rules included. */
+  readonly implications: ReadonlyMap<string, readonly string[]>;
+
+  /** Exclusive groups by name, inherited ones included. */
+  readonly groups: ReadonlyMap<string, ExclusiveGroup<string>>;
+
+  /** Whether flags that break a rule are rejected. */
+  readonly strict: boolean;
+
+  /** Metadata by flag or composite name, inherited entries included. */
+  readonly metadata: ReadonlyMap<string, FlagMetadata<string>>;
+
+  /** Called when a deprecated name is used, if set. */
+  readonly onDeprecated: DeprecationHandler | null;
+
+  /** Bit positions kept free for future flags. */
+  readonly reserved: ReadonlySet<number>;
+
+  /** Bit positions of removed flags. */
+  readonly retired: ReadonlySet<number>;
+
+  /** Whether `parse()` drops retired bits instead of rejecting them. */
+  readonly ignoreRetired: boolean;
+}
@@ -0,0 +1 @@
+export type { RegistryConfig } from "./RegistryConfig.interface";
@@ -1,5 +1,7 @@
 import { describe, expect, test } from "bun:test";
 
+import { Bitset } from "@/core";
+
 import { UnknownFlagError } from "../errors";
 import { Repository } from "./Repository";
 
@@ -172,4 +174,68 @@ describe("Repository", () => {
       expect(entry![1]).toBe(8);
     });
   });
+
+  describe("composites", () => {
+    const repo = new Repository<"r" | "w" | "rw", number>(
+      new Map([["r", 1], ["w", 2]]),
+      new Map([["rw", 3]]),
+    );
+
+    test("get() resolves a composite to its mask", () => {
+      // input: composite "rw" => 3 -> expected: 3
+      expect(repo.get("rw")).toBe(3);
+    });
+
+    test("has() and isComposite() recognise composites", () => {
+      // input: "rw" composite, "r" single flag
+      expect(repo.has("rw")).toBe(true);
+      expect(repo.isComposite("rw")).toBe(true);
+      expect(repo.isComposite("r")).toBe(false);
+    });
+
+    test("keys(), values() and entries() exclude composites", () => {
+      // expected: only single-bit flags listed
+      expect(repo.keys()).toEqual(["r", "w"]);
+      expect(repo.values()).toEqual([1, 2]);
+      expect(repo.entries()).toEqual([["r", 1], ["w", 2]]);
+    });
+
+    test("composites() lists composite entries", () => {
+      // expected: [["rw", 3]]
+      expect(repo.composites()).toEqual([["rw", 3]]);
+    });
+
+    test("composites() is empty by default", () => {
+      // input: repository without composites
+      const plain = new Repository<"a", number>(new Map([["a", 1]]));
+      expect(plain.composites()).toEqual([]);
+    });
+  });
+
+  describe("Bitset values", () => {
+    const repo = new Repository<"a" | "b" | "ab", Bitset>(
+      new Map([
+        ["a", Bitset.fromBigInt(1n)],
+        ["b", Bitset.fromBigInt(1n << 40n)],
+      ]),
+      new Map([["ab", Bitset.fromBigInt((1n << 40n) | 1n)]]),
+    );
+
+    test("get() returns a copy", () => {
+      // input: get("a")[0] = 0 -> expected: a is still 1
+      repo.get("a")[0] = 0;
+      expect(repo.get("a").toBigInt()).toBe(1n);
+    });
+
+    test("values(), entries() and composites() return copies", () => {
+      // input: first word of every returned value set to 0
+      repo.values()[0]![0] = 0;
+      repo.entries()[1]![1][1] = 0;
+      repo.composites()[0]![1][0] = 0;
+
+      expect(repo.get("a").toBigInt()).toBe(1n);
+      expect(repo.get("b").toBigInt()).toBe(1n << 40n);
+      expect(repo.get("ab").toBigInt()).toBe((1n << 40n) | 1n);
+    });
+  });
 });
@@ -1,3 +1,5 @@
+import { copyBits } from "@/core/utils";
+
 import { UnknownFlagError } from "../errors";
 
 import type { Bit } from "@/core";
@@ -8,17 +10,29 @@ import type { Bit } from "@/core";
  * It provides safe, typed access to registered flags and throws
  * {@link UnknownFlagError} when a requested flag does not exist.
  *
+ * Besides single-bit flags it can hold *composites* — names bound to the
+ * combined mask of several flags. `get()` and `has()` resolve both kinds,
+ * while `keys()`, `values()` and `entries()` list single-bit flags only.
+ *
+ * {@link Bitset} values are copied on the way out, so writing to a returned
+ * bitset does not change the repository.
+ *
  * @typeParam TBit - The numeric primitive used for bit values (`number` or `bigint`).
  */
 export class Repository<TFlags extends string, TBit extends Bit> {
   readonly #keys: readonly TFlags[];
   readonly #values: readonly TBit[];
   readonly #entries: ReadonlyArray<[TFlags, TBit]>;
+  readonly #composites: ReadonlyArray<[TFlags, TBit]>;
 
-  constructor(private flags: Map<TFlags, TBit>) {
+  constructor(
+    private flags: Map<TFlags, TBit>,
+    private compositeFlags: Map<TFlags, TBit> = new Map(),
+  ) {
     this.#keys = [...flags.keys()];
     this.#values = [...flags.values()];
     this.#entries = [...flags.entries()];
+    this.#composites = [...compositeFlags.entries()];
   }
 
   /**
@@ -37,11 +51,12 @@ export class Repository<TFlags extends string, TBit extends Bit> {
    */
   get(flag: string): TBit;
   get(flag: string): TBit {
-    const value = this.flags.get(flag as TFlags);
+    const value =
+      this.flags.get(flag as TFlags) ?? this.compositeFlags.get(flag as TFlags);
 
     if (value === undefined) throw new UnknownFlagError(flag);
 
-    return value;
+    return copyBits(value);
   }
 
   /**
@@ -57,7 +72,18 @@ export class Repository<TFlags extends string, TBit extends Bit> {
    */
   has(flag: string): boolean;
   has(flag: string): boolean {
-    return this.flags.has(flag as TFlags);
+    return (
+      this.flags.has(flag as TFlags) || this.compositeFlags.has(flag as TFlags)
+    );
+  }
+
+  /**
+   * Returns `true` if the given name is registered as a composite.
+   *
+   * @param flag - The name to look up.
+   */
+  isComposite(flag: string): boolean {
+    return this.compositeFlags.has(flag as TFlags);
   }
 
   /** Returns all registered flag names. */
@@ -67,11 +93,16 @@ export class Repository<TFlags extends string, TBit extends Bit> {
 
   /** Returns all registered bit values. */
   values(): TBit[] {
-    return this.#values.slice();
+    return this.#values.map(copyBits);
   }
 
   /** Returns all `[name, bit]` pairs for registered flags. */
   entries(): [TFlags, TBit][] {
-    return this.#entries.slice();
+    return this.#entries.map(([key, value]) => [key, copyBits(value)]);
+  }
+
+  /** Returns all `[name, mask]` pairs for registered composites. */
+  composites(): [TFlags, TBit][] {
+    return this.#composites.map(([key, value]) => [key, copyBits(value)]);
   }
 }
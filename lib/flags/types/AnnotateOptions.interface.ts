@@ -0,0 +1,21 @@
+import type { DeprecationHandler } from "./DeprecationHandler.type";
+
+export interface AnnotateOptions {
+  /**
+   * Called every time a deprecated name is passed to `of()` or to an
+   * operator. Inherited from the parent registry when omitted; no handler by
+   * default.
+   *
+   * @example
+   * ```ts
+   * const registry = base.annotate(
+   *   { VIEW: { deprecated: true, replacement: "READ" } },
+   *   {
+   *     onDeprecated: (name, { replacement }) =>
+   *       console.warn(`${name} is deprecated, use ${replacement}`),
+   *   },
+   * );
+   * ```
+   */
+  readonly onDeprecated?: DeprecationHandler;
+}
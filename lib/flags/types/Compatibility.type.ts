@@ -0,0 +1,12 @@
+/**
+ * How a registry change affects stored bit values, as reported by
+ * `compareRegistries()`:
+ *
+ * - `"compatible"` — the old and new registry read every value the same way.
+ * - `"forward-only"` — the new registry reads every old value, but the old
+ *   one may reject values written by the new one. Safe to deploy, not to
+ *   roll back.
+ * - `"breaking"` — some old value means something else, or is rejected, in
+ *   the new registry.
+ */
+export type Compatibility = "compatible" | "forward-only" | "breaking";
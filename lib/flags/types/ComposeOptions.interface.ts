@@ -0,0 +1,15 @@
+export interface ComposeOptions {
+  /**
+   * When `true`, `toArray()` and `alias` replace the members of every
+   * composite whose bits are all set with the composite's name.
+   * Inherited from the parent registry when omitted; `false` by default.
+   *
+   * @example
+   * ```ts
+   * const registry = base.compose({ ADMIN: ["READ", "WRITE"] }, { collapse: true });
+   *
+   * registry.of("READ", "WRITE").alias; // "ADMIN"
+   * ```
+   */
+  readonly collapse?: boolean;
+}
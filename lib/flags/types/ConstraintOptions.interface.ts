@@ -0,0 +1,16 @@
+export interface ConstraintOptions {
+  /**
+   * When `true`, `of()`, `parse()` and the `add`, `remove` and `toggle`
+   * operators throw `ConstraintViolationError` instead of returning a flag
+   * that breaks a rule. Inherited from the parent registry when omitted;
+   * `false` by default.
+   *
+   * @example
+   * ```ts
+   * const registry = base.imply({ WRITE: ["READ"] }, { strict: true });
+   *
+   * registry.of("WRITE"); // throws ConstraintViolationError
+   * ```
+   */
+  readonly strict?: boolean;
+}
@@ -0,0 +1,11 @@
+import type { GroupViolation } from "./GroupViolation.interface";
+import type { ImplicationViolation } from "./ImplicationViolation.interface";
+
+/**
+ * A rule of the registry that a flag breaks. Returned by
+ * `FlagRegistry.validate()` and carried by `ConstraintViolationError`;
+ * narrow on `kind` to tell the rules apart.
+ */
+export type ConstraintViolation<TFlags extends string> =
+  | ImplicationViolation<TFlags>
+  | GroupViolation<TFlags>;
@@ -0,0 +1,12 @@
+import type { FlagMetadata } from "./FlagMetadata.interface";
+
+/**
+ * Called when a deprecated flag name is used. See `AnnotateOptions.onDeprecated`.
+ *
+ * @param name - The deprecated name.
+ * @param metadata - The metadata of `name`, including its `replacement`.
+ */
+export type DeprecationHandler = (
+  name: string,
+  metadata: FlagMetadata<string>,
+) => void;
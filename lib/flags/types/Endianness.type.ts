@@ -0,0 +1,5 @@
+/**
+ * Byte order used by `toBytes()` and `registry.fromBytes()`: `"big"` puts the
+ * most significant byte first (network order), `"little"` puts it last.
+ */
+export type Endianness = "big" | "little";
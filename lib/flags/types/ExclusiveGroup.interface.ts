@@ -0,0 +1,14 @@
+/**
+ * A group of flags of which at most one (or exactly one) may be set.
+ * See `FlagRegistry.exclusive()`.
+ */
+export interface ExclusiveGroup<TFlags extends string> {
+  /** The flags of the group, in declaration order. */
+  readonly members: readonly TFlags[];
+
+  /** Whether no member may be set (`"atMostOne"`) or one must be (`"exactlyOne"`). */
+  readonly mode: "atMostOne" | "exactlyOne";
+
+  /** Whether the `add` operator clears the other members of the group. */
+  readonly replace: boolean;
+}
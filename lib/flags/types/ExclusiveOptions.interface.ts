@@ -0,0 +1,23 @@
+import type { ConstraintOptions } from "./ConstraintOptions.interface";
+
+export interface ExclusiveOptions extends ConstraintOptions {
+  /**
+   * `"atMostOne"` allows no member or one member to be set; `"exactlyOne"`
+   * requires one member to be set. `"atMostOne"` by default.
+   */
+  readonly mode?: "atMostOne" | "exactlyOne";
+
+  /**
+   * When `true`, adding a member with the `add` operator clears the other
+   * members of its group, like selecting a radio button. Adding a composite
+   * that contains a member does the same. `false` by default.
+   *
+   * @example
+   * ```ts
+   * const registry = base.exclusive({ theme: ["LIGHT", "DARK"] }, { replace: true });
+   *
+   * add(registry.of("LIGHT"), "DARK").toArray(); // ["DARK"]
+   * ```
+   */
+  readonly replace?: boolean;
+}
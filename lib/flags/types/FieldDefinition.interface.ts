@@ -0,0 +1,17 @@
+/**
+ * Position of a multi-bit field packed into a flag value.
+ * See `FlagRegistry.pack()`.
+ *
+ * @example
+ * ```ts
+ * // bits 4..6 hold a value from 0 to 7
+ * const priority: FieldDefinition = { offset: 4, width: 3 };
+ * ```
+ */
+export interface FieldDefinition {
+  /** Position of the field's lowest bit. */
+  readonly offset: number;
+
+  /** Number of bits in the field, from `1` to `53`. */
+  readonly width: number;
+}
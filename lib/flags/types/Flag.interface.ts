@@ -1,8 +1,11 @@
+import type { Bit } from "@/core";
+
 import type { FlagRegistry } from "./Registry.interface";
+import type { ToArrayOptions } from "./ToArrayOptions.interface";
 
 export interface Flag<
   TFlags extends string,
-  TBit extends bigint | number,
+  TBit extends Bit,
   TBrand extends string | symbol = symbol,
 > {
   /**
@@ -45,7 +48,9 @@ export interface Flag<
 
   /**
    * Human-readable label for the active flags, formed by joining their names
-   * with `"+"`. Returns `"EMPTY_FLAG"` when no flags are set.
+   * with `"+"`. Returns `"EMPTY_FLAG"` exactly when {@link isEmpty} is `true`.
+   * Composites are collapsed when the registry's `collapseComposites` is
+   * enabled.
    *
    * @example
    * ```ts
@@ -56,7 +61,9 @@ export interface Flag<
   readonly alias: string;
 
   /**
-   * The number of flags that are currently set (i.e. the popcount of {@link bits}).
+   * The number of registered flags that are currently set (i.e. the popcount
+   * of {@link bits} within `registry.fullBits`). Bits of packed fields and
+   * unknown bits kept by `parse()` are not counted.
    *
    * @example
    * ```ts
@@ -82,7 +89,9 @@ export interface Flag<
   readonly registry: FlagRegistry<TFlags, TBit, TBrand>;
 
   /**
-   * Returns `true` when no flags are set (i.e. {@link bits} equals zero).
+   * Returns `true` when no registered flag is set. Bits of packed fields and
+   * unknown bits kept by `parse()` are ignored, like in {@link size} and
+   * {@link alias}.
    *
    * @example
    * ```ts
@@ -104,16 +113,23 @@ export interface Flag<
   /**
    * Returns an array of the names of all active flags in registration order.
    *
+   * With `collapse`, fully set composites come first (largest first) and
+   * replace their members.
+   *
+   * @param options - See {@link ToArrayOptions}.
+   *
    * @example
    * ```ts
    * flag.toArray(); // ["READ", "WRITE"]
+   * flag.toArray({ collapse: true }); // ["EDITOR"]
    * ```
    */
-  toArray(): TFlags[];
+  toArray(options?: ToArrayOptions): TFlags[];
 
   /**
    * Returns a record mapping every registered flag name to a boolean indicating
-   * whether it is currently set.
+   * whether it is currently set. Composites are included and are `true` only
+   * when all of their bits are set.
    *
    * @example
    * ```ts
@@ -145,7 +161,8 @@ export interface Flag<
   toJSON(): string;
 
   /**
-   * Returns `true` if the specified flag is currently set.
+   * Returns `true` if the specified flag is currently set. For a composite,
+   * returns `true` only if all of its bits are set.
    *
    * @param flag - The flag name to test.
    *
@@ -0,0 +1,38 @@
+/**
+ * Turns the bytes of a flag into text and back. Used by `encode()` and
+ * `registry.decode()`; the built-in codecs are `base64url`, `base32` and
+ * `base36`.
+ *
+ * Implement it to plug in another text encoding.
+ *
+ * @example
+ * ```ts
+ * const hex: FlagCodec = {
+ *   name: "hex",
+ *   encode: (bytes) => Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join(""),
+ *   decode: (text) => {
+ *     if (!/^(?:[0-9a-f]{2})+$/.test(text)) throw new ParseError(text);
+ *     return Uint8Array.from(text.match(/../g)!, (pair) => parseInt(pair, 16));
+ *   },
+ * };
+ * ```
+ */
+export interface FlagCodec {
+  /** A short name for the encoding, e.g. `"base64url"`. */
+  readonly name: string;
+
+  /**
+   * Encodes big-endian bytes as text.
+   *
+   * @param bytes - The bytes written by `toBytes()`.
+   */
+  encode(bytes: Uint8Array): string;
+
+  /**
+   * Decodes text produced by {@link encode} back into big-endian bytes.
+   *
+   * @param text - The encoded value.
+   * @throws {@link ParseError} if `text` is not a valid encoding.
+   */
+  decode(text: string): Uint8Array;
+}
@@ -0,0 +1,22 @@
+/**
+ * The versioned JSON form of a flag written by `toEnvelope()` and read by
+ * `registry.fromJSON()`.
+ *
+ * @example
+ * ```json
+ * { "v": 1, "schema": "27a593b1910524e7", "bits": "5", "names": ["READ", "EXECUTE"] }
+ * ```
+ */
+export interface FlagEnvelope {
+  /** Format version. Always `1`. */
+  readonly v: 1;
+
+  /** The fingerprint of the registry that wrote the envelope. */
+  readonly schema: string;
+
+  /** The bits as a decimal string, the same as `flag.toJSON()`. */
+  readonly bits: string;
+
+  /** The names of the flags that are set, in registry order. */
+  readonly names: readonly string[];
+}
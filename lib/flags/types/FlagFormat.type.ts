@@ -0,0 +1,8 @@
+/**
+ * A serialized shape of a flag:
+ *
+ * - `"bits"` — the decimal string of `flag.toJSON()`, e.g. `"5"`.
+ * - `"names"` — an array of flag names, e.g. `["READ", "EXECUTE"]`.
+ * - `"object"` — a record of booleans shaped like `flag.toObject()`.
+ */
+export type FlagFormat = "bits" | "names" | "object";
@@ -0,0 +1,26 @@
+/**
+ * Descriptive information attached to a flag with `FlagRegistry.annotate()`.
+ *
+ * @example
+ * ```ts
+ * const metadata: FlagMetadata<"READ" | "VIEW"> = {
+ *   description: "Legacy read access",
+ *   category: "access",
+ *   deprecated: true,
+ *   replacement: "READ",
+ * };
+ * ```
+ */
+export interface FlagMetadata<TFlags extends string> {
+  /** Human-readable description of the flag. */
+  readonly description?: string;
+
+  /** Free-form category used to group flags, e.g. in an admin UI. */
+  readonly category?: string;
+
+  /** Whether the flag should no longer be used. */
+  readonly deprecated?: boolean;
+
+  /** The flag to use instead of a deprecated one. */
+  readonly replacement?: TFlags;
+}
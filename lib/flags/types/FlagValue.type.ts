@@ -0,0 +1,8 @@
+import type { Bit, Bitset } from "@/core";
+
+/**
+ * The value type used to assign an explicit bit to a flag (as in `define()`
+ * or `extend({ ... })`): the registry's own bit type for `number` and
+ * `bigint` registries, and a `bigint` for `Bitset` registries.
+ */
+export type FlagValue<TBit extends Bit> = TBit extends Bitset ? bigint : TBit;
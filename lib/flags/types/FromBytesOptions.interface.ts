@@ -0,0 +1,7 @@
+import type { Endianness } from "./Endianness.type";
+import type { ParseOptions } from "./ParseOptions.interface";
+
+export interface FromBytesOptions extends ParseOptions {
+  /** Byte order the bytes were written in. Defaults to `"big"`. */
+  readonly endian?: Endianness;
+}
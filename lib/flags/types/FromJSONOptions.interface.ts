@@ -0,0 +1,13 @@
+import type { ParseOptions } from "./ParseOptions.interface";
+
+export interface FromJSONOptions extends ParseOptions {
+  /**
+   * What to do when the envelope was written by a registry with another
+   * fingerprint:
+   *
+   * - `"throw"` — throw `SchemaMismatchError` (the default).
+   * - `"rebuild"` — ignore `bits` and build the flag from `names`, which
+   *   throws `UnknownFlagError` if a name no longer exists.
+   */
+  readonly onMismatch?: "throw" | "rebuild";
+}
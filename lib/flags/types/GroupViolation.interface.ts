@@ -0,0 +1,22 @@
+/**
+ * An exclusive group (see `FlagRegistry.exclusive()`) that a flag breaks.
+ *
+ * @example
+ * ```ts
+ * // group: theme, at most one of LIGHT, DARK; flag: LIGHT + DARK
+ * { kind: "atMostOne", group: "theme", members: ["LIGHT", "DARK"], set: ["LIGHT", "DARK"] }
+ * ```
+ */
+export interface GroupViolation<TFlags extends string> {
+  /** The mode of the broken group. */
+  readonly kind: "atMostOne" | "exactlyOne";
+
+  /** The group name. */
+  readonly group: string;
+
+  /** Every member of the group. */
+  readonly members: readonly TFlags[];
+
+  /** The members that are set in the checked flag. */
+  readonly set: readonly TFlags[];
+}
@@ -0,0 +1,22 @@
+/**
+ * An implication rule (see `FlagRegistry.imply()`) that a flag breaks.
+ *
+ * @example
+ * ```ts
+ * // rule: WRITE implies READ; flag: WRITE only
+ * { kind: "implies", flag: "WRITE", requires: ["READ"], missing: ["READ"] }
+ * ```
+ */
+export interface ImplicationViolation<TFlags extends string> {
+  /** The kind of rule that is broken. */
+  readonly kind: "implies";
+
+  /** The flag the rule is declared on. It is set in the checked flag. */
+  readonly flag: TFlags;
+
+  /** Every name the rule requires. */
+  readonly requires: readonly TFlags[];
+
+  /** The required names that are not set. */
+  readonly missing: readonly TFlags[];
+}
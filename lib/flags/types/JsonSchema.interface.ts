@@ -0,0 +1,14 @@
+/**
+ * The subset of JSON Schema keywords that `toJsonSchema()` emits. The result
+ * is plain JSON, valid in JSON Schema 2020-12 and in OpenAPI 3.1.
+ */
+export interface JsonSchema {
+  readonly type?: "string" | "boolean" | "array" | "object";
+  readonly pattern?: string;
+  readonly enum?: readonly string[];
+  readonly items?: JsonSchema;
+  readonly uniqueItems?: boolean;
+  readonly properties?: Readonly<Record<string, JsonSchema>>;
+  readonly required?: readonly string[];
+  readonly additionalProperties?: boolean;
+}
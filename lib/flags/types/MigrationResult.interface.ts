@@ -0,0 +1,21 @@
+import type { Bit } from "@/core";
+
+import type { Flag } from "./Flag.interface";
+import type { MigrationStep } from "./MigrationStep.interface";
+
+/** The outcome of `Migration.run()`. */
+export interface MigrationResult<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+> {
+  /** The migrated flag, in the target registry. */
+  readonly flag: Flag<TFlags, TBit, TBrand>;
+
+  /**
+   * The declared mappings that matched a set flag, in declaration order and,
+   * for chained migrations, in stage order. Flags carried over under the
+   * same name are not listed.
+   */
+  readonly fired: readonly MigrationStep[];
+}
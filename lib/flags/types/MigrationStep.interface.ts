@@ -0,0 +1,19 @@
+/**
+ * One mapping declared on a `MigrationBuilder`, as reported by
+ * `Migration.run()` when it fires.
+ *
+ * @example
+ * ```ts
+ * { kind: "split", from: ["RW"], to: ["READ", "WRITE"] }
+ * ```
+ */
+export interface MigrationStep {
+  /** Which builder method declared the mapping. */
+  readonly kind: "rename" | "split" | "merge" | "drop";
+
+  /** Names in the source registry. */
+  readonly from: readonly string[];
+
+  /** Names in the target registry; empty for `"drop"`. */
+  readonly to: readonly string[];
+}
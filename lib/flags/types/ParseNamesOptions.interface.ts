@@ -0,0 +1,12 @@
+export interface ParseNamesOptions {
+  /**
+   * When `true`, names match regardless of case. A name that matches a
+   * registered flag exactly is always preferred. Defaults to `false`.
+   *
+   * @example
+   * ```ts
+   * registry.parseNames("read+write", { caseInsensitive: true }); // READ + WRITE
+   * ```
+   */
+  readonly caseInsensitive?: boolean;
+}
@@ -0,0 +1,29 @@
+import type { UnknownBitsPolicy } from "./UnknownBitsPolicy.type";
+
+export interface ParseOptions {
+  /**
+   * What to do with bits that no flag owns. `"throw"` by default.
+   * See {@link UnknownBitsPolicy}.
+   *
+   * @example
+   * ```ts
+   * // a value written by a newer version with an extra bit 8
+   * registry.parse(9, { unknownBits: "strip" }).bits; // 1
+   * registry.parse(9, { unknownBits: "keep" }).bits;  // 9
+   * ```
+   */
+  readonly unknownBits?: UnknownBitsPolicy;
+
+  /**
+   * When `true`, retired bits are dropped before the unknown-bits policy
+   * runs; when `false`, they are treated like any other unknown bit.
+   * Defaults to the registry's own `ignoreRetired` setting.
+   *
+   * @example
+   * ```ts
+   * // bit 1 is retired
+   * registry.parse(3, { ignoreRetired: true }).bits; // 1
+   * ```
+   */
+  readonly ignoreRetired?: boolean;
+}
@@ -1,8 +1,30 @@
 import type { Bit, Combinator } from "@/core";
 
+import type { FlagBuilder } from "../builder";
+import type { PackedFlagRegistry } from "../packed";
 import type { Repository } from "../repository";
 
+import type { AnnotateOptions } from "./AnnotateOptions.interface";
+import type { ComposeOptions } from "./ComposeOptions.interface";
+import type { ConstraintOptions } from "./ConstraintOptions.interface";
+import type { ConstraintViolation } from "./ConstraintViolation.type";
+import type { DeprecationHandler } from "./DeprecationHandler.type";
+import type { ExclusiveGroup } from "./ExclusiveGroup.interface";
+import type { ExclusiveOptions } from "./ExclusiveOptions.interface";
+import type { FieldDefinition } from "./FieldDefinition.interface";
 import type { Flag } from "./Flag.interface";
+import type { FlagCodec } from "./FlagCodec.interface";
+import type { FlagEnvelope } from "./FlagEnvelope.interface";
+import type { FlagFormat } from "./FlagFormat.type";
+import type { FlagMetadata } from "./FlagMetadata.interface";
+import type { FlagValue } from "./FlagValue.type";
+import type { FromBytesOptions } from "./FromBytesOptions.interface";
+import type { FromJSONOptions } from "./FromJSONOptions.interface";
+import type { ParseNamesOptions } from "./ParseNamesOptions.interface";
+import type { ParseOptions } from "./ParseOptions.interface";
+import type { RegistrySchema } from "./RegistrySchema.interface";
+import type { SerializedFlag } from "./SerializedFlag.type";
+import type { StandardSchemaV1 } from "./StandardSchemaV1.interface";
 
 export interface FlagRegistry<
   TFlags extends string,
@@ -39,6 +61,18 @@ export interface FlagRegistry<
    */
   readonly fullBits: TBit;
 
+  /**
+   * A short, stable hash of {@link entries}: which name owns which bit.
+   * Stored by `toEnvelope()` so that `fromJSON()` can tell when a value was
+   * written by a different layout.
+   *
+   * @example
+   * ```ts
+   * registry.fingerprint; // "27a593b1910524e7"
+   * ```
+   */
+  readonly fingerprint: string;
+
   /**
    * The bitwise combinator used internally to perform AND, OR, NOT, and other
    * operations on values of type `TBit`.
@@ -50,6 +84,36 @@ export interface FlagRegistry<
    */
   readonly repository: Repository<TFlags, TBit>;
 
+  /**
+   * Whether `toArray()` and `alias` collapse fully set composites into their
+   * names by default. See {@link compose}.
+   */
+  readonly collapseComposites: boolean;
+
+  /**
+   * Whether flags that break a rule declared with `imply()` are rejected.
+   * See {@link ConstraintOptions.strict}.
+   */
+  readonly strict: boolean;
+
+  /**
+   * Called when a deprecated name is passed to `of()` or to an operator, or
+   * `null` when no handler is set. See {@link AnnotateOptions.onDeprecated}.
+   */
+  readonly onDeprecated: DeprecationHandler | null;
+
+  /**
+   * A bitmask with every bit that `parse()` accepts without an unknown-bits
+   * policy: the bits of the flags and of the packed fields.
+   *
+   * @example
+   * ```ts
+   * // READ=1, WRITE=2, plus a 2-bit field at offset 4
+   * registry.knownBits; // 0b110011 = 51
+   * ```
+   */
+  readonly knownBits: TBit;
+
   /**
    * @deprecated Do not pass radix parameter. Use prefixes (`0b`, `0o` or `0x`) or `parseInt` explicitly instead
    */
@@ -62,19 +126,149 @@ export interface FlagRegistry<
    * `"0x"` for hexadecimal, or a plain decimal string.
    *
    * @param value - The bit value or string representation to parse.
+   * @param options - See {@link ParseOptions}.
    * @returns A {@link Flag} whose {@link Flag.bits} equal the parsed value.
    * @throws {@link ParseError} if `value` cannot be converted to `TBit`.
    * @throws {@link UnknownBitsError} if the parsed value contains bits not
-   *   present in any registered flag.
+   *   present in any registered flag and `options.unknownBits` is `"throw"`.
+   * @throws {@link ConstraintViolationError} if the registry is strict and the
+   *   value breaks one of its rules.
    *
    * @example
    * ```ts
    * registry.parse(3);      // Flag with bits 3
    * registry.parse("0b11"); // Flag with bits 3
    * registry.parse("0x3");  // Flag with bits 3
+   * registry.parse(19, { unknownBits: "strip" }); // Flag with bits 3
    * ```
    */
-  parse(value: TBit | string): Flag<TFlags, TBit, TBrand>;
+  parse(
+    value: TBit | string,
+    options?: ParseOptions,
+  ): Flag<TFlags, TBit, TBrand>;
+
+  /**
+   * Parses a string of flag names — the format of {@link Flag.alias} and
+   * `Flag.toString()` — into a {@link Flag}.
+   *
+   * Names may be separated by `+`, `|`, `,` or whitespace. Composite names
+   * are expanded, `EMPTY_FLAG` stands for no flags, and the whole
+   * `Flag([READ+WRITE]: 3)` form is accepted with its bit value ignored.
+   *
+   * @param input - The names to parse.
+   * @param options - See {@link ParseNamesOptions}.
+   * @returns A {@link Flag} with every named flag set.
+   * @throws {@link ParseError} if `input` contains no names.
+   * @throws {@link UnknownFlagError} if a name is not registered; its
+   *   `position` is the index of the name in `input`.
+   * @throws {@link ConstraintViolationError} if the registry is strict and the
+   *   result breaks one of its rules.
+   *
+   * @example
+   * ```ts
+   * registry.parseNames("READ+WRITE");             // READ + WRITE
+   * registry.parseNames("READ | WRITE, EXECUTE");  // READ + WRITE + EXECUTE
+   * registry.parseNames("Flag([READ+WRITE]: 3)");  // READ + WRITE
+   * registry.parseNames("EMPTY_FLAG").isEmpty();   // true
+   * registry.parseNames("read", { caseInsensitive: true }); // READ
+   * ```
+   */
+  parseNames(
+    input: string,
+    options?: ParseNamesOptions,
+  ): Flag<TFlags, TBit, TBrand>;
+
+  /**
+   * Decodes bytes written by `toBytes()` into a {@link Flag}.
+   *
+   * The bytes are read as one unsigned integer of any length and then go
+   * through the same validation as {@link parse}.
+   *
+   * @param bytes - The encoded value.
+   * @param options - Byte order and unknown-bits policy; see
+   *   {@link FromBytesOptions}.
+   * @returns A {@link Flag} whose {@link Flag.bits} equal the decoded value.
+   * @throws {@link UnknownBitsError} if the value contains bits not present in
+   *   any registered flag and `options.unknownBits` is `"throw"`.
+   * @throws {@link ConstraintViolationError} if the registry is strict and the
+   *   value breaks one of its rules.
+   *
+   * @example
+   * ```ts
+   * registry.fromBytes(new Uint8Array([0x00, 0x03])); // Flag with bits 3
+   * registry.fromBytes(new Uint8Array([0x03, 0x00]), { endian: "little" }); // Flag with bits 3
+   * ```
+   */
+  fromBytes(
+    bytes: Uint8Array,
+    options?: FromBytesOptions,
+  ): Flag<TFlags, TBit, TBrand>;
+
+  /**
+   * Decodes text written by `encode()` with the same codec into a
+   * {@link Flag}.
+   *
+   * The decoded bytes go through the same validation as {@link fromBytes}.
+   * Only the text `encode()` writes is accepted: text with leading zero bytes
+   * beyond the width of `toBytes()`, or with too few bytes, is rejected, so
+   * every flag has exactly one encoding.
+   *
+   * @param text - The encoded value.
+   * @param codec - The text encoding, e.g. `base64url`, `base32` or `base36`.
+   * @param options - See {@link ParseOptions}.
+   * @returns A {@link Flag} whose {@link Flag.bits} equal the decoded value.
+   * @throws {@link ParseError} if `text` is not valid for `codec`, or is not
+   *   the text `encode()` writes for its value.
+   * @throws {@link UnknownBitsError} if the value contains bits not present in
+   *   any registered flag and `options.unknownBits` is `"throw"`.
+   * @throws {@link ConstraintViolationError} if the registry is strict and the
+   *   value breaks one of its rules.
+   *
+   * @example
+   * ```ts
+   * registry.decode("Aw", base64url); // Flag with bits 3
+   * registry.decode("AAAD", base64url); // throws ParseError — leading zeros
+   * registry.decode("3", base36);     // Flag with bits 3
+   * ```
+   */
+  decode(
+    text: string,
+    codec: FlagCodec,
+    options?: ParseOptions,
+  ): Flag<TFlags, TBit, TBrand>;
+
+  /**
+   * Reads a flag back from its JSON form: an envelope written by
+   * `toEnvelope()`, or the bare bit string written by `flag.toJSON()`.
+   *
+   * A bit string and an envelope with this registry's {@link fingerprint}
+   * are read with {@link parse}. An envelope written by another layout
+   * throws, or is rebuilt from its names when `options.onMismatch` is
+   * `"rebuild"`.
+   *
+   * @param json - A {@link FlagEnvelope} or a bit string.
+   * @param options - See {@link FromJSONOptions}.
+   * @returns The decoded {@link Flag}.
+   * @throws {@link ParseError} if `json` is neither an envelope nor a valid
+   *   bit string.
+   * @throws {@link SchemaMismatchError} if the envelope's fingerprint differs
+   *   and `options.onMismatch` is `"throw"`.
+   * @throws {@link UnknownFlagError} if the flag is rebuilt from names and one
+   *   of them is not registered.
+   * @throws {@link UnknownBitsError} if the bits contain bits not present in
+   *   any registered flag and `options.unknownBits` is `"throw"`.
+   *
+   * @example
+   * ```ts
+   * registry.fromJSON(toEnvelope(registry.of("READ"))); // Flag([READ]: 1)
+   * registry.fromJSON("5");                              // Flag([READ+EXECUTE]: 5)
+   * registry.fromJSON(oldEnvelope, { onMismatch: "rebuild" });
+   * ```
+   */
+  fromJSON(
+    json: FlagEnvelope | string,
+    options?: FromJSONOptions,
+  ): Flag<TFlags, TBit, TBrand>;
 
   /**
    * Returns a {@link Flag} with no flags set (bits equal to zero).
@@ -114,6 +308,27 @@ export interface FlagRegistry<
    */
   of(...flags: TFlags[]): Flag<TFlags, TBit, TBrand>;
 
+  /**
+   * Returns a {@link FlagBuilder} that collects bits in place and creates a
+   * single flag when `build()` is called, instead of one flag per step.
+   *
+   * @param initial - A flag of this registry or of one of its ancestors to
+   *   start from. Defaults to no flags.
+   * @returns A new {@link FlagBuilder}.
+   * @throws {@link UnrelatedRegistryError} if `initial` belongs to an unrelated
+   *   registry.
+   *
+   * @example
+   * ```ts
+   * const builder = registry.builder();
+   * for (const row of rows) builder.setIf(row.canWrite, "WRITE");
+   * builder.build(); // Flag([WRITE]: 2) if any row can write
+   * ```
+   */
+  builder(
+    initial?: Flag<string, TBit, string | symbol>,
+  ): FlagBuilder<TFlags, TBit, TBrand>;
+
   /**
    * Returns the raw bit value assigned to the given flag name.
    * Same as `registry.repository.get()`
@@ -161,4 +376,382 @@ export interface FlagRegistry<
    * ```
    */
   entries(): [TFlags, TBit][];
+
+  /**
+   * Creates a new registry that contains every flag of this one, at the same
+   * bit positions, plus the given names. New flags are placed in the lowest
+   * bit positions not used by this registry.
+   *
+   * Values stored with this registry keep their meaning in the new one; use
+   * {@link lift} to move a {@link Flag} across.
+   *
+   * @param flags - Names of the flags to add.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link DuplicateFlagsError} if a name repeats or is already registered.
+   * @throws {@link OverflowError} if a `number` registry has no free bit left.
+   *
+   * @example
+   * ```ts
+   * const v1 = NumberFlagRegistry.from("READ", "WRITE");
+   * const v2 = v1.extend("DELETE");
+   *
+   * v2.get("WRITE");  // 2 — unchanged
+   * v2.get("DELETE"); // 4
+   * ```
+   */
+  extend<TNew extends string, TNewBrand extends string | symbol = symbol>(
+    ...flags: TNew[]
+  ): FlagRegistry<TFlags | TNew, TBit, TNewBrand>;
+
+  /**
+   * Creates a new registry that contains every flag of this one, at the same
+   * bit positions, plus the given explicitly placed flags.
+   *
+   * @param flags - A plain object mapping new flag names to their bit values.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link DuplicateFlagsError} if a name is already registered.
+   * @throws {@link DuplicateError} if a value is already used by another flag.
+   * @throws {@link NotPositiveError} if any value is not positive.
+   * @throws {@link NotPowerOfTwoError} if any value is not a power of two.
+   * @throws {@link OverflowError} if a `number` value exceeds the safe range.
+   *
+   * @example
+   * ```ts
+   * const v2 = v1.extend({ AUDIT: 64 });
+   * ```
+   */
+  extend<TNew extends string, TNewBrand extends string | symbol = symbol>(
+    flags: Record<TNew, FlagValue<TBit>>,
+  ): FlagRegistry<TFlags | TNew, TBit, TNewBrand>;
+
+  /**
+   * Re-creates a {@link Flag} of a registry this one extends (directly or
+   * through a chain of {@link extend} calls) as a flag of this registry.
+   * The bits are kept as they are.
+   *
+   * @param flag - A flag of this registry or of one of its ancestors.
+   * @returns A {@link Flag} of this registry with the same bits.
+   * @throws {@link UnrelatedRegistryError} if `flag` belongs to a registry
+   *   this one does not extend.
+   *
+   * @example
+   * ```ts
+   * const stored = v1.of("READ");
+   * const lifted = v2.lift(stored); // Flag of v2 with READ set
+   * ```
+   */
+  lift(flag: Flag<string, TBit, string | symbol>): Flag<TFlags, TBit, TBrand>;
+
+  /**
+   * Creates a new registry with the same flags plus named composites — names
+   * bound to the combination of several registered flags.
+   *
+   * Composite names work wherever a flag name does (`of()`, `has()`, `add`,
+   * `remove`, `hasAll`, ...); `has()` returns `true` only when all of the
+   * composite's bits are set. Composites do not own bits: they are not part of
+   * `fullBits`, `keys()`, `values()` or `entries()`.
+   *
+   * @param composites - A plain object mapping composite names to the flag
+   *   names they combine.
+   * @param options - See {@link ComposeOptions}.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link DuplicateFlagsError} if a composite name is already registered.
+   * @throws {@link UnknownFlagError} if a member is not registered.
+   * @throws {@link NotPositiveError} if a composite has no members.
+   *
+   * @example
+   * ```ts
+   * const registry = NumberFlagRegistry.from("READ", "WRITE", "DELETE").compose({
+   *   ADMIN: ["READ", "WRITE", "DELETE"],
+   * });
+   *
+   * registry.of("ADMIN").bits;         // 7
+   * registry.of("READ").has("ADMIN");  // false
+   * ```
+   */
+  compose<
+    TComposite extends string,
+    TNewBrand extends string | symbol = symbol,
+  >(
+    composites: Record<TComposite, readonly TFlags[]>,
+    options?: ComposeOptions,
+  ): FlagRegistry<TFlags | TComposite, TBit, TNewBrand>;
+
+  /**
+   * Creates a registry with the same flags plus multi-bit fields — small
+   * unsigned integers stored in bits no flag uses — and returns it wrapped in
+   * a {@link PackedFlagRegistry} that reads and writes the fields.
+   *
+   * `parse()` of the new registry accepts bits of the fields as well as bits
+   * of the flags.
+   *
+   * @param fields - A plain object mapping field names to their position.
+   * @returns A {@link PackedFlagRegistry} whose `registry` extends this one.
+   * @throws {@link DuplicateFlagsError} if a field name is already registered.
+   * @throws {@link InvalidFlagError} if a field definition is malformed.
+   * @throws {@link OverlappingFieldError} if a field overlaps a flag or another field.
+   * @throws {@link OverflowError} if a field does not fit a `NumberFlagRegistry`.
+   *
+   * @example
+   * ```ts
+   * const packed = NumberFlagRegistry.from("ENCRYPTED", "COMPRESSED").pack({
+   *   priority: { offset: 2, width: 3 },
+   * });
+   *
+   * const flag = packed.set(packed.registry.of("ENCRYPTED"), "priority", 5);
+   * packed.get(flag, "priority"); // 5
+   * ```
+   */
+  pack<TFields extends string, TNewBrand extends string | symbol = symbol>(
+    fields: Record<TFields, FieldDefinition>,
+  ): PackedFlagRegistry<TFlags, TFields, TBit, TNewBrand>;
+
+  /**
+   * Creates a new registry with the same flags plus implication rules: when
+   * a flag is set, every flag it implies must be set too.
+   *
+   * Rules are checked by `validate()` and applied by the `closure`
+   * operator; with `strict: true` the registry rejects flags that break them.
+   * Rules for a name that already has rules are merged.
+   *
+   * @param rules - A plain object mapping flag (or composite) names to the
+   *   names they imply.
+   * @param options - See {@link ConstraintOptions}.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link UnknownFlagError} if a name is not registered.
+   *
+   * @example
+   * ```ts
+   * const registry = NumberFlagRegistry.from("READ", "WRITE", "ADMIN").imply(
+   *   { WRITE: ["READ"], ADMIN: ["READ", "WRITE"] },
+   *   { strict: true },
+   * );
+   *
+   * registry.of("WRITE"); // throws ConstraintViolationError
+   * ```
+   */
+  imply<TNewBrand extends string | symbol = symbol>(
+    rules: Partial<Record<TFlags, readonly TFlags[]>>,
+    options?: ConstraintOptions,
+  ): FlagRegistry<TFlags, TBit, TNewBrand>;
+
+  /**
+   * Returns every implication rule as a `[name, implied]` pair in
+   * declaration order.
+   *
+   * @example
+   * ```ts
+   * registry.implications(); // [["WRITE", ["READ"]]]
+   * ```
+   */
+  implications(): [TFlags, TFlags[]][];
+
+  /**
+   * Creates a new registry with the same flags plus exclusive groups — sets
+   * of flags of which at most one (or exactly one) may be set, like radio
+   * buttons.
+   *
+   * Groups are checked by `validate()`; with `strict: true` the registry
+   * rejects flags that break them, including in `parse()`. With
+   * `replace: true` the `add` operator clears the other members of a group.
+   *
+   * @param groups - A plain object mapping group names to their members.
+   * @param options - See {@link ExclusiveOptions}.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link DuplicateFlagsError} if a group name is already declared.
+   * @throws {@link UnknownFlagError} if a member is not registered.
+   * @throws {@link NotPositiveError} if a group has no members.
+   *
+   * @example
+   * ```ts
+   * const registry = NumberFlagRegistry.from("LIGHT", "DARK", "SYSTEM").exclusive(
+   *   { theme: ["LIGHT", "DARK", "SYSTEM"] },
+   *   { mode: "exactlyOne", replace: true },
+   * );
+   *
+   * add(registry.of("LIGHT"), "DARK").toArray(); // ["DARK"]
+   * ```
+   */
+  exclusive<TNewBrand extends string | symbol = symbol>(
+    groups: Record<string, readonly TFlags[]>,
+    options?: ExclusiveOptions,
+  ): FlagRegistry<TFlags, TBit, TNewBrand>;
+
+  /**
+   * Returns every exclusive group as a `[name, group]` pair in declaration order.
+   *
+   * @example
+   * ```ts
+   * registry.groups();
+   * // [["theme", { members: ["LIGHT", "DARK"], mode: "atMostOne", replace: false }]]
+   * ```
+   */
+  groups(): [string, ExclusiveGroup<TFlags>][];
+
+  /**
+   * Returns the rules `flag` breaks: for every set name that implies others,
+   * the implied names that are not set, then every exclusive group with too
+   * many (or no required) members set.
+   *
+   * @param flag - The flag to check.
+   * @returns The violated rules in declaration order; empty when `flag` is valid.
+   *
+   * @example
+   * ```ts
+   * registry.validate(registry.of("WRITE"));
+   * // [{ kind: "implies", flag: "WRITE", requires: ["READ"], missing: ["READ"] }]
+   * ```
+   */
+  validate(flag: Flag<TFlags, TBit, TBrand>): ConstraintViolation<TFlags>[];
+
+  /**
+   * Creates a new registry with the same flags plus metadata — a
+   * description, a category and a deprecation marker — for some of them.
+   * Metadata for a name that already has some is merged.
+   *
+   * @param metadata - A plain object mapping flag (or composite) names to
+   *   their metadata.
+   * @param options - See {@link AnnotateOptions}.
+   * @returns A new {@link FlagRegistry} that extends this one.
+   * @throws {@link UnknownFlagError} if a name or a `replacement` is not registered.
+   *
+   * @example
+   * ```ts
+   * const registry = NumberFlagRegistry.from("READ", "VIEW").annotate({
+   *   READ: { description: "Read access", category: "access" },
+   *   VIEW: { deprecated: true, replacement: "READ" },
+   * });
+   * ```
+   */
+  annotate<TNewBrand extends string | symbol = symbol>(
+    metadata: Partial<Record<TFlags, FlagMetadata<TFlags>>>,
+    options?: AnnotateOptions,
+  ): FlagRegistry<TFlags, TBit, TNewBrand>;
+
+  /**
+   * Returns the metadata of a flag or composite; an empty object when it has none.
+   *
+   * @param name - A registered flag or composite name.
+   * @throws {@link UnknownFlagError} if `name` is not registered.
+   *
+   * @example
+   * ```ts
+   * registry.describe("VIEW"); // { deprecated: true, replacement: "READ" }
+   * ```
+   */
+  describe(name: TFlags): FlagMetadata<TFlags>;
+
+  /**
+   * Returns a `[name, metadata]` pair for every flag, in registration order,
+   * followed by every composite.
+   *
+   * @example
+   * ```ts
+   * registry.metadata(); // [["READ", { description: "Read access" }], ["VIEW", {}]]
+   * ```
+   */
+  metadata(): [TFlags, FlagMetadata<TFlags>][];
+
+  /**
+   * Returns the reserved bit positions in ascending order.
+   * See `RegistryOptions.reserved`.
+   *
+   * @example
+   * ```ts
+   * NumberFlagRegistry.from({ reserved: [5, 2] }, "READ").reserved(); // [2, 5]
+   * ```
+   */
+  reserved(): number[];
+
+  /**
+   * Returns the retired bit positions in ascending order.
+   * See `RegistryOptions.retired`.
+   *
+   * @example
+   * ```ts
+   * NumberFlagRegistry.from({ retired: [1] }, "READ").retired(); // [1]
+   * ```
+   */
+  retired(): number[];
+
+  /**
+   * Describes the layout of this registry — its kind, flags and reserved and
+   * retired positions — as a plain, JSON-safe object. Pass it to the static
+   * `fromSchema()` of the same registry class to rebuild an equivalent
+   * registry.
+   *
+   * @example
+   * ```ts
+   * NumberFlagRegistry.from({ reserved: [2] }, "READ", "WRITE").toSchema();
+   * // { kind: "number", flags: { READ: "1", WRITE: "2" }, reserved: [2], retired: [] }
+   * ```
+   */
+  toSchema(): RegistrySchema<TFlags>;
+
+  /**
+   * Creates a `BigIntFlagRegistry` with the same flag names at the same bit
+   * positions, and the same reserved and retired positions. Use it with
+   * `convert()` to move values across while both kinds are in use.
+   *
+   * Composites, packed fields, rules and metadata are not copied.
+   *
+   * @example
+   * ```ts
+   * const big = NumberFlagRegistry.from("READ", "WRITE").toBigInt();
+   * big.get("WRITE"); // 2n
+   * ```
+   */
+  toBigInt(): FlagRegistry<TFlags, bigint, TBrand>;
+
+  /**
+   * Creates a `NumberFlagRegistry` with the same flag names at the same bit
+   * positions, and the same reserved and retired positions.
+   *
+   * Composites, packed fields, rules and metadata are not copied.
+   *
+   * @throws {@link OverflowError} if a flag, a reserved position or a retired
+   *   position is above bit 30, which a `NumberFlagRegistry` cannot hold.
+   *   Such positions are not dropped, so the converted registry never
+   *   silently loses part of the layout.
+   *
+   * @example
+   * ```ts
+   * const small = BigIntFlagRegistry.from("READ", "WRITE").toNumber();
+   * small.get("WRITE"); // 2
+   * ```
+   */
+  toNumber(): FlagRegistry<TFlags, number, TBrand>;
+
+  /**
+   * Returns a [Standard Schema](https://standardschema.dev) v1 validator that
+   * reads a serialized flag of this registry, for validation libraries and
+   * frameworks that accept any Standard Schema.
+   *
+   * The `"bits"` format accepts numbers, `bigint`s and numeric strings, the
+   * `"names"` format arrays of names, and the `"object"` format records of
+   * booleans shaped like `toObject()`. Without a format, any of them is
+   * accepted. The output is a {@link Flag} of this registry.
+   *
+   * `ParseError`, `UnknownBitsError` and `ConstraintViolationError` become
+   * issues without a path; an unknown name becomes an issue whose `path` is
+   * its index or key.
+   *
+   * @param format - The accepted {@link FlagFormat}.
+   * @param options - Passed to {@link parse} for numeric values.
+   *
+   * @example
+   * ```ts
+   * const schema = registry.schema("names");
+   * schema["~standard"].validate(["READ", "WRITE"]); // { value: Flag([READ+WRITE]: 3) }
+   * schema["~standard"].validate(["READ", "OWNER"]);
+   * // { issues: [{ message: 'Flag "OWNER" at position 1 is not registered', path: [1] }] }
+   * ```
+   */
+  schema<TFormat extends FlagFormat = FlagFormat>(
+    format?: TFormat,
+    options?: ParseOptions,
+  ): StandardSchemaV1<
+    SerializedFlag<TFlags, TFormat>,
+    Flag<TFlags, TBit, TBrand>
+  >;
 }
@@ -0,0 +1,31 @@
+import type { Compatibility } from "./Compatibility.type";
+
+/**
+ * The differences between two registry layouts, returned by
+ * `compareRegistries()`. Bit values are decimal strings, as in a
+ * `RegistrySchema`.
+ */
+export interface RegistryDiff {
+  /** New names that are not the new name of a renamed flag. */
+  readonly added: readonly { readonly name: string; readonly bit: string }[];
+
+  /** Old names that are gone and were not renamed. */
+  readonly removed: readonly { readonly name: string; readonly bit: string }[];
+
+  /** Bits that kept their position under a new name. */
+  readonly renamed: readonly {
+    readonly from: string;
+    readonly to: string;
+    readonly bit: string;
+  }[];
+
+  /** Names that kept their name on a new bit. */
+  readonly moved: readonly {
+    readonly name: string;
+    readonly from: string;
+    readonly to: string;
+  }[];
+
+  /** What the change means for stored values; see {@link Compatibility}. */
+  readonly compatibility: Compatibility;
+}
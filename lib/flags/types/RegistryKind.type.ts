@@ -0,0 +1,2 @@
+/** The bit type of a registry, as recorded in a {@link RegistrySchema}. */
+export type RegistryKind = "number" | "bigint" | "bitset";
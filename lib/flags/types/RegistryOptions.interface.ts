@@ -0,0 +1,49 @@
+/**
+ * Options accepted by the static `from()` and `define()` factories.
+ *
+ * Bits are given as zero-based positions (`3` is the bit with value `8`), so
+ * the same options work for every registry kind.
+ *
+ * @example
+ * ```ts
+ * // bit 1 belonged to a removed flag; bit 5 is kept for a future one
+ * const registry = NumberFlagRegistry.from(
+ *   { retired: [1], reserved: [5], ignoreRetired: true },
+ *   "READ", "WRITE", "EXECUTE",
+ * );
+ * // READ = bit 0, WRITE = bit 2, EXECUTE = bit 3
+ * ```
+ */
+export interface RegistryOptions<
+  TFlags extends string = string,
+  TComposite extends string = string,
+> {
+  /** Positions kept free for future flags. No flag may be placed on them. */
+  readonly reserved?: readonly number[];
+
+  /**
+   * Positions of removed flags. No flag may be placed on them, because
+   * stored values may still have them set.
+   */
+  readonly retired?: readonly number[];
+
+  /**
+   * When `true`, `parse()` drops retired bits instead of throwing
+   * `UnknownBitsError`. A single call can override it with the
+   * `ignoreRetired` parse option. Inherited by registries created from this
+   * one; `false` by default.
+   */
+  readonly ignoreRetired?: boolean;
+
+  /**
+   * Composites to declare with the flags, mapping composite names to the
+   * flag names they combine. Works like `compose()` on the new registry.
+   */
+  readonly composites?: Readonly<Record<TComposite, readonly TFlags[]>>;
+
+  /**
+   * Whether `toArray()` and `alias` collapse fully set composites into their
+   * names by default. See `ComposeOptions.collapse`; `false` by default.
+   */
+  readonly collapseComposites?: boolean;
+}
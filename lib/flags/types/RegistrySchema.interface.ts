@@ -0,0 +1,35 @@
+import type { RegistryKind } from "./RegistryKind.type";
+
+/**
+ * A plain, JSON-safe description of a registry's layout, returned by
+ * `registry.toSchema()` and accepted by the static `fromSchema()` factories.
+ *
+ * Only the layout is recorded: composites, packed fields, rules and metadata
+ * are not.
+ *
+ * @example
+ * ```json
+ * {
+ *   "kind": "number",
+ *   "flags": { "READ": "1", "WRITE": "2", "EXECUTE": "8" },
+ *   "reserved": [4],
+ *   "retired": [2]
+ * }
+ * ```
+ */
+export interface RegistrySchema<TFlags extends string = string> {
+  /** Which registry class the schema belongs to. */
+  readonly kind: RegistryKind;
+
+  /**
+   * Every flag name with its bit value as a decimal string, in registration
+   * order. Strings keep `bigint` values JSON-safe.
+   */
+  readonly flags: Readonly<Record<TFlags, string>>;
+
+  /** Reserved bit positions, in ascending order. */
+  readonly reserved: readonly number[];
+
+  /** Retired bit positions, in ascending order. */
+  readonly retired: readonly number[];
+}
@@ -0,0 +1,55 @@
+import type { Bit } from "@/core";
+
+import type { Flag } from "./Flag.interface";
+import type { SearchParamsStyle } from "./SearchParamsStyle.type";
+
+/**
+ * Writes flags of one registry into `URLSearchParams` under one key, and
+ * reads them back. Created with `searchParamsCodec()`.
+ */
+export interface SearchParamsCodec<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol = symbol,
+> {
+  /** The query parameter the flag is stored under. */
+  readonly key: string;
+
+  /** How {@link write} formats the flag. */
+  readonly style: SearchParamsStyle;
+
+  /**
+   * Replaces every entry of {@link key} in `params` with `flag`. A flag
+   * with nothing to write removes the key.
+   *
+   * The name styles list the set flags only; use the `"bits"` style to keep
+   * opaque bits and packed fields.
+   *
+   * @param params - The parameters to update in place.
+   * @param flag - A flag of the codec's registry or of one of its ancestors.
+   * @returns `params`, for chaining.
+   * @throws {@link UnrelatedRegistryError} if `flag` belongs to another registry.
+   */
+  write(
+    params: URLSearchParams,
+    flag: Flag<string, TBit, string | symbol>,
+  ): URLSearchParams;
+
+  /**
+   * Reads the flag stored under {@link key}. Entries may use any
+   * {@link SearchParamsStyle}, and are combined with OR; a missing key
+   * reads as the empty flag.
+   *
+   * @param params - The parameters to read.
+   * @returns A {@link Flag} of the codec's registry.
+   * @throws {@link UnknownFlagError} if a name is not registered, unless the
+   *   codec is lenient.
+   * @throws {@link ParseError} if a numeric value is malformed.
+   * @throws {@link UnknownBitsError} if a numeric value has unknown bits and
+   *   `unknownBits` is `"throw"`.
+   * @throws {@link ConstraintViolationError} if the registry is strict and the
+   *   combined flag breaks one of its rules. Entries are not checked one by
+   *   one.
+   */
+  read(params: URLSearchParams): Flag<TFlags, TBit, TBrand>;
+}
@@ -0,0 +1,24 @@
+import type { ParseNamesOptions } from "./ParseNamesOptions.interface";
+import type { ParseOptions } from "./ParseOptions.interface";
+import type { SearchParamsStyle } from "./SearchParamsStyle.type";
+
+export interface SearchParamsOptions extends ParseOptions, ParseNamesOptions {
+  /**
+   * How flags are written. Defaults to `"repeat"`.
+   * See {@link SearchParamsStyle}.
+   */
+  readonly style?: SearchParamsStyle;
+
+  /**
+   * When `true`, names that are not registered are skipped instead of
+   * throwing `UnknownFlagError`, so a stale or hand-edited link still opens.
+   * Numeric values follow {@link ParseOptions.unknownBits}. Defaults to `false`.
+   *
+   * @example
+   * ```ts
+   * const codec = searchParamsCodec(registry, "perm", { lenient: true });
+   * codec.read(new URLSearchParams("perm=READ&perm=OLD")); // READ
+   * ```
+   */
+  readonly lenient?: boolean;
+}
@@ -0,0 +1,10 @@
+/**
+ * How a {@link SearchParamsCodec} writes a flag into a query string:
+ *
+ * - `"repeat"` — one entry per name: `?perm=READ&perm=WRITE` (the default).
+ * - `"comma"` — a single entry of comma-joined names: `?perm=READ,WRITE`.
+ * - `"bits"` — a single entry with the decimal bits: `?perm=3`.
+ *
+ * Every style is read back whatever style the codec writes.
+ */
+export type SearchParamsStyle = "repeat" | "comma" | "bits";
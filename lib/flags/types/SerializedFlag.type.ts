@@ -0,0 +1,24 @@
+import type { FlagFormat } from "./FlagFormat.type";
+
+/**
+ * The values accepted for a flag in each {@link FlagFormat}:
+ *
+ * - `"bits"` — a number, a `bigint` or a numeric string, as read by `parse()`.
+ * - `"names"` — an array of flag names.
+ * - `"object"` — a record of booleans, as written by `toObject()`. Missing
+ *   names read as `false`.
+ *
+ * @example
+ * ```ts
+ * const a: SerializedFlag<"READ" | "WRITE", "names"> = ["READ"];
+ * const b: SerializedFlag<"READ" | "WRITE"> = { READ: true };
+ * ```
+ */
+export type SerializedFlag<
+  TFlags extends string,
+  TFormat extends FlagFormat = FlagFormat,
+> = {
+  bits: number | bigint | string;
+  names: readonly TFlags[];
+  object: Partial<Record<TFlags, boolean>>;
+}[TFormat];
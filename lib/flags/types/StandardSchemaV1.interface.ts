@@ -0,0 +1,37 @@
+import type { StandardSchemaV1Result } from "./StandardSchemaV1Result.type";
+
+/**
+ * The vendor-neutral [Standard Schema](https://standardschema.dev) v1
+ * interface, copied from the specification so the package has no runtime
+ * or type dependency on it. Validation libraries and frameworks that accept
+ * a Standard Schema accept `registry.schema()`.
+ *
+ * @typeParam Input - The type the schema accepts.
+ * @typeParam Output - The type a successful validation produces.
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": {
+    /** The version of the specification. */
+    readonly version: 1;
+
+    /** The library that created the schema. */
+    readonly vendor: string;
+
+    /**
+     * Validates an unknown value.
+     *
+     * @param value - The value to validate.
+     * @returns The output value, or the issues that were found.
+     */
+    readonly validate: (
+      value: unknown,
+    ) =>
+      | StandardSchemaV1Result<Output>
+      | Promise<StandardSchemaV1Result<Output>>;
+
+    /** The input and output types, for type inference only. */
+    readonly types?:
+      | { readonly input: Input; readonly output: Output }
+      | undefined;
+  };
+}
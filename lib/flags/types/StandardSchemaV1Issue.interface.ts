@@ -0,0 +1,13 @@
+/**
+ * One problem found by a {@link StandardSchemaV1} validation.
+ */
+export interface StandardSchemaV1Issue {
+  /** A description of the problem. */
+  readonly message: string;
+
+  /**
+   * Where the problem is: an array index or an object key. Absent when the
+   * value as a whole is invalid.
+   */
+  readonly path?: readonly PropertyKey[] | undefined;
+}
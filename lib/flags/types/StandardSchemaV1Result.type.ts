@@ -0,0 +1,9 @@
+import type { StandardSchemaV1Issue } from "./StandardSchemaV1Issue.interface";
+
+/**
+ * The result of a {@link StandardSchemaV1} validation: the output value, or
+ * the issues that were found.
+ */
+export type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: readonly StandardSchemaV1Issue[] };
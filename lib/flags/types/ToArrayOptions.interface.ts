@@ -0,0 +1,8 @@
+export interface ToArrayOptions {
+  /**
+   * When `true`, the members of every composite whose bits are all set are
+   * replaced with the composite's name. Defaults to the registry's
+   * `collapseComposites` setting.
+   */
+  readonly collapse?: boolean;
+}
@@ -0,0 +1,13 @@
+import type { Endianness } from "./Endianness.type";
+
+export interface ToBytesOptions {
+  /**
+   * Number of bytes to write. Defaults to the fewest bytes that hold the
+   * registry's highest bit (flags and packed fields), or the flag's own
+   * highest bit if that is higher.
+   */
+  readonly width?: number;
+
+  /** Byte order. Defaults to `"big"`. */
+  readonly endian?: Endianness;
+}
@@ -0,0 +1,6 @@
+import type { FlagFormat } from "./FlagFormat.type";
+
+export interface ToJsonSchemaOptions {
+  /** The shape to describe. Defaults to `"bits"`. See {@link FlagFormat}. */
+  readonly format?: FlagFormat;
+}
@@ -0,0 +1,11 @@
+/**
+ * What `parse()` does with bits that no flag or packed field owns:
+ *
+ * - `"throw"` — reject the value with `UnknownBitsError` (the default).
+ * - `"strip"` — drop the unknown bits.
+ * - `"keep"` — keep them in {@link Flag.bits} as opaque bits. They survive
+ *   `add`, `remove`, `toggle`, `complement`, `toJSON()` and `toString()`,
+ *   but are never listed by `toArray()`, `alias` or `toObject()`, and do not
+ *   count for `has()` or `isFull()`.
+ */
+export type UnknownBitsPolicy = "throw" | "strip" | "keep";
@@ -1,2 +1,41 @@
+export type { AnnotateOptions } from "./AnnotateOptions.interface";
+export type { ComposeOptions } from "./ComposeOptions.interface";
+export type { Compatibility } from "./Compatibility.type";
+export type { ConstraintOptions } from "./ConstraintOptions.interface";
+export type { ConstraintViolation } from "./ConstraintViolation.type";
+export type { DeprecationHandler } from "./DeprecationHandler.type";
+export type { Endianness } from "./Endianness.type";
+export type { ExclusiveGroup } from "./ExclusiveGroup.interface";
+export type { ExclusiveOptions } from "./ExclusiveOptions.interface";
+export type { FieldDefinition } from "./FieldDefinition.interface";
 export type { Flag } from "./Flag.interface";
+export type { FlagCodec } from "./FlagCodec.interface";
+export type { FlagEnvelope } from "./FlagEnvelope.interface";
+export type { FlagFormat } from "./FlagFormat.type";
+export type { FlagMetadata } from "./FlagMetadata.interface";
+export type { FlagValue } from "./FlagValue.type";
+export type { FromBytesOptions } from "./FromBytesOptions.interface";
+export type { FromJSONOptions } from "./FromJSONOptions.interface";
+export type { GroupViolation } from "./GroupViolation.interface";
+export type { ImplicationViolation } from "./ImplicationViolation.interface";
+export type { JsonSchema } from "./JsonSchema.interface";
+export type { MigrationResult } from "./MigrationResult.interface";
+export type { MigrationStep } from "./MigrationStep.interface";
+export type { ParseNamesOptions } from "./ParseNamesOptions.interface";
+export type { ParseOptions } from "./ParseOptions.interface";
 export type { FlagRegistry } from "./Registry.interface";
+export type { RegistryDiff } from "./RegistryDiff.interface";
+export type { RegistryKind } from "./RegistryKind.type";
+export type { RegistryOptions } from "./RegistryOptions.interface";
+export type { RegistrySchema } from "./RegistrySchema.interface";
+export type { SearchParamsCodec } from "./SearchParamsCodec.interface";
+export type { SearchParamsOptions } from "./SearchParamsOptions.interface";
+export type { SearchParamsStyle } from "./SearchParamsStyle.type";
+export type { SerializedFlag } from "./SerializedFlag.type";
+export type { StandardSchemaV1 } from "./StandardSchemaV1.interface";
+export type { StandardSchemaV1Issue } from "./StandardSchemaV1Issue.interface";
+export type { StandardSchemaV1Result } from "./StandardSchemaV1Result.type";
+export type { ToArrayOptions } from "./ToArrayOptions.interface";
+export type { ToBytesOptions } from "./ToBytesOptions.interface";
+export type { ToJsonSchemaOptions } from "./ToJsonSchemaOptions.interface";
+export type { UnknownBitsPolicy } from "./UnknownBitsPolicy.type";
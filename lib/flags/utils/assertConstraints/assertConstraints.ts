@@ -0,0 +1,38 @@
+import { ConstraintViolationError } from "@/flags/errors";
+
+import type { Bit } from "@/core";
+
+import type { Flag } from "@/flags/types";
+
+/**
+ * Asserts that `flag` breaks none of its registry's rules when the registry
+ * is strict. Does nothing for a registry that is not strict.
+ *
+ * @typeParam TFlags - The union of registered flag names.
+ * @typeParam TBit - The numeric type of the bit values (`number` or `bigint`).
+ * @typeParam TBrand - The registry's brand.
+ * @param flag - The flag to check.
+ * @returns `flag`, so the call can wrap a freshly created flag.
+ * @throws {@link ConstraintViolationError} if the registry is strict and
+ *   `flag` breaks at least one rule.
+ *
+ * @example
+ * ```ts
+ * return assertConstraints(new FlagBox(bits, registry));
+ * ```
+ */
+export function assertConstraints<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(flag: Flag<TFlags, TBit, TBrand>): Flag<TFlags, TBit, TBrand> {
+  if (!flag.registry.strict) return flag;
+
+  const violations = flag.registry.validate(flag);
+
+  if (violations.length > 0) {
+    throw new ConstraintViolationError(violations);
+  }
+
+  return flag;
+}
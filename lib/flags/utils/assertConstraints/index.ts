@@ -0,0 +1 @@
+export { assertConstraints } from "./assertConstraints";
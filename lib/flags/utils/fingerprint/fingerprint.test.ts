@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+
+import { Bitset } from "@/core/bitset";
+
+import { fingerprint } from "./fingerprint";
+
+describe("fingerprint", () => {
+  test("returns 16 hexadecimal digits", () => {
+    // input: no entries, two entries
+    expect(fingerprint([])).toMatch(/^[0-9a-f]{16}$/);
+    expect(fingerprint([["READ", 1], ["WRITE", 2]])).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  test("does not depend on entry order", () => {
+    // input: the same pairs in two orders
+    expect(fingerprint([["READ", 1], ["WRITE", 2]])).toBe(
+      fingerprint([["WRITE", 2], ["READ", 1]]),
+    );
+  });
+
+  test("depends on which name owns which bit", () => {
+    // input: swapped bits
+    expect(fingerprint([["READ", 1], ["WRITE", 2]])).not.toBe(
+      fingerprint([["READ", 2], ["WRITE", 1]]),
+    );
+  });
+
+  test("is the same for every bit type", () => {
+    // input: 1 << 40 as number, bigint and Bitset
+    const value = 2 ** 40;
+    expect(fingerprint([["A", value]])).toBe(fingerprint([["A", 1n << 40n]]));
+    expect(fingerprint([["A", Bitset.fromBigInt(1n << 40n)]])).toBe(
+      fingerprint([["A", 1n << 40n]]),
+    );
+  });
+});
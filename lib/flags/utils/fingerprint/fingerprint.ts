@@ -0,0 +1,39 @@
+import type { Bit } from "@/core";
+
+const FNV_OFFSET = 0xcbf29ce484222325n;
+const FNV_PRIME = 0x100000001b3n;
+const MASK_64 = (1n << 64n) - 1n;
+
+/**
+ * Computes a short, stable fingerprint of a registry layout from its
+ * `[name, bit]` entries.
+ *
+ * Entries are sorted by name before hashing, so the fingerprint depends only
+ * on which name owns which bit: it stays the same when flags are declared in
+ * another order and changes when a flag is added, removed, renamed or moved.
+ * The hash is 64-bit FNV-1a, written as 16 hexadecimal digits. It detects
+ * accidental changes; it is not a cryptographic signature.
+ *
+ * @param entries - The registry's `entries()`.
+ * @returns 16 lower-case hexadecimal digits.
+ *
+ * @example
+ * ```ts
+ * fingerprint(registry.entries()); // "27a593b1910524e7"
+ * ```
+ */
+export function fingerprint(entries: readonly [string, Bit][]): string {
+  const canonical = entries
+    .map(([name, bit]) => `${name}=${bit.toString(16)}`)
+    .sort()
+    .join(";");
+
+  let hash = FNV_OFFSET;
+
+  for (let i = 0; i < canonical.length; i++) {
+    hash ^= BigInt(canonical.charCodeAt(i));
+    hash = (hash * FNV_PRIME) & MASK_64;
+  }
+
+  return hash.toString(16).padStart(16, "0");
+}
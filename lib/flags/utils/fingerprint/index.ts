@@ -0,0 +1 @@
+export { fingerprint } from "./fingerprint";
@@ -1 +1,8 @@
+export * from "./assertConstraints";
+export * from "./fingerprint";
+export * from "./isFlagEnvelope";
+export * from "./replacedMask";
 export * from "./resolveMask";
+export * from "./resolveNames";
+export * from "./standardSchema";
+export * from "./tokenizeNames";
@@ -0,0 +1 @@
+export { isFlagEnvelope } from "./isFlagEnvelope";
@@ -0,0 +1,27 @@
+import type { FlagEnvelope } from "@/flags/types";
+
+/**
+ * Returns `true` if `value` has the shape of a {@link FlagEnvelope}: `v` is
+ * `1`, `schema` and `bits` are strings and `names` is an array of strings.
+ *
+ * @param value - Any value, typically from `JSON.parse`.
+ *
+ * @example
+ * ```ts
+ * isFlagEnvelope(toEnvelope(flag));   // true
+ * isFlagEnvelope(flag.toJSON());      // false
+ * ```
+ */
+export function isFlagEnvelope(value: unknown): value is FlagEnvelope {
+  if (typeof value !== "object" || value === null) return false;
+
+  const { v, schema, bits, names } = value as Record<string, unknown>;
+
+  return (
+    v === 1 &&
+    typeof schema === "string" &&
+    typeof bits === "string" &&
+    Array.isArray(names) &&
+    names.every((name) => typeof name === "string")
+  );
+}
@@ -0,0 +1 @@
+export { replacedMask } from "./replacedMask";
@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { replacedMask } from "./replacedMask";
+
+// bits: LIGHT=1, DARK=2, SYSTEM=4, COMPACT=8, WIDE=16
+const base = NumberFlagRegistry.from(
+  "LIGHT",
+  "DARK",
+  "SYSTEM",
+  "COMPACT",
+  "WIDE",
+);
+
+const registry = base
+  .exclusive({ theme: ["LIGHT", "DARK", "SYSTEM"] }, { replace: true })
+  .exclusive({ density: ["COMPACT", "WIDE"] });
+
+describe("replacedMask", () => {
+  test("returns the other members of a replace group", () => {
+    // input: DARK -> LIGHT + SYSTEM
+    expect(replacedMask(registry, 2)).toBe(5);
+  });
+
+  test("never clears the names being added", () => {
+    // input: LIGHT + DARK -> SYSTEM
+    expect(replacedMask(registry, 3)).toBe(4);
+  });
+
+  test("matches a composite that contains a member on its bits", () => {
+    // input: DARK + COMPACT (a composite's bits) -> LIGHT + SYSTEM
+    expect(replacedMask(registry, 10)).toBe(5);
+  });
+
+  test("ignores groups declared without replace", () => {
+    // input: WIDE -> nothing, COMPACT is left for the constraint check
+    expect(replacedMask(registry, 16)).toBe(0);
+  });
+
+  test("returns zero for a registry without groups", () => {
+    expect(replacedMask(base, 2)).toBe(0);
+  });
+});
@@ -0,0 +1,45 @@
+import { computeMask } from "@/core/utils";
+
+import type { Bit } from "@/core";
+
+import type { FlagRegistry } from "@/flags/types";
+
+/**
+ * Returns the bits that setting `mask` clears: the other members of every
+ * exclusive group declared with `replace: true` that shares a bit with
+ * `mask`. Groups are matched on bits, so a composite that contains a member
+ * replaces the group like the member itself. Bits of `mask` are never
+ * cleared.
+ *
+ * @typeParam TFlags - The union of registered flag names.
+ * @typeParam TBit - The numeric type of the bit values.
+ * @typeParam TBrand - The registry's brand.
+ * @param registry - The registry whose groups are checked.
+ * @param mask - The bits being set, as returned by `resolveMask()`.
+ * @returns The bits to clear before `mask` is set.
+ *
+ * @example
+ * ```ts
+ * // exclusive({ access: ["READ", "WRITE"] }, { replace: true })
+ * replacedMask(registry, registry.get("WRITE")); // READ
+ * ```
+ */
+export function replacedMask<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(registry: FlagRegistry<TFlags, TBit, TBrand>, mask: TBit): TBit {
+  const { combinator } = registry;
+
+  const overlaps = (bit: TBit) =>
+    !combinator.equals(combinator.and(bit, mask), combinator.zero);
+
+  // Bits of "replace" groups that share a bit with the added mask.
+  const replaced = registry
+    .groups()
+    .filter(([, group]) => group.replace)
+    .map(([, group]) => group.members.map((member) => registry.get(member)))
+    .filter((bits) => bits.some(overlaps));
+
+  return combinator.andNot(computeMask(combinator, replaced.flat()), mask);
+}
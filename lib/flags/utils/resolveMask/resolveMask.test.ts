@@ -263,4 +263,29 @@ describe("resolveMask", () => {
       expect(resolveMask(registry, ["HUGE"])).toBe(1n << 200n);
     });
   });
+
+  describe("deprecation hook", () => {
+    test("reports each deprecated name to onDeprecated", () => {
+      // input: ["VIEW", "READ", "VIEW"] with VIEW deprecated
+      const calls: string[] = [];
+      const registry = NumberFlagRegistry.from("READ", "VIEW").annotate(
+        { VIEW: { deprecated: true, replacement: "READ" } },
+        { onDeprecated: (name) => calls.push(name) },
+      );
+
+      expect(resolveMask(registry, ["VIEW", "READ", "VIEW"])).toBe(3);
+      expect(calls).toEqual(["VIEW", "VIEW"]);
+    });
+
+    test("passes the metadata of the deprecated name", () => {
+      let replacement: string | undefined;
+      const registry = NumberFlagRegistry.from("READ", "VIEW").annotate(
+        { VIEW: { deprecated: true, replacement: "READ" } },
+        { onDeprecated: (_, metadata) => (replacement = metadata.replacement) },
+      );
+
+      resolveMask(registry, ["VIEW"]);
+      expect(replacement).toBe("READ");
+    });
+  });
 });
@@ -10,7 +10,8 @@ import type { FlagRegistry } from "@/flags/types";
  *
  * Order and duplicates do not affect the result — `OR` is commutative,
  * associative, and idempotent. Returns `combinator.zero` for an empty array.
- * Delegates the actual fold to {@link computeMask}.
+ * Delegates the actual fold to {@link computeMask}. Reports every deprecated
+ * name to the registry's `onDeprecated` handler, if one is set.
  *
  * @typeParam TFlags - The union of registered flag names.
  * @typeParam TBit - The numeric type of the bit values (`number` or `bigint`).
@@ -36,9 +37,17 @@ export function resolveMask<
   registry: FlagRegistry<TFlags, TBit, TBrand>,
   names: readonly TFlags[],
 ): TBit {
-  const { combinator, repository } = registry;
+  const { combinator, repository, onDeprecated } = registry;
 
   const bits = names.map((key) => repository.get(key));
 
+  if (onDeprecated !== null) {
+    for (const key of names) {
+      const metadata = registry.describe(key);
+
+      if (metadata.deprecated === true) onDeprecated(key, metadata);
+    }
+  }
+
   return computeMask(combinator, bits);
 }
@@ -0,0 +1 @@
+export { resolveNames } from "./resolveNames";
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+import { ParseError, UnknownFlagError } from "@/flags/errors";
+
+import { resolveNames } from "./resolveNames";
+
+// READ=1, WRITE=2, EXECUTE=4
+const Perms = NumberFlagRegistry.from("READ", "WRITE", "EXECUTE");
+
+describe("resolveNames", () => {
+  describe("lookup", () => {
+    test("resolves names in input order", () => {
+      // input: "WRITE | READ"
+      // expected: ["WRITE", "READ"]
+      expect(resolveNames(Perms, "WRITE | READ")).toEqual(["WRITE", "READ"]);
+    });
+
+    test("drops EMPTY_FLAG tokens", () => {
+      // input: "EMPTY_FLAG | EXECUTE"
+      // expected: ["EXECUTE"]
+      expect(resolveNames(Perms, "EMPTY_FLAG | EXECUTE")).toEqual(["EXECUTE"]);
+    });
+
+    test("resolves composite names", () => {
+      // input: "RW" where RW = READ | WRITE
+      const registry = Perms.compose({ RW: ["READ", "WRITE"] });
+      expect(resolveNames(registry, "RW")).toEqual(["RW"]);
+    });
+
+    test("folds case with caseInsensitive", () => {
+      // input: "read, Write"
+      // expected: the registered spellings
+      expect(
+        resolveNames(Perms, "read, Write", { caseInsensitive: true }),
+      ).toEqual(["READ", "WRITE"]);
+    });
+  });
+
+  describe("errors", () => {
+    test("throws UnknownFlagError with the position of the unknown name", () => {
+      // input: "READ | GHOST" — GHOST starts at character 7
+      let caught: unknown;
+      try {
+        resolveNames(Perms, "READ | GHOST");
+      } catch (e) {
+        caught = e;
+      }
+      expect(caught).toBeInstanceOf(UnknownFlagError);
+      expect((caught as UnknownFlagError).flag).toBe("GHOST");
+      expect((caught as UnknownFlagError).position).toBe(7);
+    });
+
+    test("throws ParseError for input with no names", () => {
+      expect(() => resolveNames(Perms, "  ")).toThrow(ParseError);
+    });
+  });
+
+  describe("strict registries", () => {
+    test("does not check the rules of a strict registry", () => {
+      // input: "WRITE" — WRITE alone breaks "WRITE implies READ"
+      const strict = Perms.imply({ WRITE: ["READ"] }, { strict: true });
+      expect(resolveNames(strict, "WRITE")).toEqual(["WRITE"]);
+      expect(() => strict.parseNames("WRITE")).toThrow();
+    });
+  });
+});
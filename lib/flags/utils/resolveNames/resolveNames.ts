@@ -0,0 +1,71 @@
+import { UnknownFlagError } from "@/flags/errors";
+
+import { tokenizeNames } from "../tokenizeNames";
+
+import type { Bit } from "@/core";
+
+import type { FlagRegistry, ParseNamesOptions } from "@/flags/types";
+
+/**
+ * Splits `input` with {@link tokenizeNames} and resolves every token to a
+ * registered flag or composite name. `EMPTY_FLAG` tokens are dropped.
+ *
+ * This is the lookup behind `registry.parseNames()`, without creating a
+ * flag: the names are not checked against the rules of a strict registry,
+ * so callers can combine several inputs and check the result once.
+ *
+ * @typeParam TFlags - The union of registered flag names.
+ * @typeParam TBit - The numeric type of the bit values.
+ * @typeParam TBrand - The registry's brand.
+ * @param registry - The registry whose names are looked up.
+ * @param input - The names to resolve.
+ * @param options - See {@link ParseNamesOptions}.
+ * @returns The registered names, in input order.
+ * @throws {@link ParseError} if `input` contains no names.
+ * @throws {@link UnknownFlagError} if a name is not registered; its
+ *   `position` is the index of the name in `input`.
+ *
+ * @example
+ * ```ts
+ * resolveNames(registry, "read | write", { caseInsensitive: true });
+ * // ["READ", "WRITE"]
+ * ```
+ */
+export function resolveNames<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  registry: FlagRegistry<TFlags, TBit, TBrand>,
+  input: string,
+  options?: ParseNamesOptions,
+): TFlags[] {
+  const { repository } = registry;
+  const { caseInsensitive = false } = options ?? {};
+
+  const fold = (name: string) => (caseInsensitive ? name.toLowerCase() : name);
+
+  const lookup = new Map<string, TFlags>();
+
+  const entries = [...repository.entries(), ...repository.composites()];
+
+  for (const [key] of entries) {
+    if (!lookup.has(fold(key))) lookup.set(fold(key), key);
+  }
+
+  const names: TFlags[] = [];
+
+  for (const [token, position] of tokenizeNames(input)) {
+    const key = repository.has(token)
+      ? (token as TFlags)
+      : lookup.get(fold(token));
+
+    if (key !== undefined) {
+      names.push(key);
+    } else if (fold(token) !== fold("EMPTY_FLAG")) {
+      throw new UnknownFlagError(token, position);
+    }
+  }
+
+  return names;
+}
@@ -0,0 +1 @@
+export { standardSchema } from "./standardSchema";
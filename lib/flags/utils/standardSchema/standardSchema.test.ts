@@ -0,0 +1,154 @@
+import { describe, expect, test } from "bun:test";
+
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { standardSchema } from "./standardSchema";
+
+import type { FlagFormat } from "@/flags/types";
+
+// bits: READ=1, WRITE=2, EXECUTE=4; ALL = READ + WRITE + EXECUTE
+const Perms = NumberFlagRegistry.from("READ", "WRITE", "EXECUTE").compose({
+  ALL: ["READ", "WRITE", "EXECUTE"],
+});
+
+const validate = (
+  value: unknown,
+  format?: FlagFormat,
+  registry: typeof Perms = Perms,
+) => {
+  const result = standardSchema(registry, format)["~standard"].validate(value);
+  if (result instanceof Promise) throw new Error("expected a sync result");
+  return result;
+};
+
+const bitsOf = (value: unknown, format?: FlagFormat) => {
+  const result = validate(value, format);
+  if (result.issues) throw new Error(result.issues[0]?.message);
+  return result.value.bits;
+};
+
+describe("standardSchema", () => {
+  test("implements the Standard Schema v1 properties", () => {
+    const props = standardSchema(Perms)["~standard"];
+    expect(props.version).toBe(1);
+    expect(props.vendor).toBe("bitwise-flag");
+  });
+
+  describe("bits format", () => {
+    test("accepts numbers, bigints and numeric strings", () => {
+      // input: 5, 5n, "5", "0b101" -> READ + EXECUTE
+      for (const value of [5, 5n, "5", "0b101"]) {
+        expect(bitsOf(value, "bits")).toBe(5);
+      }
+    });
+
+    test("maps ParseError to an issue without a path", () => {
+      // input: "abc", -1, 1.5
+      for (const value of ["abc", -1, 1.5]) {
+        const result = validate(value, "bits");
+        expect(result.issues).toHaveLength(1);
+        expect(result.issues?.[0]?.path).toBeUndefined();
+      }
+    });
+
+    test("maps UnknownBitsError to an issue", () => {
+      // input: 9 -> bit 8 is unknown
+      expect(validate(9, "bits").issues?.[0]?.message).toContain(
+        "not registered",
+      );
+    });
+
+    test("passes parse options through", () => {
+      // input: 9 with unknownBits "strip" -> READ
+      const schema = standardSchema(Perms, "bits", { unknownBits: "strip" });
+      const result = schema["~standard"].validate(9);
+      expect(result).toEqual({ value: Perms.of("READ") });
+    });
+
+    test("rejects other types", () => {
+      expect(validate(["READ"], "bits").issues).toEqual([
+        { message: "Expected a number or a numeric string" },
+      ]);
+    });
+  });
+
+  describe("names format", () => {
+    test("accepts an array of names, composites included", () => {
+      // input: ["READ", "WRITE"] -> 3, ["ALL"] -> 7, [] -> 0
+      expect(bitsOf(["READ", "WRITE"], "names")).toBe(3);
+      expect(bitsOf(["ALL"], "names")).toBe(7);
+      expect(bitsOf([], "names")).toBe(0);
+    });
+
+    test("reports every unknown name with its index", () => {
+      // input: ["READ", "OWNER", 42, "ROOT"]
+      const result = validate(["READ", "OWNER", 42, "ROOT"], "names");
+      expect(result.issues?.map((issue) => issue.path)).toEqual([
+        [1],
+        [2],
+        [3],
+      ]);
+      expect(result.issues?.[0]?.message).toBe(
+        'Flag "OWNER" at position 1 is not registered',
+      );
+      expect(result.issues?.[1]?.message).toBe("Expected a flag name");
+    });
+
+    test("rejects other types", () => {
+      expect(validate("READ", "names").issues).toEqual([
+        { message: "Expected an array of flag names" },
+      ]);
+    });
+  });
+
+  describe("object format", () => {
+    test("accepts a toObject() record and partial records", () => {
+      // input: toObject() of READ + EXECUTE -> 5, { WRITE: true } -> 2
+      expect(bitsOf(Perms.of("READ", "EXECUTE").toObject(), "object")).toBe(5);
+      expect(bitsOf({ WRITE: true, READ: false }, "object")).toBe(2);
+      expect(bitsOf({ ALL: true }, "object")).toBe(7);
+    });
+
+    test("reports unknown keys and non-boolean values by key", () => {
+      // input: { READ: "yes", OWNER: true }
+      const result = validate({ READ: "yes", OWNER: true }, "object");
+      expect(result.issues).toEqual([
+        { message: 'Expected a boolean for "READ"', path: ["READ"] },
+        { message: 'Flag "OWNER" is not registered', path: ["OWNER"] },
+      ]);
+    });
+
+    test("rejects other types", () => {
+      for (const value of [null, 3, ["READ"]]) {
+        expect(validate(value, "object").issues).toEqual([
+          { message: "Expected an object of booleans" },
+        ]);
+      }
+    });
+  });
+
+  test("accepts every format when none is given", () => {
+    // input: 3, "3", ["READ", "WRITE"], { READ: true, WRITE: true } -> 3
+    const values = [3, "3", ["READ", "WRITE"], { READ: true, WRITE: true }];
+    for (const value of values) {
+      expect(bitsOf(value)).toBe(3);
+    }
+  });
+
+  test("maps ConstraintViolationError of a strict registry to an issue", () => {
+    // input: WRITE without READ, where WRITE implies READ
+    const strict = Perms.imply({ WRITE: ["READ"] }, { strict: true });
+    const result = validate(["WRITE"], "names", strict);
+    expect(result.issues).toHaveLength(1);
+    expect(result.issues?.[0]?.message).toContain("requires READ");
+    expect(result.issues?.[0]?.path).toBeUndefined();
+  });
+
+  test("outputs flags of a BigIntFlagRegistry", () => {
+    // input: "1180591620717411303424" = 2^70 -> archive
+    const big = BigIntFlagRegistry.define({ read: 1n, archive: 1n << 70n });
+    const result = big.schema()["~standard"].validate(String(1n << 70n));
+    expect(result).toEqual({ value: big.of("archive") });
+  });
+});
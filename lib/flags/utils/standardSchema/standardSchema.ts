@@ -0,0 +1,172 @@
+import {
+  ConstraintViolationError,
+  ParseError,
+  UnknownBitsError,
+  UnknownFlagError,
+} from "@/flags/errors";
+
+import type { Bit } from "@/core";
+
+import type {
+  Flag,
+  FlagFormat,
+  FlagRegistry,
+  ParseOptions,
+  SerializedFlag,
+  StandardSchemaV1,
+  StandardSchemaV1Issue,
+  StandardSchemaV1Result,
+} from "@/flags/types";
+
+/**
+ * Turns an error thrown while reading a value into an issue, or returns
+ * `null` for errors that are not about the value.
+ *
+ * @internal
+ */
+function toIssue(error: unknown): StandardSchemaV1Issue | null {
+  if (
+    error instanceof ParseError ||
+    error instanceof UnknownBitsError ||
+    error instanceof UnknownFlagError ||
+    error instanceof ConstraintViolationError
+  ) {
+    return { message: error.message };
+  }
+
+  return null;
+}
+
+/**
+ * Picks the format of a value when the schema accepts all of them.
+ *
+ * @internal
+ */
+function detect(value: unknown): FlagFormat {
+  if (Array.isArray(value)) return "names";
+
+  return typeof value === "object" && value !== null ? "object" : "bits";
+}
+
+/**
+ * Creates a [Standard Schema](https://standardschema.dev) v1 validator that
+ * reads a serialized flag of `registry`. Backs `registry.schema()`.
+ *
+ * Errors of the registry become issues instead of being thrown:
+ * `ParseError`, `UnknownBitsError` and `ConstraintViolationError` describe the
+ * whole value, and `UnknownFlagError` carries the index or key of the name in
+ * its `path`. Every unknown name is reported, not only the first.
+ *
+ * @param registry - The registry the flags belong to.
+ * @param format - The accepted {@link FlagFormat}. When omitted, arrays are
+ *   read as names, other objects as booleans and anything else as bits.
+ * @param options - Passed to `registry.parse()` for the `"bits"` format.
+ * @returns A schema whose output is a {@link Flag} of `registry`.
+ *
+ * @example
+ * const result = standardSchema(Permissions, "names")["~standard"].validate([
+ *   "READ",
+ *   "OWNER",
+ * ]);
+ * // { issues: [{ message: 'Flag "OWNER" at position 1 ...', path: [1] }] }
+ */
+export function standardSchema<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+  TFormat extends FlagFormat = FlagFormat,
+>(
+  registry: FlagRegistry<TFlags, TBit, TBrand>,
+  format?: TFormat,
+  options?: ParseOptions,
+): StandardSchemaV1<
+  SerializedFlag<TFlags, TFormat>,
+  Flag<TFlags, TBit, TBrand>
+> {
+  type Result = StandardSchemaV1Result<Flag<TFlags, TBit, TBrand>>;
+
+  const { repository } = registry;
+
+  const readBits = (value: unknown): Result => {
+    if (
+      typeof value !== "string" &&
+      typeof value !== "number" &&
+      typeof value !== "bigint"
+    ) {
+      return { issues: [{ message: "Expected a number or a numeric string" }] };
+    }
+
+    return { value: registry.parse(String(value), options) };
+  };
+
+  const readNames = (value: unknown): Result => {
+    if (!Array.isArray(value)) {
+      return { issues: [{ message: "Expected an array of flag names" }] };
+    }
+
+    const names: TFlags[] = [];
+    const issues: StandardSchemaV1Issue[] = [];
+
+    value.forEach((name: unknown, index) => {
+      if (typeof name !== "string") {
+        issues.push({ message: "Expected a flag name", path: [index] });
+      } else if (!repository.has(name)) {
+        issues.push({
+          message: new UnknownFlagError(name, index).message,
+          path: [index],
+        });
+      } else {
+        names.push(name as TFlags);
+      }
+    });
+
+    return issues.length > 0 ? { issues } : { value: registry.of(...names) };
+  };
+
+  const readObject = (value: unknown): Result => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return { issues: [{ message: "Expected an object of booleans" }] };
+    }
+
+    const names: TFlags[] = [];
+    const issues: StandardSchemaV1Issue[] = [];
+
+    for (const [key, isSet] of Object.entries(value)) {
+      if (!repository.has(key)) {
+        issues.push({
+          message: new UnknownFlagError(key).message,
+          path: [key],
+        });
+      } else if (typeof isSet !== "boolean") {
+        issues.push({
+          message: `Expected a boolean for "${key}"`,
+          path: [key],
+        });
+      } else if (isSet) {
+        names.push(key as TFlags);
+      }
+    }
+
+    return issues.length > 0 ? { issues } : { value: registry.of(...names) };
+  };
+
+  const readers = { bits: readBits, names: readNames, object: readObject };
+
+  return {
+    "~standard": {
+      version: 1,
+      vendor: "bitwise-flag",
+      validate(value) {
+        try {
+          return readers[format ?? detect(value)](value);
+        } catch (error) {
+          const issue = toIssue(error);
+
+          if (issue === null) throw error;
+
+          return { issues: [issue] };
+        }
+      },
+    },
+  };
+}
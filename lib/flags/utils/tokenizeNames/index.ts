@@ -0,0 +1 @@
+export { tokenizeNames } from "./tokenizeNames";
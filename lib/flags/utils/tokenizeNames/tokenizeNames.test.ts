@@ -0,0 +1,44 @@
+import { describe, expect, test } from "bun:test";
+
+import { ParseError } from "@/flags/errors";
+
+import { tokenizeNames } from "./tokenizeNames";
+
+describe("tokenizeNames", () => {
+  test("splits on every separator", () => {
+    // input: "a+b|c,d e" -> five names at their indexes
+    expect(tokenizeNames("a+b|c,d e")).toEqual([
+      ["a", 0],
+      ["b", 2],
+      ["c", 4],
+      ["d", 6],
+      ["e", 8],
+    ]);
+  });
+
+  test("collapses runs of separators and surrounding whitespace", () => {
+    // input: "  READ | ,WRITE  " -> READ at 2, WRITE at 10
+    expect(tokenizeNames("  READ | ,WRITE  ")).toEqual([
+      ["READ", 2],
+      ["WRITE", 10],
+    ]);
+  });
+
+  test("accepts the FlagBox.toString() form and ignores its value", () => {
+    // input: "Flag([READ+WRITE]: 11)" -> positions inside the brackets
+    expect(tokenizeNames("Flag([READ+WRITE]: 11)")).toEqual([
+      ["READ", 6],
+      ["WRITE", 11],
+    ]);
+    expect(tokenizeNames("Flag([EMPTY_FLAG]: 0)")).toEqual([
+      ["EMPTY_FLAG", 6],
+    ]);
+  });
+
+  test("throws ParseError when there are no names", () => {
+    // input: "", " + , ", "Flag([]: 0)"
+    expect(() => tokenizeNames("")).toThrow(ParseError);
+    expect(() => tokenizeNames(" + , ")).toThrow(ParseError);
+    expect(() => tokenizeNames("Flag([]: 0)")).toThrow(ParseError);
+  });
+});
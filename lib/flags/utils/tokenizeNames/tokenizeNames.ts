@@ -0,0 +1,54 @@
+import { ParseError } from "@/flags/errors";
+
+/**
+ * Matches the `Flag([READ+WRITE]: 3)` form produced by `FlagBox.toString()`.
+ * The bit value is not captured: it may be in any radix, and the names are
+ * what {@link tokenizeNames} returns.
+ *
+ * @internal
+ */
+const FLAG_STRING = /^(\s*Flag\(\[)(.*)\]:\s*[^)]*\)\s*$/s;
+
+/**
+ * A run of characters that are not separators.
+ *
+ * @internal
+ */
+const TOKEN = /[^\s+|,]+/g;
+
+/**
+ * Splits a string of flag names into `[name, position]` pairs, where
+ * `position` is the index of the name in `input`.
+ *
+ * Names may be separated by `+`, `|`, `,` or whitespace, in any mix. The
+ * whole `Flag([READ+WRITE]: 3)` string produced by `FlagBox.toString()` is
+ * accepted too; its bit value is ignored. Names are returned as written —
+ * resolving them (and the `EMPTY_FLAG` token) is up to the caller.
+ *
+ * @param input - The string to split.
+ * @returns The names in input order, with their positions.
+ * @throws {@link ParseError} if `input` contains no names.
+ *
+ * @example
+ * ```ts
+ * tokenizeNames("READ+WRITE");             // [["READ", 0], ["WRITE", 5]]
+ * tokenizeNames("READ | WRITE");           // [["READ", 0], ["WRITE", 7]]
+ * tokenizeNames("Flag([READ+WRITE]: 3)");  // [["READ", 6], ["WRITE", 11]]
+ * ```
+ */
+export function tokenizeNames(input: string): [string, number][] {
+  const match = FLAG_STRING.exec(input);
+
+  const offset = match?.[1]?.length ?? 0;
+  const names = match?.[2] ?? input;
+
+  const out: [string, number][] = [];
+
+  for (const token of names.matchAll(TOKEN)) {
+    out.push([token[0], offset + token.index]);
+  }
+
+  if (out.length === 0) throw new ParseError(input);
+
+  return out;
+}
@@ -1,6 +1,6 @@
 import { describe, expect, test } from "bun:test";
 
-import { UnknownFlagError } from "@/flags/errors";
+import { ConstraintViolationError, UnknownFlagError } from "@/flags/errors";
 import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
 import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
 
@@ -203,4 +203,69 @@ describe("add", () => {
       );
     });
   });
+
+  describe("composite flags", () => {
+    test("adds every member of a composite", () => {
+      // input: empty box, composite "rw" = read | write
+      // expected: box contains read and write
+      const composed = registry.compose({ rw: ["read", "write"] });
+      const result = add(composed.empty(), "rw");
+
+      expect(result.toArray()).toEqual(["read", "write"]);
+    });
+  });
+
+  describe("strict registries", () => {
+    const strict = registry.imply({ write: ["read"] }, { strict: true });
+
+    test("throws ConstraintViolationError when the result breaks a rule", () => {
+      // input: empty box, flag "write" -> read missing
+      expect(() => add(strict.empty(), "write")).toThrow(
+        ConstraintViolationError,
+      );
+    });
+
+    test("accepts a result that follows every rule", () => {
+      // input: empty box, flags "read" and "write"
+      expect(add(strict.empty(), "read", "write").bits).toBe(3);
+    });
+  });
+
+  describe("exclusive groups", () => {
+    const grouped = registry.exclusive(
+      { access: ["read", "write"] },
+      { replace: true },
+    );
+
+    test("replace clears the other members of the group", () => {
+      // input: read + execute, add "write" -> read cleared
+      expect(add(grouped.of("read", "execute"), "write").toArray()).toEqual([
+        "write",
+        "execute",
+      ]);
+    });
+
+    test("leaves members alone when no member is added", () => {
+      // input: read, add "admin"
+      expect(add(grouped.of("read"), "admin").toArray()).toEqual([
+        "read",
+        "admin",
+      ]);
+    });
+
+    test("replace also applies to a composite that contains a member", () => {
+      // input: read, add "writeExec" (write + execute) -> read cleared
+      const composed = grouped.compose({ writeExec: ["write", "execute"] });
+      expect(add(composed.of("read"), "writeExec").toArray()).toEqual([
+        "write",
+        "execute",
+      ]);
+    });
+
+    test("does not clear without replace", () => {
+      // input: read, add "write" on a group without replace
+      const plain = registry.exclusive({ access: ["read", "write"] });
+      expect(add(plain.of("read"), "write").bits).toBe(3);
+    });
+  });
 });
@@ -1,5 +1,9 @@
 import { FlagBox } from "@/flags/box";
-import { resolveMask } from "@/flags/utils";
+import {
+  assertConstraints,
+  replacedMask,
+  resolveMask,
+} from "@/flags/utils";
 
 import type { Bit } from "@/core/types";
 
@@ -8,8 +12,12 @@ import type { Flag } from "@/flags/types";
 /**
  * Returns a new flag box with the specified flags added (bitwise OR).
  * Idempotent: adding an already-set flag leaves the bits unchanged.
+ * For an exclusive group declared with `replace: true`, the other members of
+ * the group are cleared first.
  *
  * @throws {UnknownFlagError} if any name is not registered.
+ * @throws {ConstraintViolationError} if the registry is strict and the result
+ *   breaks one of its rules.
  *
  * @example
  * const box = registry.of("read");
@@ -30,7 +38,9 @@ export function add<
   const { combinator } = registry;
 
   const mask = resolveMask(registry, names);
-  const bits = combinator.or(flag.bits, mask);
+  const cleared = replacedMask(registry, mask);
 
-  return new FlagBox(bits, registry);
+  const bits = combinator.or(combinator.andNot(flag.bits, cleared), mask);
+
+  return assertConstraints(new FlagBox(bits, registry));
 }
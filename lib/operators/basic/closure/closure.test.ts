@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { closure } from "./closure";
+
+type Perms = "read" | "write" | "execute" | "admin";
+
+// write -> read, execute -> read, admin -> write + execute
+const rules = {
+  write: ["read"],
+  execute: ["read"],
+  admin: ["write", "execute"],
+} satisfies Partial<Record<Perms, Perms[]>>;
+
+const registry = NumberFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+).imply(rules);
+const bigRegistry = BigIntFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+).imply(rules);
+
+describe("closure", () => {
+  test("adds directly implied flags", () => {
+    // input: write -> expected: read + write
+    expect(closure(registry.of("write")).toArray()).toEqual(["read", "write"]);
+  });
+
+  test("follows implications transitively", () => {
+    // input: admin -> write, execute -> read
+    expect(closure(registry.of("admin")).isFull()).toBe(true);
+  });
+
+  test("leaves a flag without implications unchanged", () => {
+    // input: read, empty
+    expect(closure(registry.of("read")).bits).toBe(1);
+    expect(closure(registry.empty()).isEmpty()).toBe(true);
+  });
+
+  test("the result breaks no rule", () => {
+    // input: execute + admin
+    const result = closure(registry.of("execute", "admin"));
+    expect(registry.validate(result)).toEqual([]);
+  });
+
+  test("is idempotent", () => {
+    const once = closure(registry.of("write"));
+    expect(closure(once).bits).toBe(once.bits);
+  });
+
+  test("keeps the registry and does not modify the input", () => {
+    const flag = registry.of("write");
+    const result = closure(flag);
+    expect(result.registry).toBe(registry);
+    expect(flag.bits).toBe(2);
+  });
+
+  test("works with a registry without rules", () => {
+    const plain = NumberFlagRegistry.from("a", "b");
+    expect(closure(plain.of("b")).bits).toBe(2);
+  });
+
+  test("works with bigint registries", () => {
+    // input: admin -> expected: 15n
+    expect(closure(bigRegistry.of("admin")).bits).toBe(15n);
+  });
+});
@@ -0,0 +1,52 @@
+import { computeMask } from "@/core/utils";
+import { FlagBox } from "@/flags/box";
+
+import type { Bit } from "@/core/types";
+
+import type { Flag } from "@/flags/types";
+
+/**
+ * Returns a new flag box with every flag implied by the set flags added,
+ * transitively, following the rules declared with `registry.imply()`.
+ * The result breaks no implication rule. Idempotent.
+ *
+ * @example
+ * // WRITE implies READ, ADMIN implies WRITE
+ * const result = closure(registry.of("ADMIN"));
+ * result.has("WRITE"); // true
+ * result.has("READ");  // true
+ */
+export function closure<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(flag: Flag<TFlags, TBit, TBrand>): Flag<TFlags, TBit, TBrand> {
+  const { registry } = flag;
+  const { combinator } = registry;
+
+  // Resolved without resolveMask: the names come from the registry's own
+  // rules, so they must not be reported as deprecated usage.
+  const rules = registry.implications().map(([key, implied]) => {
+    const mask = computeMask(
+      combinator,
+      implied.map((name) => registry.get(name)),
+    );
+
+    return [registry.get(key), mask] as const;
+  });
+
+  let bits = flag.bits;
+  let previous: TBit;
+
+  do {
+    previous = bits;
+
+    for (const [mask, implied] of rules) {
+      if (combinator.equals(combinator.and(bits, mask), mask)) {
+        bits = combinator.or(bits, implied);
+      }
+    }
+  } while (!combinator.equals(bits, previous));
+
+  return new FlagBox(bits, registry);
+}
@@ -174,4 +174,16 @@ describe("complement", () => {
       expect(complement(complement(box)).bits).toBe(box.bits);
     });
   });
+
+  describe("bits outside the registry", () => {
+    test("opaque bits kept by parse() pass through unchanged", () => {
+      // input: 17 (read + opaque bit 4) kept
+      // expected: write|execute|admin plus bit 4 = 30, double complement restores 17
+      const box = registry.parse(17, { unknownBits: "keep" });
+      const result = complement(box);
+
+      expect(result.bits).toBe(30);
+      expect(complement(result).bits).toBe(17);
+    });
+  });
 });
@@ -7,6 +7,8 @@ import type { Flag } from "@/flags/types";
 /**
  * Returns a new flag box containing every registered flag that is NOT set in the input.
  * Only flags known to the registry are considered — raw bit inversion is NOT performed.
+ * Bits no flag owns (packed fields, bits kept by `parse(value, { unknownBits: "keep" })`)
+ * pass through unchanged.
  * Double complement is always identity: `complement(complement(x)).bits === x.bits`.
  *
  * @example
@@ -26,7 +28,7 @@ export function complement<
   const { registry } = flag;
   const { combinator } = registry;
 
-  const bits = combinator.andNot(registry.fullBits, flag.bits);
+  const bits = combinator.xor(flag.bits, registry.fullBits);
 
   return new FlagBox(bits, registry);
 }
@@ -22,5 +22,8 @@ export function equals<
   left: Flag<TFlags, TBit, TBrand>,
   right: Flag<TFlags, TBit, TBrand>,
 ): boolean {
-  return left.registry === right.registry && left.bits === right.bits;
+  return (
+    left.registry === right.registry &&
+    left.registry.combinator.equals(left.bits, right.bits)
+  );
 }
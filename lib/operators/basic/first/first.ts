@@ -0,0 +1,45 @@
+import { bitIndex } from "@/operators/utils";
+
+import type { Bit } from "@/core/types";
+
+import type { Flag } from "@/flags/types";
+
+/**
+ * Returns the name of the first set flag in registry order, or `undefined` if
+ * no registered flag is set. Composite flags and bits no registered flag owns
+ * are ignored.
+ *
+ * Registry order is the order of `registry.keys()`, which is not always the
+ * order of the bits (for example after `define()` or `extend()`). When it
+ * is, the lowest set bit is found with `trailingZeros` instead of testing
+ * every flag; otherwise the flags are scanned in registry order.
+ *
+ * @example
+ * const box = registry.of("write", "admin");
+ * first(box);              // "write"
+ * first(registry.empty()); // undefined
+ */
+export function first<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(flagBox: Flag<TFlags, TBit, TBrand>): TFlags | undefined {
+  const { registry, bits } = flagBox;
+  const { combinator } = registry;
+
+  const index = bitIndex(registry);
+
+  if (index !== null) {
+    const set = combinator.and(bits, registry.fullBits);
+
+    return index[combinator.trailingZeros(set)];
+  }
+
+  for (const [name, bit] of registry.entries()) {
+    if (!combinator.equals(combinator.and(bits, bit), combinator.zero)) {
+      return name;
+    }
+  }
+
+  return undefined;
+}
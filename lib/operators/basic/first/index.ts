@@ -0,0 +1 @@
+export { first } from "./first";
@@ -177,4 +177,16 @@ describe("hasAll", () => {
       );
     });
   });
+
+  describe("composite flags", () => {
+    test("requires every member of a composite", () => {
+      // input: composite "rw" = read | write
+      // expected: true only when both members are set
+      const composed = registry.compose({ rw: ["read", "write"] });
+
+      expect(hasAll(composed.of("read", "write"), "rw")).toBe(true);
+      expect(hasAll(composed.of("read"), "rw")).toBe(false);
+      expect(hasAll(composed.of("read", "write"), "rw", "execute")).toBe(false);
+    });
+  });
 });
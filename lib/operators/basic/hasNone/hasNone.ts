@@ -20,5 +20,5 @@ export function hasNone<TFlags extends string, TBit extends Bit, TBrand extends
   const { combinator } = registry;
 
   const mask = resolveMask(registry, flags);
-  return combinator.and(bits, mask) === combinator.zero;
+  return combinator.equals(combinator.and(bits, mask), combinator.zero);
 }
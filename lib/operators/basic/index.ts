@@ -1,8 +1,11 @@
 export * from "./add";
+export * from "./closure";
 export * from "./complement";
 export * from "./equals";
+export * from "./first";
 export * from "./hasAll";
 export * from "./hasAny";
 export * from "./hasNone";
+export * from "./last";
 export * from "./remove";
 export * from "./toggle";
@@ -0,0 +1 @@
+export { last } from "./last";
@@ -0,0 +1,58 @@
+import { describe, expect, test } from "bun:test";
+
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { BitsetFlagRegistry } from "@/flags/registry/BitsetFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { last } from "./last";
+
+type Perms = "read" | "write" | "execute" | "admin";
+
+const registry = NumberFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+const bigRegistry = BigIntFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+
+describe("last", () => {
+  test("returns the last set flag", () => {
+    // input: box{"write", "admin"} -> expected: "admin"
+    expect(last(registry.of("write", "admin"))).toBe("admin");
+    expect(last(bigRegistry.of("write", "admin"))).toBe("admin");
+  });
+
+  test("returns the only set flag", () => {
+    // input: box{"execute"} -> expected: "execute"
+    expect(last(registry.of("execute"))).toBe("execute");
+  });
+
+  test("returns undefined for an empty box", () => {
+    expect(last(registry.empty())).toBeUndefined();
+  });
+
+  test("ignores bits no registered flag owns", () => {
+    // input: 16 (unknown) -> expected: undefined
+    const flag = registry.parse(16, { unknownBits: "keep" });
+    expect(last(flag)).toBeUndefined();
+  });
+
+  test("follows registry order, not bit order", () => {
+    // input: a=4, b=1, c=2 (defined out of bit order), box{a, b}
+    const sparse = NumberFlagRegistry.define({ a: 4, b: 1, c: 2 });
+    expect(last(sparse.of("a", "b"))).toBe("b");
+  });
+
+  test("works on high bits of a bitset registry", () => {
+    // input: 300 flags, box{f5, f250} -> expected: "f250"
+    const names = Array.from({ length: 300 }, (_, i) => `f${i}`);
+    const wide = BitsetFlagRegistry.from(...names);
+    expect(last(wide.of("f5", "f250"))).toBe("f250");
+  });
+});
@@ -0,0 +1,45 @@
+import { bitIndex } from "@/operators/utils";
+
+import type { Bit } from "@/core/types";
+
+import type { Flag } from "@/flags/types";
+
+/**
+ * Returns the name of the last set flag in registry order, or `undefined` if
+ * no registered flag is set. Composite flags and bits no registered flag owns
+ * are ignored.
+ *
+ * Registry order is the order of `registry.keys()`, which is not always the
+ * order of the bits (for example after `define()` or `extend()`). When it
+ * is, the highest set bit is found with `bitLength` instead of testing
+ * every flag; otherwise the flags are scanned in registry order.
+ *
+ * @example
+ * const box = registry.of("write", "admin");
+ * last(box);              // "admin"
+ * last(registry.empty()); // undefined
+ */
+export function last<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(flagBox: Flag<TFlags, TBit, TBrand>): TFlags | undefined {
+  const { registry, bits } = flagBox;
+  const { combinator } = registry;
+
+  const index = bitIndex(registry);
+
+  if (index !== null) {
+    const set = combinator.and(bits, registry.fullBits);
+
+    return index[combinator.bitLength(set) - 1];
+  }
+
+  for (const [name, bit] of registry.entries().reverse()) {
+    if (!combinator.equals(combinator.and(bits, bit), combinator.zero)) {
+      return name;
+    }
+  }
+
+  return undefined;
+}
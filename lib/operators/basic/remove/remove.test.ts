@@ -1,6 +1,6 @@
 import { describe, expect, test } from "bun:test";
 
-import { UnknownFlagError } from "@/flags/errors";
+import { ConstraintViolationError, UnknownFlagError } from "@/flags/errors";
 import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
 import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
 
@@ -223,4 +223,25 @@ describe("remove", () => {
       );
     });
   });
+
+  describe("composite flags", () => {
+    test("removes every member of a composite", () => {
+      // input: full box, composite "rw" = read | write
+      // expected: only execute and admin remain
+      const composed = registry.compose({ rw: ["read", "write"] });
+      const result = remove(composed.full(), "rw");
+
+      expect(result.toArray()).toEqual(["execute", "admin"]);
+    });
+  });
+
+  describe("strict registries", () => {
+    test("throws ConstraintViolationError when removing an implied flag", () => {
+      // input: read + write, remove "read" -> write misses read
+      const strict = registry.imply({ write: ["read"] }, { strict: true });
+      expect(() => remove(strict.of("read", "write"), "read")).toThrow(
+        ConstraintViolationError,
+      );
+    });
+  });
 });
@@ -1,5 +1,5 @@
 import { FlagBox } from "@/flags/box";
-import { resolveMask } from "@/flags/utils";
+import { assertConstraints, resolveMask } from "@/flags/utils";
 
 import type { Bit } from "@/core/types";
 
@@ -10,6 +10,8 @@ import type { Flag } from "@/flags/types";
  * Idempotent: removing an unset flag leaves the bits unchanged.
  *
  * @throws {UnknownFlagError} if any name is not registered.
+ * @throws {ConstraintViolationError} if the registry is strict and the result
+ *   breaks one of its rules.
  *
  * @example
  * const box = registry.of("read", "write", "execute");
@@ -32,5 +34,5 @@ export function remove<
   const mask = resolveMask(registry, names);
   const bits = combinator.andNot(flag.bits, mask);
 
-  return new FlagBox(bits, registry);
+  return assertConstraints(new FlagBox(bits, registry));
 }
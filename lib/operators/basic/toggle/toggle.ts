@@ -1,5 +1,5 @@
 import { FlagBox } from "@/flags/box";
-import { resolveMask } from "@/flags/utils";
+import { assertConstraints, resolveMask } from "@/flags/utils";
 
 import type { Bit } from "@/core/types";
 
@@ -10,6 +10,8 @@ import type { Flag } from "@/flags/types";
  * absent flags are added, present flags are removed.
  *
  * @throws {UnknownFlagError} if any name is not registered.
+ * @throws {ConstraintViolationError} if the registry is strict and the result
+ *   breaks one of its rules.
  *
  * @example
  * const box = registry.of("read", "write");
@@ -32,5 +34,5 @@ export function toggle<
   const mask = resolveMask(registry, names);
   const bits = combinator.xor(flag.bits, mask);
 
-  return new FlagBox(bits, flag.registry);
+  return assertConstraints(new FlagBox(bits, registry));
 }
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+import { MixedRegistryError } from "@/operators/errors";
+
+import { frequencies } from "./frequencies";
+
+type Perms = "read" | "write" | "execute" | "admin";
+
+// bits: read=1, write=2, execute=4, admin=8
+const registry = NumberFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+const other = NumberFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+
+describe("frequencies", () => {
+  test("counts how many flags have each name set", () => {
+    // input: {read, write}, {read}, {admin, read}
+    const counts = frequencies([
+      registry.of("read", "write"),
+      registry.of("read"),
+      registry.of("admin", "read"),
+    ]);
+    expect([...counts]).toEqual([
+      ["read", 3],
+      ["write", 1],
+      ["admin", 1],
+    ]);
+  });
+
+  test("returns an empty map for an empty array", () => {
+    expect(frequencies([]).size).toBe(0);
+  });
+
+  test("ignores bits no registered flag owns", () => {
+    // input: 17 (read + unknown 16)
+    const flag = registry.parse(17, { unknownBits: "keep" });
+    expect([...frequencies([flag])]).toEqual([["read", 1]]);
+  });
+
+  test("works with bigint registries", () => {
+    const big = BigIntFlagRegistry.from("a", "b");
+    expect(frequencies([big.of("b"), big.of("a", "b")]).get("b")).toBe(2);
+  });
+
+  test("throws MixedRegistryError for flags of different registries", () => {
+    expect(() => frequencies([registry.of("read"), other.of("read")])).toThrow(
+      MixedRegistryError,
+    );
+  });
+});
@@ -0,0 +1,49 @@
+import { assertSameRegistry } from "@/operators/utils";
+
+import type { Bit } from "@/core/types";
+
+import type { Flag } from "@/flags/types";
+
+/**
+ * Counts, for every registered flag, how many of `flags` have it set.
+ *
+ * The map lists only flags that are set at least once, in registry order.
+ * Bits that no registered flag owns are not counted.
+ *
+ * @throws {MixedRegistryError} if the flags belong to different registry
+ *   instances.
+ *
+ * @example
+ * const rows = [registry.of("read", "write"), registry.of("read")];
+ * frequencies(rows); // Map { "read" => 2, "write" => 1 }
+ * frequencies([]);   // Map {}
+ */
+export function frequencies<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(flags: readonly Flag<TFlags, TBit, TBrand>[]): Map<TFlags, number> {
+  const counts = new Map<TFlags, number>();
+
+  const [head, ...rest] = flags;
+
+  if (head === undefined) return counts;
+
+  assertSameRegistry(head, ...rest);
+
+  const { combinator } = head.registry;
+
+  for (const [name, bit] of head.registry.entries()) {
+    let count = 0;
+
+    for (const flag of flags) {
+      if (!combinator.equals(combinator.and(flag.bits, bit), combinator.zero)) {
+        count++;
+      }
+    }
+
+    if (count > 0) counts.set(name, count);
+  }
+
+  return counts;
+}
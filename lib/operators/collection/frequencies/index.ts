@@ -0,0 +1 @@
+export { frequencies } from "./frequencies";
@@ -0,0 +1,4 @@
+export * from "./frequencies";
+export * from "./intersectAll";
+export * from "./mostCommon";
+export * from "./unionAll";
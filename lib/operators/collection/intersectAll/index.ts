@@ -0,0 +1 @@
+export { intersectAll } from "./intersectAll";
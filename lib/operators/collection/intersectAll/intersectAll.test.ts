@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+import { MixedRegistryError } from "@/operators/errors";
+
+import { intersectAll } from "./intersectAll";
+
+type Perms = "read" | "write" | "execute" | "admin";
+
+// bits: read=1, write=2, execute=4, admin=8
+const registry = NumberFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+const other = NumberFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+
+describe("intersectAll", () => {
+  test("keeps the flags shared by every flag of the array", () => {
+    // input: {read, write}, {read, write, admin}, {read, write} -> read + write
+    const result = intersectAll(registry, [
+      registry.of("read", "write"),
+      registry.of("read", "write", "admin"),
+      registry.of("write", "read"),
+    ]);
+    expect(result.toArray()).toEqual(["read", "write"]);
+  });
+
+  test("returns a full flag for an empty array", () => {
+    const result = intersectAll(registry, []);
+    expect(result.isFull()).toBe(true);
+    expect(result.registry).toBe(registry);
+  });
+
+  test("returns an equal flag for a single flag", () => {
+    // input: {execute}
+    expect(intersectAll(registry, [registry.of("execute")]).bits).toBe(4);
+  });
+
+  test("keeps packed-field and kept unknown bits shared by every flag", () => {
+    // input: read + priority 7 (bits 113), read + kept bit 7 (bits 129)
+    const packed = registry.pack({ priority: { offset: 4, width: 3 } });
+    const flag = packed.set(packed.registry.of("read"), "priority", 7);
+    expect(intersectAll(packed.registry, [flag]).bits).toBe(113);
+    expect(intersectAll(packed.registry, [flag, flag]).bits).toBe(113);
+
+    const kept = registry.parse(129, { unknownBits: "keep" });
+    expect(intersectAll(registry, [kept, kept]).bits).toBe(129);
+  });
+
+  test("works with bigint registries", () => {
+    const big = BigIntFlagRegistry.from("a", "b", "c");
+    expect(intersectAll(big, [big.of("a", "b"), big.of("b")]).bits).toBe(2n);
+  });
+
+  test("throws MixedRegistryError for a flag of another registry", () => {
+    expect(() => intersectAll(registry, [other.of("write")])).toThrow(
+      MixedRegistryError,
+    );
+  });
+});
@@ -0,0 +1,42 @@
+import { FlagBox } from "@/flags/box";
+
+import { assertSameRegistry } from "@/operators/utils";
+
+import type { Bit } from "@/core/types";
+
+import type { Flag, FlagRegistry } from "@/flags/types";
+
+/**
+ * Returns a new flag box with only the flags that are set in every one of
+ * `flags` (bitwise AND). Unlike `intersection`, it accepts an empty array,
+ * which yields `registry.full()`. Otherwise the first flag seeds the AND, so
+ * packed-field and kept unknown bits shared by every flag are preserved.
+ *
+ * @throws {MixedRegistryError} if a flag belongs to another registry instance.
+ *
+ * @example
+ * const rows = [registry.of("read", "write"), registry.of("read")];
+ * intersectAll(registry, rows).toArray(); // ["read"]
+ * intersectAll(registry, []).isFull();    // true
+ */
+export function intersectAll<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  registry: FlagRegistry<TFlags, TBit, TBrand>,
+  flags: readonly Flag<TFlags, TBit, TBrand>[],
+): Flag<TFlags, TBit, TBrand> {
+  const [first = registry.full(), ...rest] = flags;
+
+  assertSameRegistry(registry.empty(), first, ...rest);
+
+  const { combinator } = registry;
+
+  const bits = rest.reduce(
+    (acc, v) => combinator.and(acc, v.bits),
+    first.bits,
+  );
+
+  return new FlagBox(bits, registry);
+}
@@ -0,0 +1 @@
+export { mostCommon } from "./mostCommon";
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+import { MixedRegistryError } from "@/operators/errors";
+
+import { mostCommon } from "./mostCommon";
+
+type Perms = "read" | "write" | "execute" | "admin";
+
+// bits: read=1, write=2, execute=4, admin=8
+const registry = NumberFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+const other = NumberFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+
+// write x3, read x2, admin x2, execute x0
+const rows = [
+  registry.of("read", "write"),
+  registry.of("write", "admin"),
+  registry.of("write"),
+  registry.of("admin", "read"),
+];
+
+describe("mostCommon", () => {
+  test("returns the k most common flags, most common first", () => {
+    expect(mostCommon(rows, 1)).toEqual([["write", 3]]);
+  });
+
+  test("breaks ties in registry order", () => {
+    expect(mostCommon(rows, 3)).toEqual([
+      ["write", 3],
+      ["read", 2],
+      ["admin", 2],
+    ]);
+  });
+
+  test("leaves out flags that are never set", () => {
+    // input: k larger than the number of set flags
+    expect(mostCommon(rows, 10).map(([name]) => name)).toEqual([
+      "write",
+      "read",
+      "admin",
+    ]);
+  });
+
+  test("returns an empty array for k <= 0 or no flags", () => {
+    expect(mostCommon(rows, 0)).toEqual([]);
+    expect(mostCommon(rows, -1)).toEqual([]);
+    expect(mostCommon([], 3)).toEqual([]);
+  });
+
+  test("throws MixedRegistryError for flags of different registries", () => {
+    const mixed = [registry.of("read"), other.of("read")];
+    expect(() => mostCommon(mixed, 1)).toThrow(MixedRegistryError);
+  });
+});
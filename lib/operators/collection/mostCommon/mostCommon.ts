@@ -0,0 +1,35 @@
+import { frequencies } from "../frequencies";
+
+import type { Bit } from "@/core/types";
+
+import type { Flag } from "@/flags/types";
+
+/**
+ * Returns the `k` flags set most often across `flags`, with their counts,
+ * most common first. Ties keep registry order, so the result is stable.
+ *
+ * Flags that are never set are left out, so fewer than `k` entries may be
+ * returned. A `k` of zero or less returns an empty array.
+ *
+ * @throws {MixedRegistryError} if the flags belong to different registry
+ *   instances.
+ *
+ * @example
+ * const rows = [
+ *   registry.of("read", "write"),
+ *   registry.of("write"),
+ *   registry.of("admin"),
+ * ];
+ * mostCommon(rows, 2); // [["write", 2], ["read", 1]]
+ */
+export function mostCommon<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(flags: readonly Flag<TFlags, TBit, TBrand>[], k: number): [TFlags, number][] {
+  if (k <= 0) return [];
+
+  return [...frequencies(flags)]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, k);
+}
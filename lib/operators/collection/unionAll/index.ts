@@ -0,0 +1 @@
+export { unionAll } from "./unionAll";
@@ -0,0 +1,60 @@
+import { describe, expect, test } from "bun:test";
+
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+import { MixedRegistryError } from "@/operators/errors";
+
+import { unionAll } from "./unionAll";
+
+type Perms = "read" | "write" | "execute" | "admin";
+
+// bits: read=1, write=2, execute=4, admin=8
+const registry = NumberFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+const other = NumberFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+
+describe("unionAll", () => {
+  test("combines every flag of the array", () => {
+    // input: {read}, {read, write}, {admin} -> read + write + admin
+    const result = unionAll(registry, [
+      registry.of("read"),
+      registry.of("read", "write"),
+      registry.of("admin"),
+    ]);
+    expect(result.toArray()).toEqual(["read", "write", "admin"]);
+  });
+
+  test("returns an empty flag for an empty array", () => {
+    const result = unionAll(registry, []);
+    expect(result.isEmpty()).toBe(true);
+    expect(result.registry).toBe(registry);
+  });
+
+  test("returns an equal flag for a single flag", () => {
+    // input: {execute}
+    expect(unionAll(registry, [registry.of("execute")]).bits).toBe(4);
+  });
+
+  test("works with bigint registries", () => {
+    const big = BigIntFlagRegistry.from("a", "b", "c");
+    expect(unionAll(big, [big.of("a"), big.of("c")]).bits).toBe(5n);
+  });
+
+  test("throws MixedRegistryError for a flag of another registry", () => {
+    expect(() =>
+      unionAll(registry, [registry.of("read"), other.of("write")]),
+    ).toThrow(MixedRegistryError);
+    expect(() => unionAll(registry, [other.of("write")])).toThrow(
+      MixedRegistryError,
+    );
+  });
+});
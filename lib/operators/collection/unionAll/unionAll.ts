@@ -0,0 +1,41 @@
+import { FlagBox } from "@/flags/box";
+
+import { assertSameRegistry } from "@/operators/utils";
+
+import type { Bit } from "@/core/types";
+
+import type { Flag, FlagRegistry } from "@/flags/types";
+
+/**
+ * Returns a new flag box with every flag that is set in any of `flags`
+ * (bitwise OR). Unlike `union`, it accepts an empty array, which yields
+ * `registry.empty()`.
+ *
+ * @throws {MixedRegistryError} if a flag belongs to another registry instance.
+ *
+ * @example
+ * const groups = [registry.of("read"), registry.of("read", "write")];
+ * unionAll(registry, groups).toArray(); // ["read", "write"]
+ * unionAll(registry, []).isEmpty();     // true
+ */
+export function unionAll<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  registry: FlagRegistry<TFlags, TBit, TBrand>,
+  flags: readonly Flag<TFlags, TBit, TBrand>[],
+): Flag<TFlags, TBit, TBrand> {
+  const identity = registry.empty();
+
+  assertSameRegistry(identity, ...flags);
+
+  const { combinator } = registry;
+
+  const bits = flags.reduce(
+    (acc, v) => combinator.or(acc, v.bits),
+    identity.bits,
+  );
+
+  return new FlagBox(bits, registry);
+}
@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { BitsetFlagRegistry } from "@/flags/registry/BitsetFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { combinations } from "./combinations";
+
+type Perms = "read" | "write" | "execute" | "admin";
+
+// bits: read=1, write=2, execute=4, admin=8
+const registry = NumberFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+
+const bitsOf = <T>(flags: Iterable<{ bits: T }>) =>
+  [...flags].map((flag) => flag.bits);
+
+describe("combinations", () => {
+  test("yields every flag with k flags set, in increasing order", () => {
+    // input: k = 2 over 4 flags -> C(4, 2) = 6
+    expect(bitsOf(combinations(registry, 2))).toEqual([3, 5, 6, 9, 10, 12]);
+  });
+
+  test("k = 0 yields the empty flag and k = n the full flag", () => {
+    expect(bitsOf(combinations(registry, 0))).toEqual([0]);
+    expect(bitsOf(combinations(registry, 4))).toEqual([15]);
+  });
+
+  test("yields nothing for k out of range or not an integer", () => {
+    expect(bitsOf(combinations(registry, 5))).toEqual([]);
+    expect(bitsOf(combinations(registry, -1))).toEqual([]);
+    expect(bitsOf(combinations(registry, 1.5))).toEqual([]);
+  });
+
+  test("follows registry order when bits are not contiguous", () => {
+    // input: a=1, b=16, c=4 (defined out of bit order), k = 2
+    const sparse = NumberFlagRegistry.define({ a: 1, b: 16, c: 4 });
+    expect(
+      [...combinations(sparse, 2)].map((flag) => flag.toArray()),
+    ).toEqual([
+      ["a", "b"],
+      ["a", "c"],
+      ["b", "c"],
+    ]);
+  });
+
+  test("matches the binomial coefficient for every k", () => {
+    // input: 10 flags -> C(10, k), every flag with exactly k members
+    const names = Array.from({ length: 10 }, (_, i) => `f${i}`);
+    const ten = NumberFlagRegistry.from(...names);
+    const expected = [1, 10, 45, 120, 210, 252, 210, 120, 45, 10, 1];
+
+    expected.forEach((count, k) => {
+      const flags = [...combinations(ten, k)];
+      expect(flags.length).toBe(count);
+      expect(flags.every((flag) => flag.size === k)).toBe(true);
+      expect(new Set(flags.map((flag) => flag.bits)).size).toBe(count);
+    });
+  });
+
+  test("works with bigint and bitset registries", () => {
+    const big = BigIntFlagRegistry.from("a", "b", "c");
+    expect(bitsOf(combinations(big, 2))).toEqual([3n, 5n, 6n]);
+
+    const wide = BitsetFlagRegistry.from("a", "b", "c");
+    const flags = [...combinations(wide, 2)];
+    expect(flags.map((flag) => flag.bits.toBigInt())).toEqual([3n, 5n, 6n]);
+  });
+});
@@ -0,0 +1,69 @@
+import { FlagBox } from "@/flags/box";
+
+import type { Bit } from "@/core/types";
+
+import type { Flag, FlagRegistry } from "@/flags/types";
+
+/**
+ * Lazily yields every flag of `registry` with exactly `k` flags set.
+ *
+ * The flags come in the order of Gosper's hack: numbering the registered flags
+ * `0 … n-1` in registry order, each combination is the next larger number with
+ * `k` bits set. The hack itself needs addition and division, which a
+ * combinator does not have, and registry bits need not be contiguous, so the
+ * same step is done on the positions instead: the lowest chosen flag that can
+ * move up one place does so, and the chosen flags below it drop back to the
+ * bottom. The combinations are not checked against the rules of a strict
+ * registry.
+ *
+ * Nothing is yielded when `k` is not an integer from `0` to the number of
+ * registered flags; `k = 0` yields the empty flag once.
+ *
+ * @example
+ * // registry: read, write, execute
+ * [...combinations(registry, 2)].map((flag) => flag.toArray());
+ * // [["read", "write"], ["read", "execute"], ["write", "execute"]]
+ */
+export function* combinations<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  registry: FlagRegistry<TFlags, TBit, TBrand>,
+  k: number,
+): Generator<Flag<TFlags, TBit, TBrand>> {
+  const { combinator } = registry;
+  const members = registry.values();
+  const n = members.length;
+
+  if (!Number.isInteger(k) || k < 0 || k > n) return;
+
+  const bit = (position: number) => members[position] as TBit;
+
+  // Chosen positions, ascending, followed by a sentinel at n.
+  const positions = [...Array.from({ length: k }, (_, i) => i), n];
+  let bits = combinator.zero;
+
+  for (let i = 0; i < k; i++) bits = combinator.or(bits, bit(i));
+
+  for (;;) {
+    yield new FlagBox(bits, registry);
+
+    // The lowest chosen position with a free position above it.
+    let i = 0;
+
+    while (i < k && positions[i + 1] === (positions[i] as number) + 1) i++;
+
+    if (i === k) return;
+
+    // Positions 0..i form one run: move its top up one place and the rest of
+    // it down to the bottom.
+    for (let j = 0; j <= i; j++) {
+      const from = positions[j] as number;
+      const to = j === i ? from + 1 : j;
+
+      bits = combinator.or(combinator.andNot(bits, bit(from)), bit(to));
+      positions[j] = to;
+    }
+  }
+}
@@ -0,0 +1 @@
+export { combinations } from "./combinations";
@@ -0,0 +1,5 @@
+export * from "./combinations";
+export * from "./powerSet";
+export * from "./subsets";
+
+export type * from "./types";
@@ -0,0 +1 @@
+export { powerSet } from "./powerSet";
@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+import { PowerSetLimitError } from "@/operators/errors";
+
+import { powerSet } from "./powerSet";
+
+// bits: read=1, write=2, execute=4
+const registry = NumberFlagRegistry.from("read", "write", "execute");
+
+const names = Array.from({ length: 21 }, (_, i) => `f${i}`);
+const large = NumberFlagRegistry.from(...names);
+
+describe("powerSet", () => {
+  test("yields every flag of the registry", () => {
+    // input: 3 flags -> 2^3 = 8 flags, 0 to 7
+    const flags = [...powerSet(registry)];
+    expect(flags.map((flag) => flag.bits)).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+    expect(flags.every((flag) => flag.registry === registry)).toBe(true);
+  });
+
+  test("throws PowerSetLimitError when called, before iterating", () => {
+    // input: 21 flags, default limit 20
+    let caught: unknown;
+    try {
+      powerSet(large);
+    } catch (e) {
+      caught = e;
+    }
+    expect(caught).toBeInstanceOf(PowerSetLimitError);
+    expect((caught as PowerSetLimitError).size).toBe(21);
+    expect((caught as PowerSetLimitError).limit).toBe(20);
+  });
+
+  test("accepts a custom limit", () => {
+    expect(() => powerSet(registry, { limit: 2 })).toThrow(PowerSetLimitError);
+    expect(powerSet(large, { limit: 21 }).next().value?.isEmpty()).toBe(true);
+  });
+});
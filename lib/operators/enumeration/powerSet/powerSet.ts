@@ -0,0 +1,40 @@
+import { PowerSetLimitError } from "@/operators/errors";
+
+import { subsets } from "../subsets";
+
+import type { Bit } from "@/core/types";
+
+import type { Flag, FlagRegistry } from "@/flags/types";
+
+import type { PowerSetOptions } from "../types";
+
+/**
+ * Lazily yields every flag of `registry`, from `registry.empty()` to
+ * `registry.full()`, in the order of `subsets()`.
+ *
+ * A registry of `n` flags has `2^n` subsets, so the size is checked when
+ * `powerSet()` is called, before anything is yielded.
+ *
+ * @throws {PowerSetLimitError} if the registry has more flags than
+ *   `options.limit` (20 by default).
+ *
+ * @example
+ * // registry: read, write
+ * [...powerSet(registry)].map((flag) => flag.toArray());
+ * // [[], ["read"], ["write"], ["read", "write"]]
+ */
+export function powerSet<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  registry: FlagRegistry<TFlags, TBit, TBrand>,
+  options: PowerSetOptions = {},
+): Generator<Flag<TFlags, TBit, TBrand>> {
+  const { limit = 20 } = options;
+  const size = registry.keys().length;
+
+  if (size > limit) throw new PowerSetLimitError(size, limit);
+
+  return subsets(registry.full());
+}
@@ -0,0 +1 @@
+export { subsets } from "./subsets";
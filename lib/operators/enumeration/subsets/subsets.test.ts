@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test";
+
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { BitsetFlagRegistry } from "@/flags/registry/BitsetFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { subsets } from "./subsets";
+
+type Perms = "read" | "write" | "execute" | "admin";
+
+// bits: read=1, write=2, execute=4, admin=8
+const registry = NumberFlagRegistry.from<Perms>(
+  "read",
+  "write",
+  "execute",
+  "admin",
+);
+
+describe("subsets", () => {
+  test("yields every subset in binary counting order", () => {
+    // input: read + execute + admin -> 8 subsets
+    const result = [...subsets(registry.of("read", "execute", "admin"))];
+    expect(result.map((flag) => flag.bits)).toEqual([
+      0, 1, 4, 5, 8, 9, 12, 13,
+    ]);
+  });
+
+  test("yields only the empty flag for an empty flag", () => {
+    const result = [...subsets(registry.empty())];
+    expect(result.map((flag) => flag.bits)).toEqual([0]);
+  });
+
+  test("yields flags bound to the registry", () => {
+    for (const flag of subsets(registry.of("write"))) {
+      expect(flag.registry).toBe(registry);
+    }
+  });
+
+  test("leaves out bits no registered flag owns", () => {
+    // input: 17 (read + unknown 16) -> [], [read]
+    const flag = registry.parse(17, { unknownBits: "keep" });
+    expect([...subsets(flag)].map((subset) => subset.bits)).toEqual([0, 1]);
+  });
+
+  test("is lazy", () => {
+    // input: 300 flags, only the first three subsets are produced
+    const names = Array.from({ length: 300 }, (_, i) => `f${i}`);
+    const wide = BitsetFlagRegistry.from(...names);
+    const iterator = subsets(wide.full());
+
+    iterator.next();
+    iterator.next();
+    const third = iterator.next();
+
+    expect(third.done).toBe(false);
+    expect(third.value?.toArray()).toEqual(["f1"]);
+  });
+
+  test("works with bigint registries", () => {
+    const big = BigIntFlagRegistry.from("a", "b");
+    expect([...subsets(big.full())].map((flag) => flag.bits)).toEqual([
+      0n,
+      1n,
+      2n,
+      3n,
+    ]);
+  });
+});
@@ -0,0 +1,60 @@
+import { FlagBox } from "@/flags/box";
+
+import type { Bit } from "@/core/types";
+
+import type { Flag } from "@/flags/types";
+
+/**
+ * Lazily yields every subset of `flag`, from the empty flag to `flag` itself.
+ *
+ * The subsets come in binary counting order over the set flags in registry
+ * order: with `read` and `write` set, the order is `[]`, `[read]`, `[write]`,
+ * `[read, write]`. Each step changes the bits in place, so producing the next
+ * subset costs two combinator calls on average. Bits that no registered flag
+ * owns are left out of every subset. The subsets are not checked against the
+ * rules of a strict registry.
+ *
+ * A flag with `n` set flags has `2^n` subsets; stop iterating early, or use
+ * `powerSet()` for a guarded enumeration of a whole registry.
+ *
+ * @example
+ * for (const subset of subsets(registry.of("read", "write"))) {
+ *   subset.toArray(); // [], ["read"], ["write"], ["read", "write"]
+ * }
+ */
+export function* subsets<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(flag: Flag<TFlags, TBit, TBrand>): Generator<Flag<TFlags, TBit, TBrand>> {
+  const { registry } = flag;
+  const { combinator } = registry;
+
+  const members = registry
+    .values()
+    .filter(
+      (bit) =>
+        !combinator.equals(combinator.and(flag.bits, bit), combinator.zero),
+    );
+
+  const chosen = members.map(() => false);
+  let bits = combinator.zero;
+
+  for (;;) {
+    yield new FlagBox(bits, registry);
+
+    // Binary increment: clear the trailing chosen members, choose the next.
+    let i = 0;
+
+    while (i < members.length && chosen[i] === true) {
+      chosen[i] = false;
+      bits = combinator.andNot(bits, members[i] as TBit);
+      i++;
+    }
+
+    if (i === members.length) return;
+
+    chosen[i] = true;
+    bits = combinator.or(bits, members[i] as TBit);
+  }
+}
@@ -0,0 +1,9 @@
+export interface PowerSetOptions {
+  /**
+   * The largest number of flags the registry may have. A registry of `n`
+   * flags has `2^n` subsets, so the default of `20` allows about a million.
+   *
+   * @defaultValue `20`
+   */
+  readonly limit?: number;
+}
@@ -0,0 +1 @@
+export type { PowerSetOptions } from "./PowerSetOptions.interface";
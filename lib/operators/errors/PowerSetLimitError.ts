@@ -0,0 +1,13 @@
+export class PowerSetLimitError extends Error {
+  readonly size: number;
+  readonly limit: number;
+
+  constructor(size: number, limit: number) {
+    super(
+      `Cannot enumerate the power set of ${String(size)} flags: the limit is ${String(limit)} (2^${String(limit)} subsets)`,
+    );
+    this.name = "PowerSetLimitError";
+    this.size = size;
+    this.limit = limit;
+  }
+}
@@ -1 +1,2 @@
 export { MixedRegistryError } from "./MixedRegistryError";
+export { PowerSetLimitError } from "./PowerSetLimitError";
@@ -1,4 +1,6 @@
 export * from "./basic";
+export * from "./collection";
+export * from "./enumeration";
 export * from "./errors";
 export * from "./set";
 export * from "./utils";
@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+
+import { UnknownFlagError } from "@/flags/errors";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { pipe } from "../pipe";
+
+import { add } from "./add";
+
+type Perms = "READ" | "WRITE" | "EXECUTE" | "ADMIN";
+
+// bits: READ=1, WRITE=2, EXECUTE=4, ADMIN=8
+const registry = NumberFlagRegistry.from<Perms, "perms">(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+describe("add", () => {
+  test("sets the given flags", () => {
+    // input: READ + add(WRITE, EXECUTE)
+    const result = pipe(registry.of("READ"), add("WRITE", "EXECUTE"));
+    expect(result.toArray()).toEqual(["READ", "WRITE", "EXECUTE"]);
+  });
+
+  test("clears the other members of a replace group", () => {
+    // group: READ | WRITE, replace -> adding WRITE drops READ
+    const modes = registry.exclusive(
+      { access: ["READ", "WRITE"] },
+      { replace: true },
+    );
+    expect(pipe(modes.of("READ"), add("WRITE")).toArray()).toEqual(["WRITE"]);
+  });
+
+  test("throws UnknownFlagError for unregistered names", () => {
+    expect(() => pipe(registry.empty(), add("NOPE" as Perms))).toThrow(
+      UnknownFlagError,
+    );
+  });
+});
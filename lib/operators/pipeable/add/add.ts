@@ -0,0 +1,40 @@
+import { replacedMask, resolveMask } from "@/flags/utils";
+
+import { defineOperator } from "../fusion";
+
+import type { Bit } from "@/core";
+
+import type { FlagOperator } from "../types";
+
+/**
+ * Curried form of `add`: returns an operator that sets the given flags. For an
+ * exclusive group declared with `replace: true`, the other members of the group
+ * are cleared first.
+ *
+ * The names are checked against the flag the operator receives, so inside
+ * `pipe()` an unregistered name is a type error.
+ *
+ * @throws {UnknownFlagError} when applied, if any name is not registered.
+ * @throws {ConstraintViolationError} when applied, if the registry is strict
+ *   and the result breaks one of its rules.
+ *
+ * @example
+ * pipe(registry.of("READ"), add("WRITE", "EXECUTE")); // READ + WRITE + EXECUTE
+ */
+export function add<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(...names: NoInfer<TFlags>[]): FlagOperator<TFlags, TBit, TBrand> {
+  return defineOperator({
+    checked: true,
+    steps({ registry }) {
+      const mask = resolveMask(registry, names);
+
+      return [
+        ["andNot", replacedMask(registry, mask)],
+        ["or", mask],
+      ];
+    },
+  });
+}
@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { add } from "../add";
+import { pipe } from "../pipe";
+
+import { closure } from "./closure";
+
+type Perms = "READ" | "WRITE" | "EXECUTE" | "ADMIN";
+
+// bits: READ=1, WRITE=2, EXECUTE=4, ADMIN=8
+const registry = NumberFlagRegistry.from<Perms, "perms">(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+describe("closure", () => {
+  // ADMIN implies WRITE, WRITE implies READ
+  const rules = registry.imply({ ADMIN: ["WRITE"], WRITE: ["READ"] });
+
+  test("adds implied flags transitively", () => {
+    // input: ADMIN -> READ + WRITE + ADMIN
+    const result = pipe(rules.of("ADMIN"), closure());
+    expect(result.toArray()).toEqual(["READ", "WRITE", "ADMIN"]);
+  });
+
+  test("sees the flags set by the operators before it", () => {
+    // input: empty, add WRITE, closure -> READ + WRITE
+    const result = pipe(rules.empty(), add("WRITE"), closure());
+    expect(result.toArray()).toEqual(["READ", "WRITE"]);
+  });
+});
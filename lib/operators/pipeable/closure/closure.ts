@@ -0,0 +1,24 @@
+import { closure as closeOver } from "@/operators/basic";
+
+import type { Bit } from "@/core";
+
+import type { FlagOperator } from "../types";
+
+/**
+ * Curried form of `closure`: returns an operator that adds every flag implied
+ * by the set flags, transitively.
+ *
+ * The closure depends on the bits it starts from, so it is not fused:
+ * `pipe()` applies the operators before it, then the closure.
+ *
+ * @example
+ * // WRITE implies READ
+ * pipe(registry.empty(), add("WRITE"), closure()); // READ + WRITE
+ */
+export function closure<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(): FlagOperator<TFlags, TBit, TBrand> {
+  return (flag) => closeOver(flag);
+}
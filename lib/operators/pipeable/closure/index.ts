@@ -0,0 +1 @@
+export { closure } from "./closure";
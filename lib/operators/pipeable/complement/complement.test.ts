@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { pipe } from "../pipe";
+
+import { complement } from "./complement";
+
+type Perms = "READ" | "WRITE" | "EXECUTE" | "ADMIN";
+
+// bits: READ=1, WRITE=2, EXECUTE=4, ADMIN=8
+const registry = NumberFlagRegistry.from<Perms, "perms">(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+describe("complement", () => {
+  test("flips every registered flag", () => {
+    // input: READ + ADMIN -> WRITE + EXECUTE
+    const result = pipe(registry.of("READ", "ADMIN"), complement());
+    expect(result.toArray()).toEqual(["WRITE", "EXECUTE"]);
+  });
+
+  test("twice is the identity", () => {
+    // input: WRITE -> complement -> complement
+    const result = pipe(registry.of("WRITE"), complement(), complement());
+    expect(result.toArray()).toEqual(["WRITE"]);
+  });
+});
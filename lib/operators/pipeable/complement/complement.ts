@@ -0,0 +1,23 @@
+import { defineOperator } from "../fusion";
+
+import type { Bit } from "@/core";
+
+import type { FlagOperator } from "../types";
+
+/**
+ * Curried form of `complement`: returns an operator that flips every registered
+ * flag. Bits no flag owns pass through unchanged.
+ *
+ * @example
+ * pipe(registry.of("READ"), complement()); // every flag but READ
+ */
+export function complement<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(): FlagOperator<TFlags, TBit, TBrand> {
+  return defineOperator({
+    checked: false,
+    steps: ({ registry }) => [["xor", registry.fullBits]],
+  });
+}
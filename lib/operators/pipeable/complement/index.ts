@@ -0,0 +1 @@
+export { complement } from "./complement";
@@ -0,0 +1,52 @@
+import { describe, expect, test } from "bun:test";
+
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+import { MixedRegistryError } from "@/operators/errors";
+
+import { pipe } from "../pipe";
+
+import { difference } from "./difference";
+
+type Perms = "READ" | "WRITE" | "EXECUTE" | "ADMIN";
+
+// bits: READ=1, WRITE=2, EXECUTE=4, ADMIN=8
+const registry = NumberFlagRegistry.from<Perms, "perms">(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+const other = NumberFlagRegistry.from<Perms, "perms">(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+describe("difference", () => {
+  test("clears the flags of every operand", () => {
+    // input: READ + WRITE, WRITE + EXECUTE, EXECUTE + ADMIN
+    const result = pipe(
+      registry.of("READ", "WRITE"),
+      difference(
+        registry.of("WRITE", "EXECUTE"),
+        registry.of("EXECUTE", "ADMIN"),
+      ),
+    );
+    expect(result.toArray()).toEqual(["READ"]);
+  });
+
+  test("returns an equal flag when called without flags", () => {
+    // input: READ
+    const result = pipe(registry.of("READ"), difference());
+    expect(result.toArray()).toEqual(["READ"]);
+  });
+
+  test("throws MixedRegistryError for flags of another registry", () => {
+    const operator = difference(other.of("READ"));
+    expect(() => pipe(registry.of("READ"), operator)).toThrow(
+      MixedRegistryError,
+    );
+  });
+});
@@ -0,0 +1,35 @@
+import { assertSameRegistry } from "@/operators/utils";
+
+import { defineOperator } from "../fusion";
+
+import type { Bit } from "@/core";
+import type { Flag } from "@/flags/types";
+
+import type { FlagOperator } from "../types";
+
+/**
+ * Curried form of `difference`: returns an operator that clears every flag set
+ * in any of `others` (successive AND NOT).
+ *
+ * @throws {MixedRegistryError} when applied, if a flag belongs to another
+ *   registry instance.
+ *
+ * @example
+ * pipe(a, difference(b)); // flags of a that are not set in b
+ */
+export function difference<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  ...others: Flag<TFlags, TBit, TBrand>[]
+): FlagOperator<TFlags, TBit, TBrand> {
+  return defineOperator({
+    checked: false,
+    steps(flag) {
+      assertSameRegistry(flag, ...others);
+
+      return others.map((other) => ["andNot", other.bits]);
+    },
+  });
+}
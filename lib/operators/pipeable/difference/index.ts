@@ -0,0 +1 @@
+export { difference } from "./difference";
@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { equals } from "./equals";
+
+type Perms = "READ" | "WRITE" | "EXECUTE" | "ADMIN";
+
+// bits: READ=1, WRITE=2, EXECUTE=4, ADMIN=8
+const registry = NumberFlagRegistry.from<Perms, "perms">(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+const read = registry.of("READ");
+const readWrite = registry.of("READ", "WRITE");
+const execute = registry.of("EXECUTE");
+const flags = [read, readWrite, execute];
+
+describe("equals", () => {
+  test("is true for flags with the same bits", () => {
+    // input: flags filtered by READ + WRITE, built in another order
+    expect(flags.filter(equals(registry.of("WRITE", "READ")))).toEqual([
+      readWrite,
+    ]);
+  });
+
+  test("is false for a flag of another registry", () => {
+    const other = NumberFlagRegistry.from<Perms, "perms">("READ");
+    expect(equals(other.of("READ"))(registry.of("READ"))).toBe(false);
+  });
+});
@@ -0,0 +1,22 @@
+import { equals as test } from "@/operators/basic";
+
+import type { Bit } from "@/core";
+import type { Flag } from "@/flags/types";
+
+import type { FlagPredicate } from "../types";
+
+/**
+ * Curried form of `equals`: returns a predicate that is `true` when the flag it
+ * receives has the same bits as `other` and belongs to the same registry. Never
+ * throws.
+ *
+ * @example
+ * users.filter((user) => equals(expected)(user.permissions));
+ */
+export function equals<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(other: Flag<TFlags, TBit, TBrand>): FlagPredicate<TFlags, TBit, TBrand> {
+  return (flag) => test(flag, other);
+}
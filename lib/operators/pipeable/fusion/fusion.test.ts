@@ -0,0 +1,92 @@
+import { describe, expect, test } from "bun:test";
+
+import { Bitset } from "@/core/bitset";
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { BitsetFlagRegistry } from "@/flags/registry/BitsetFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { defineOperator, planOf, run } from "./fusion";
+
+import type { Bit } from "@/core";
+import type { FlagRegistry } from "@/flags/types";
+
+import type { MaskStep, OperatorPlan } from "./fusion";
+
+const OPS = ["or", "and", "andNot", "xor"] as const;
+
+// Deterministic pseudo-random sequence (LCG) so failures are reproducible.
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state / 2 ** 31;
+  };
+}
+
+// Applies `count` random chains of 1-6 steps over 12 bits and compares the
+// fused result with the steps applied one by one.
+function checkChains<TBit extends Bit>(
+  registry: FlagRegistry<string, TBit, symbol>,
+  toBit: (value: number) => TBit,
+  count: number,
+): void {
+  const { combinator } = registry;
+  const next = random(42);
+
+  for (let i = 0; i < count; i++) {
+    const steps: MaskStep<TBit>[] = Array.from(
+      { length: 1 + Math.floor(next() * 6) },
+      () => [
+        OPS[Math.floor(next() * 4)] ?? "or",
+        toBit(Math.floor(next() * 4096)),
+      ],
+    );
+    const start = registry.parse(toBit(Math.floor(next() * 4096)));
+
+    const expected = steps.reduce(
+      (bits, [op, mask]) => combinator[op](bits, mask),
+      start.bits,
+    );
+    const fused = run(start, [{ checked: false, steps: () => steps }]);
+
+    expect(combinator.equals(fused.bits, expected)).toBe(true);
+  }
+}
+
+const names = Array.from({ length: 12 }, (_, i) => `f${i}`);
+
+describe("run", () => {
+  test("fused steps equal the steps applied one by one", () => {
+    // input: 500 random chains per bit type
+    checkChains(NumberFlagRegistry.from(...names), (v) => v, 500);
+    checkChains(BigIntFlagRegistry.from(...names), (v) => BigInt(v), 500);
+    checkChains(
+      BitsetFlagRegistry.from(...names),
+      (v) => Bitset.fromBigInt(BigInt(v)),
+      500,
+    );
+  });
+
+  test("keeps the registry of the flag", () => {
+    const registry = NumberFlagRegistry.from("A", "B");
+    const flag = run(registry.of("A"), []);
+    expect(flag.registry).toBe(registry);
+    expect(flag.bits).toBe(1);
+  });
+});
+
+describe("defineOperator and planOf", () => {
+  test("the operator runs its plan and exposes it to pipe()", () => {
+    // input: plan "or 2" applied to A -> A + B
+    const registry = NumberFlagRegistry.from("A", "B");
+    const plan: OperatorPlan<"A" | "B", number, symbol> = {
+      checked: false,
+      steps: () => [["or", 2]],
+    };
+    const operator = defineOperator(plan);
+
+    expect(operator(registry.of("A")).bits).toBe(3);
+    expect(planOf(operator)).toBe(plan);
+    expect(planOf((flag) => flag)).toBeUndefined();
+  });
+});
@@ -0,0 +1,197 @@
+import { FlagBox } from "@/flags/box";
+import { assertConstraints } from "@/flags/utils";
+
+import type { Bit, Combinator } from "@/core";
+import type { Flag } from "@/flags/types";
+
+import type { FlagOperator } from "../types";
+
+/**
+ * One bitwise step of a fusable operator: the combinator method to apply to
+ * the flag's bits, and its second operand.
+ *
+ * @internal
+ */
+export type MaskStep<TBit extends Bit> = readonly [
+  "or" | "and" | "andNot" | "xor",
+  TBit,
+];
+
+/**
+ * Describes what a fusable operator does, so that `pipe()` can merge it
+ * with its neighbours instead of calling it.
+ *
+ * @internal
+ */
+export interface OperatorPlan<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+> {
+  /**
+   * Resolves the operator against the flag it is applied to, e.g. names to
+   * masks, and returns its steps in order.
+   *
+   * @throws whatever the eager operator throws for the same arguments.
+   */
+  steps(flag: Flag<TFlags, TBit, TBrand>): MaskStep<TBit>[];
+
+  /** Whether the result is checked against the rules of a strict registry. */
+  readonly checked: boolean;
+}
+
+/**
+ * Any sequence of steps, folded into a single map of the bits:
+ * `x => ((keep === null ? x : x & keep) & ~clear) ^ flip`.
+ *
+ * Every step maps to this form and the form is closed under composition, so
+ * a whole chain costs three masks and three combinator calls to apply.
+ * `clear` is zero whenever `keep` is set, since it can be folded into it.
+ *
+ * @internal
+ */
+interface MaskMap<TBit extends Bit> {
+  readonly keep: TBit | null;
+  readonly clear: TBit;
+  readonly flip: TBit;
+}
+
+/**
+ * Operators created by {@link defineOperator}, mapped to their plans.
+ *
+ * @internal
+ */
+const plans = new WeakMap<
+  object,
+  OperatorPlan<string, Bit, string | symbol>
+>();
+
+/**
+ * Composes `map` with one more step. With `A` the masked part of `map` and
+ * `F` its `flip`:
+ *
+ * - `(A ^ F) | m  = (A & ~m) ^ (F | m)`
+ * - `(A ^ F) & ~m = (A & ~m) ^ (F & ~m)`
+ * - `(A ^ F) ^ m  = A ^ (F ^ m)`
+ * - `(A ^ F) & m  = (A & m) ^ (F & m)`
+ *
+ * @internal
+ */
+function fuse<TBit extends Bit>(
+  combinator: Combinator<TBit>,
+  map: MaskMap<TBit>,
+  [op, mask]: MaskStep<TBit>,
+): MaskMap<TBit> {
+  const { keep, clear, flip } = map;
+
+  switch (op) {
+    case "or":
+    case "andNot":
+      return {
+        keep: keep === null ? null : combinator.andNot(keep, mask),
+        clear: keep === null ? combinator.or(clear, mask) : combinator.zero,
+        flip:
+          op === "or"
+            ? combinator.or(flip, mask)
+            : combinator.andNot(flip, mask),
+      };
+    case "xor":
+      return { keep, clear, flip: combinator.xor(flip, mask) };
+    case "and":
+      return {
+        keep:
+          keep === null
+            ? combinator.andNot(mask, clear)
+            : combinator.and(keep, mask),
+        clear: combinator.zero,
+        flip: combinator.and(flip, mask),
+      };
+  }
+}
+
+/**
+ * Applies the steps of `operators` to `flag` in one pass and wraps the
+ * result in a single {@link FlagBox}.
+ *
+ * @internal
+ *
+ * @param flag - The flag to transform.
+ * @param operators - The plans of the operators, in order.
+ * @param check - Whether to check strict rules when an operator asks for
+ *   it. `pipe()` passes `false` and checks its final result instead.
+ * @returns The transformed flag, checked against strict rules if `check` is
+ *   set and any operator asks for it.
+ */
+export function run<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  flag: Flag<TFlags, TBit, TBrand>,
+  operators: readonly OperatorPlan<TFlags, TBit, TBrand>[],
+  check = true,
+): Flag<TFlags, TBit, TBrand> {
+  const { registry } = flag;
+  const { combinator } = registry;
+
+  let map: MaskMap<TBit> = {
+    keep: null,
+    clear: combinator.zero,
+    flip: combinator.zero,
+  };
+  let checked = false;
+
+  for (const plan of operators) {
+    for (const step of plan.steps(flag)) {
+      map = fuse(combinator, map, step);
+    }
+
+    checked ||= plan.checked;
+  }
+
+  const masked =
+    map.keep === null
+      ? combinator.andNot(flag.bits, map.clear)
+      : combinator.and(flag.bits, map.keep);
+
+  const result = new FlagBox(combinator.xor(masked, map.flip), registry);
+
+  return check && checked ? assertConstraints(result) : result;
+}
+
+/**
+ * Creates a fusable operator from its plan. Called on its own, the operator
+ * runs the plan; inside `pipe()`, the plan is merged with its neighbours.
+ *
+ * @internal
+ */
+export function defineOperator<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  plan: OperatorPlan<TFlags, TBit, TBrand>,
+): FlagOperator<TFlags, TBit, TBrand> {
+  const operator: FlagOperator<TFlags, TBit, TBrand> = (flag) =>
+    run(flag, [plan]);
+
+  plans.set(operator, plan as OperatorPlan<string, Bit, string | symbol>);
+
+  return operator;
+}
+
+/**
+ * Returns the plan of an operator created by {@link defineOperator}, or
+ * `undefined` for any other function.
+ *
+ * @internal
+ */
+export function planOf<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  operator: FlagOperator<TFlags, TBit, TBrand>,
+): OperatorPlan<TFlags, TBit, TBrand> | undefined {
+  return plans.get(operator) as OperatorPlan<TFlags, TBit, TBrand> | undefined;
+}
@@ -0,0 +1,2 @@
+export { defineOperator, planOf, run } from "./fusion";
+export type { MaskStep, OperatorPlan } from "./fusion";
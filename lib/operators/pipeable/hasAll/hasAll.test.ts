@@ -0,0 +1,34 @@
+import { describe, expect, test } from "bun:test";
+
+import { UnknownFlagError } from "@/flags/errors";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { hasAll } from "./hasAll";
+
+type Perms = "READ" | "WRITE" | "EXECUTE" | "ADMIN";
+
+// bits: READ=1, WRITE=2, EXECUTE=4, ADMIN=8
+const registry = NumberFlagRegistry.from<Perms, "perms">(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+const read = registry.of("READ");
+const readWrite = registry.of("READ", "WRITE");
+const execute = registry.of("EXECUTE");
+const flags = [read, readWrite, execute];
+
+describe("hasAll", () => {
+  test("is true when every given flag is set", () => {
+    // input: flags filtered by READ + WRITE
+    expect(flags.filter(hasAll("READ", "WRITE"))).toEqual([readWrite]);
+  });
+
+  test("throws UnknownFlagError for unregistered names", () => {
+    expect(() => hasAll("NOPE" as Perms)(registry.empty())).toThrow(
+      UnknownFlagError,
+    );
+  });
+});
@@ -0,0 +1,22 @@
+import { hasAll as test } from "@/operators/basic";
+
+import type { Bit } from "@/core";
+
+import type { FlagPredicate } from "../types";
+
+/**
+ * Curried form of `hasAll`: returns a predicate that is `true` when every one
+ * of the given flags is set.
+ *
+ * @throws {UnknownFlagError} when applied, if any name is not registered.
+ *
+ * @example
+ * users.filter((user) => hasAll("READ", "WRITE")(user.permissions));
+ */
+export function hasAll<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(...names: NoInfer<TFlags>[]): FlagPredicate<TFlags, TBit, TBrand> {
+  return (flag) => test(flag, ...names);
+}
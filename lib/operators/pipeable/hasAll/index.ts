@@ -0,0 +1 @@
+export { hasAll } from "./hasAll";
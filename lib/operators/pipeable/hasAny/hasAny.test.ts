@@ -0,0 +1,30 @@
+import { describe, expect, test } from "bun:test";
+
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { hasAny } from "./hasAny";
+
+type Perms = "READ" | "WRITE" | "EXECUTE" | "ADMIN";
+
+// bits: READ=1, WRITE=2, EXECUTE=4, ADMIN=8
+const registry = NumberFlagRegistry.from<Perms, "perms">(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+const read = registry.of("READ");
+const readWrite = registry.of("READ", "WRITE");
+const execute = registry.of("EXECUTE");
+const flags = [read, readWrite, execute];
+
+describe("hasAny", () => {
+  test("is true when at least one given flag is set", () => {
+    // input: flags filtered by WRITE or EXECUTE
+    expect(flags.filter(hasAny("WRITE", "EXECUTE"))).toEqual([
+      readWrite,
+      execute,
+    ]);
+  });
+});
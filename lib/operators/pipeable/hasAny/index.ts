@@ -0,0 +1 @@
+export { hasAny } from "./hasAny";
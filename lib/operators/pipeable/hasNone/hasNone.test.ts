@@ -0,0 +1,27 @@
+import { describe, expect, test } from "bun:test";
+
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { hasNone } from "./hasNone";
+
+type Perms = "READ" | "WRITE" | "EXECUTE" | "ADMIN";
+
+// bits: READ=1, WRITE=2, EXECUTE=4, ADMIN=8
+const registry = NumberFlagRegistry.from<Perms, "perms">(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+const read = registry.of("READ");
+const readWrite = registry.of("READ", "WRITE");
+const execute = registry.of("EXECUTE");
+const flags = [read, readWrite, execute];
+
+describe("hasNone", () => {
+  test("is true when no given flag is set", () => {
+    // input: flags filtered by neither READ nor ADMIN
+    expect(flags.filter(hasNone("READ", "ADMIN"))).toEqual([execute]);
+  });
+});
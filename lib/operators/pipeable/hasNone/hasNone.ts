@@ -0,0 +1,22 @@
+import { hasNone as test } from "@/operators/basic";
+
+import type { Bit } from "@/core";
+
+import type { FlagPredicate } from "../types";
+
+/**
+ * Curried form of `hasNone`: returns a predicate that is `true` when none of
+ * the given flags is set.
+ *
+ * @throws {UnknownFlagError} when applied, if any name is not registered.
+ *
+ * @example
+ * users.filter((user) => hasNone("ADMIN")(user.permissions));
+ */
+export function hasNone<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(...names: NoInfer<TFlags>[]): FlagPredicate<TFlags, TBit, TBrand> {
+  return (flag) => test(flag, ...names);
+}
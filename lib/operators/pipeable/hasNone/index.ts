@@ -0,0 +1 @@
+export { hasNone } from "./hasNone";
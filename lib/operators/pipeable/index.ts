@@ -0,0 +1,19 @@
+export * from "./add";
+export * from "./closure";
+export * from "./complement";
+export * from "./difference";
+export * from "./equals";
+export * from "./hasAll";
+export * from "./hasAny";
+export * from "./hasNone";
+export * from "./intersection";
+export * from "./isSubsetOf";
+export * from "./isSupersetOf";
+export * from "./overlaps";
+export * from "./pipe";
+export * from "./remove";
+export * from "./symmetricDifference";
+export * from "./toggle";
+export * from "./union";
+
+export type * from "./types";
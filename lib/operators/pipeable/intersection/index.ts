@@ -0,0 +1 @@
+export { intersection } from "./intersection";
@@ -0,0 +1,35 @@
+import { assertSameRegistry } from "@/operators/utils";
+
+import { defineOperator } from "../fusion";
+
+import type { Bit } from "@/core";
+import type { Flag } from "@/flags/types";
+
+import type { FlagOperator } from "../types";
+
+/**
+ * Curried form of `intersection`: returns an operator that keeps only the flags
+ * also set in every one of `others` (bitwise AND).
+ *
+ * @throws {MixedRegistryError} when applied, if a flag belongs to another
+ *   registry instance.
+ *
+ * @example
+ * pipe(a, intersection(b)); // flags set in both a and b
+ */
+export function intersection<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  ...others: Flag<TFlags, TBit, TBrand>[]
+): FlagOperator<TFlags, TBit, TBrand> {
+  return defineOperator({
+    checked: false,
+    steps(flag) {
+      assertSameRegistry(flag, ...others);
+
+      return others.map((other) => ["and", other.bits]);
+    },
+  });
+}
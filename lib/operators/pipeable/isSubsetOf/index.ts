@@ -0,0 +1 @@
+export { isSubsetOf } from "./isSubsetOf";
@@ -0,0 +1,36 @@
+import { describe, expect, test } from "bun:test";
+
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+import { MixedRegistryError } from "@/operators/errors";
+
+import { isSubsetOf } from "./isSubsetOf";
+
+type Perms = "READ" | "WRITE" | "EXECUTE" | "ADMIN";
+
+// bits: READ=1, WRITE=2, EXECUTE=4, ADMIN=8
+const registry = NumberFlagRegistry.from<Perms, "perms">(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+const read = registry.of("READ");
+const readWrite = registry.of("READ", "WRITE");
+const execute = registry.of("EXECUTE");
+const flags = [read, readWrite, execute];
+
+describe("isSubsetOf", () => {
+  test("is true when every set flag is also set in other", () => {
+    // input: flags against "READ", "EXECUTE"
+    const other = registry.of("READ", "EXECUTE");
+    expect(flags.filter(isSubsetOf(other))).toEqual([read, execute]);
+  });
+
+  test("throws MixedRegistryError for a flag of another registry", () => {
+    const other = NumberFlagRegistry.from<Perms, "perms">("READ");
+    expect(() => isSubsetOf(other.of("READ"))(registry.of("READ"))).toThrow(
+      MixedRegistryError,
+    );
+  });
+});
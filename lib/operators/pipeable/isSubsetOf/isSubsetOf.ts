@@ -0,0 +1,24 @@
+import { isSubsetOf as test } from "@/operators/set";
+
+import type { Bit } from "@/core";
+import type { Flag } from "@/flags/types";
+
+import type { FlagPredicate } from "../types";
+
+/**
+ * Curried form of `isSubsetOf`: returns a predicate that is `true` when the
+ * flag it receives has no flag that `other` lacks.
+ *
+ * @throws {MixedRegistryError} when applied, if the flags belong to
+ *   different registry instances.
+ *
+ * @example
+ * users.filter((user) => isSubsetOf(allowed)(user.permissions));
+ */
+export function isSubsetOf<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(other: Flag<TFlags, TBit, TBrand>): FlagPredicate<TFlags, TBit, TBrand> {
+  return (flag) => test(flag, other);
+}
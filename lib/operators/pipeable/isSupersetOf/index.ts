@@ -0,0 +1 @@
+export { isSupersetOf } from "./isSupersetOf";
@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+import { MixedRegistryError } from "@/operators/errors";
+
+import { isSupersetOf } from "./isSupersetOf";
+
+type Perms = "READ" | "WRITE" | "EXECUTE" | "ADMIN";
+
+// bits: READ=1, WRITE=2, EXECUTE=4, ADMIN=8
+const registry = NumberFlagRegistry.from<Perms, "perms">(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+const read = registry.of("READ");
+const readWrite = registry.of("READ", "WRITE");
+const execute = registry.of("EXECUTE");
+const flags = [read, readWrite, execute];
+
+describe("isSupersetOf", () => {
+  test("is true when every flag of other is also set", () => {
+    // input: flags against "READ"
+    expect(flags.filter(isSupersetOf(registry.of("READ")))).toEqual([
+      read,
+      readWrite,
+    ]);
+  });
+
+  test("throws MixedRegistryError for a flag of another registry", () => {
+    const other = NumberFlagRegistry.from<Perms, "perms">("READ");
+    expect(() => isSupersetOf(other.of("READ"))(registry.of("READ"))).toThrow(
+      MixedRegistryError,
+    );
+  });
+});
@@ -0,0 +1 @@
+export { overlaps } from "./overlaps";
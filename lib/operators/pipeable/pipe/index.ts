@@ -0,0 +1 @@
+export { pipe } from "./pipe";
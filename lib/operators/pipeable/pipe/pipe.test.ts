@@ -0,0 +1,134 @@
+import { describe, expect, test } from "bun:test";
+
+import { ConstraintViolationError, UnknownFlagError } from "@/flags/errors";
+import { BigIntFlagRegistry } from "@/flags/registry/BigIntFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+import { add as addNow, remove as removeNow } from "@/operators/basic";
+import { MixedRegistryError } from "@/operators/errors";
+
+import { add } from "../add";
+import { closure } from "../closure";
+import { complement } from "../complement";
+import { remove } from "../remove";
+import { toggle } from "../toggle";
+import { union } from "../union";
+
+import { pipe } from "./pipe";
+
+import type { Flag } from "@/flags/types";
+
+type Perms = "READ" | "WRITE" | "EXECUTE" | "ADMIN";
+
+// bits: READ=1, WRITE=2, EXECUTE=4, ADMIN=8
+const registry = NumberFlagRegistry.from<Perms, "perms">(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+describe("pipe", () => {
+  test("applies operators from left to right", () => {
+    // input: READ -> toggle EXECUTE -> add WRITE -> remove READ
+    const result = pipe(
+      registry.of("READ"),
+      toggle("EXECUTE"),
+      add("WRITE"),
+      remove("READ"),
+    );
+    expect(result.toArray()).toEqual(["WRITE", "EXECUTE"]);
+  });
+
+  test("matches the eager operators", () => {
+    // input: add ADMIN then remove it again, vs. nested calls
+    const start = registry.of("READ");
+    const eager = removeNow(addNow(start, "ADMIN"), "ADMIN");
+    expect(pipe(start, add("ADMIN"), remove("ADMIN")).bits).toBe(eager.bits);
+  });
+
+  test("returns the input flag when there are no operators", () => {
+    const flag = registry.of("READ");
+    expect(pipe(flag)).toBe(flag);
+  });
+
+  test("keeps TFlags, TBit and TBrand", () => {
+    const result: Flag<Perms, number, "perms"> = pipe(
+      registry.empty(),
+      add("READ"),
+      complement(),
+      union(registry.of("ADMIN")),
+    );
+    expect(result.registry).toBe(registry);
+  });
+
+  test("hands the fused flag to other operators", () => {
+    // input: add WRITE + EXECUTE, then a custom operator sees both
+    const seen: number[] = [];
+    const spy = (flag: Flag<Perms, number, "perms">) => {
+      seen.push(flag.bits);
+      return flag;
+    };
+    const result = pipe(
+      registry.empty(),
+      add("WRITE"),
+      add("EXECUTE"),
+      spy,
+      remove("WRITE"),
+    );
+    expect(seen).toEqual([6]);
+    expect(result.toArray()).toEqual(["EXECUTE"]);
+  });
+
+  test("checks strict rules once, on the result of a fused run", () => {
+    // WRITE implies READ: adding WRITE first is fine inside one run
+    const strict = registry.imply({ WRITE: ["READ"] }, { strict: true });
+    expect(pipe(strict.empty(), add("WRITE"), add("READ")).bits).toBe(3);
+    expect(() => pipe(strict.of("READ"), add("WRITE"), remove("READ"))).toThrow(
+      ConstraintViolationError,
+    );
+  });
+
+  test("checks strict rules once, on the result of the whole pipe", () => {
+    // WRITE implies READ: closure adds READ after a checked add("WRITE")
+    const strict = registry.imply({ WRITE: ["READ"] }, { strict: true });
+    expect(pipe(strict.empty(), add("WRITE"), closure()).toArray()).toEqual([
+      "READ",
+      "WRITE",
+    ]);
+    expect(() =>
+      pipe(strict.empty(), add("WRITE"), closure(), remove("READ")),
+    ).toThrow(ConstraintViolationError);
+  });
+
+  test("runs non-fusable operators between fused runs", () => {
+    // WRITE implies READ, closure adds READ after add WRITE
+    const rules = registry.imply({ WRITE: ["READ"] });
+    const result = pipe(
+      rules.empty(),
+      add("WRITE"),
+      closure(),
+      toggle("ADMIN"),
+    );
+    expect(result.toArray()).toEqual(["READ", "WRITE", "ADMIN"]);
+  });
+
+  test("works with bigint registries", () => {
+    const big = BigIntFlagRegistry.from("A", "B", "C");
+    expect(pipe(big.of("A"), add("C"), complement()).bits).toBe(2n);
+  });
+
+  test("throws the errors of the operators", () => {
+    const other = NumberFlagRegistry.from<Perms, "perms">(
+      "READ",
+      "WRITE",
+      "EXECUTE",
+      "ADMIN",
+    );
+    expect(() => pipe(registry.of("READ"), union(other.of("READ")))).toThrow(
+      MixedRegistryError,
+    );
+    expect(() =>
+      pipe(registry.of("READ"), add("NOPE" as Perms)),
+    ).toThrow(UnknownFlagError);
+  });
+});
@@ -0,0 +1,75 @@
+import { assertConstraints } from "@/flags/utils";
+
+import { planOf, run } from "../fusion";
+
+import type { Bit } from "@/core";
+import type { Flag } from "@/flags/types";
+
+import type { OperatorPlan } from "../fusion";
+import type { FlagOperator } from "../types";
+
+/**
+ * Applies `operators` to `flag` from left to right and returns the result.
+ *
+ * Adjacent mask operators — `add`, `remove`, `toggle`, `complement`,
+ * `union`, `intersection`, `difference` and `symmetricDifference` — are
+ * fused: their masks are folded into one map of the bits, the map is
+ * applied once, and a single flag box is created for the whole run. Other
+ * operators, such as `closure()` or your own functions, receive the flag
+ * built so far.
+ *
+ * When a fused operator checks the rules of a strict registry, the check
+ * runs once, on the result of the whole pipe. Intermediate states, including
+ * the flags passed to operators that are not fused, may break a rule as long
+ * as the result does not.
+ *
+ * `TFlags`, `TBit` and `TBrand` come from `flag`, so names passed to the
+ * curried operators are checked against its registry.
+ *
+ * @param flag - The flag to start from.
+ * @param operators - The operators to apply, in order.
+ * @returns The flag returned by the last operator, or `flag` if there is none.
+ * @throws whatever the operators throw, e.g. {@link UnknownFlagError}.
+ *
+ * @example
+ * const result = pipe(
+ *   registry.of("READ"),
+ *   toggle("EXECUTE"),
+ *   add("WRITE"),
+ *   remove("ADMIN"),
+ * );
+ * result.toArray(); // ["READ", "WRITE", "EXECUTE"]
+ */
+export function pipe<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  flag: Flag<TFlags, TBit, TBrand>,
+  ...operators: FlagOperator<TFlags, TBit, TBrand>[]
+): Flag<TFlags, TBit, TBrand> {
+  let result = flag;
+  let pending: OperatorPlan<TFlags, TBit, TBrand>[] = [];
+  let checked = false;
+
+  for (const operator of operators) {
+    const plan = planOf(operator);
+
+    if (plan !== undefined) {
+      pending.push(plan);
+      checked ||= plan.checked;
+      continue;
+    }
+
+    if (pending.length > 0) {
+      result = run(result, pending, false);
+      pending = [];
+    }
+
+    result = operator(result);
+  }
+
+  if (pending.length > 0) result = run(result, pending, false);
+
+  return checked ? assertConstraints(result) : result;
+}
@@ -0,0 +1 @@
+export { remove } from "./remove";
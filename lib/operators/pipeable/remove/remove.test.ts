@@ -0,0 +1,32 @@
+import { describe, expect, test } from "bun:test";
+
+import { UnknownFlagError } from "@/flags/errors";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { pipe } from "../pipe";
+
+import { remove } from "./remove";
+
+type Perms = "READ" | "WRITE" | "EXECUTE" | "ADMIN";
+
+// bits: READ=1, WRITE=2, EXECUTE=4, ADMIN=8
+const registry = NumberFlagRegistry.from<Perms, "perms">(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+describe("remove", () => {
+  test("clears the given flags", () => {
+    // input: full - remove(READ, ADMIN)
+    const result = pipe(registry.full(), remove("READ", "ADMIN"));
+    expect(result.toArray()).toEqual(["WRITE", "EXECUTE"]);
+  });
+
+  test("throws UnknownFlagError for unregistered names", () => {
+    expect(() => pipe(registry.full(), remove("NOPE" as Perms))).toThrow(
+      UnknownFlagError,
+    );
+  });
+});
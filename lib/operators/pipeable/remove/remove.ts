@@ -0,0 +1,28 @@
+import { resolveMask } from "@/flags/utils";
+
+import { defineOperator } from "../fusion";
+
+import type { Bit } from "@/core";
+
+import type { FlagOperator } from "../types";
+
+/**
+ * Curried form of `remove`: returns an operator that clears the given flags.
+ *
+ * @throws {UnknownFlagError} when applied, if any name is not registered.
+ * @throws {ConstraintViolationError} when applied, if the registry is strict
+ *   and the result breaks one of its rules.
+ *
+ * @example
+ * pipe(registry.full(), remove("ADMIN")); // every flag but ADMIN
+ */
+export function remove<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(...names: NoInfer<TFlags>[]): FlagOperator<TFlags, TBit, TBrand> {
+  return defineOperator({
+    checked: true,
+    steps: ({ registry }) => [["andNot", resolveMask(registry, names)]],
+  });
+}
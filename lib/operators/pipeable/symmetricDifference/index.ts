@@ -0,0 +1 @@
+export { symmetricDifference } from "./symmetricDifference";
@@ -0,0 +1,35 @@
+import { assertSameRegistry } from "@/operators/utils";
+
+import { defineOperator } from "../fusion";
+
+import type { Bit } from "@/core";
+import type { Flag } from "@/flags/types";
+
+import type { FlagOperator } from "../types";
+
+/**
+ * Curried form of `symmetricDifference`: returns an operator that flips every
+ * flag set in each of `others` (successive XOR).
+ *
+ * @throws {MixedRegistryError} when applied, if a flag belongs to another
+ *   registry instance.
+ *
+ * @example
+ * pipe(a, symmetricDifference(b)); // flags set in exactly one of a and b
+ */
+export function symmetricDifference<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  ...others: Flag<TFlags, TBit, TBrand>[]
+): FlagOperator<TFlags, TBit, TBrand> {
+  return defineOperator({
+    checked: false,
+    steps(flag) {
+      assertSameRegistry(flag, ...others);
+
+      return others.map((other) => ["xor", other.bits]);
+    },
+  });
+}
@@ -0,0 +1 @@
+export { toggle } from "./toggle";
@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+
+import { ConstraintViolationError } from "@/flags/errors";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { pipe } from "../pipe";
+
+import { toggle } from "./toggle";
+
+type Perms = "READ" | "WRITE" | "EXECUTE" | "ADMIN";
+
+// bits: READ=1, WRITE=2, EXECUTE=4, ADMIN=8
+const registry = NumberFlagRegistry.from<Perms, "perms">(
+  "READ",
+  "WRITE",
+  "EXECUTE",
+  "ADMIN",
+);
+
+describe("toggle", () => {
+  test("flips the given flags", () => {
+    // input: READ + WRITE, toggle(WRITE, EXECUTE) -> READ + EXECUTE
+    const result = pipe(
+      registry.of("READ", "WRITE"),
+      toggle("WRITE", "EXECUTE"),
+    );
+    expect(result.toArray()).toEqual(["READ", "EXECUTE"]);
+  });
+
+  test("checks strict rules on the result", () => {
+    // WRITE implies READ: toggling READ off breaks the rule
+    const strict = registry.imply({ WRITE: ["READ"] }, { strict: true });
+    expect(() => pipe(strict.of("READ", "WRITE"), toggle("READ"))).toThrow(
+      ConstraintViolationError,
+    );
+  });
+});
@@ -0,0 +1,20 @@
+import type { Bit } from "@/core";
+import type { Flag } from "@/flags/types";
+
+/**
+ * A curried operator: takes a flag and returns a new flag of the same
+ * registry. Created by the operators of `bitwise-flag/operators/pipeable`
+ * and composed with `pipe()`.
+ *
+ * Any function of this shape can be passed to `pipe()`, including your own.
+ *
+ * @example
+ * ```ts
+ * const grantWrite: FlagOperator<Perms, number> = add("WRITE");
+ * ```
+ */
+export type FlagOperator<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol = symbol,
+> = (flag: Flag<TFlags, TBit, TBrand>) => Flag<TFlags, TBit, TBrand>;
@@ -0,0 +1,18 @@
+import type { Bit } from "@/core";
+import type { Flag } from "@/flags/types";
+
+/**
+ * A curried predicate: takes a flag and tests it. Created by the predicates
+ * of `bitwise-flag/operators/pipeable`, for use with `Array#filter` and
+ * similar callbacks.
+ *
+ * @example
+ * ```ts
+ * users.filter((user) => hasAll("READ", "WRITE")(user.permissions));
+ * ```
+ */
+export type FlagPredicate<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol = symbol,
+> = (flag: Flag<TFlags, TBit, TBrand>) => boolean;
@@ -0,0 +1,2 @@
+export type { FlagOperator } from "./FlagOperator.type";
+export type { FlagPredicate } from "./FlagPredicate.type";
@@ -0,0 +1 @@
+export { union } from "./union";
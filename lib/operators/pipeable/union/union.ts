@@ -0,0 +1,35 @@
+import { assertSameRegistry } from "@/operators/utils";
+
+import { defineOperator } from "../fusion";
+
+import type { Bit } from "@/core";
+import type { Flag } from "@/flags/types";
+
+import type { FlagOperator } from "../types";
+
+/**
+ * Curried form of `union`: returns an operator that adds every flag set in any
+ * of `others` (bitwise OR).
+ *
+ * @throws {MixedRegistryError} when applied, if a flag belongs to another
+ *   registry instance.
+ *
+ * @example
+ * pipe(a, union(b, c)); // flags set in a, b or c
+ */
+export function union<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  ...others: Flag<TFlags, TBit, TBrand>[]
+): FlagOperator<TFlags, TBit, TBrand> {
+  return defineOperator({
+    checked: false,
+    steps(flag) {
+      assertSameRegistry(flag, ...others);
+
+      return others.map((other) => ["or", other.bits]);
+    },
+  });
+}
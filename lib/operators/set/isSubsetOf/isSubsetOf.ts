@@ -16,9 +16,13 @@ import type { Flag } from "@/flags/types";
  * isSubsetOf(a, b); // true  — all of a's flags are in b
  * isSubsetOf(b, a); // false — "write" is not in a
  */
-export function isSubsetOf<TFlags extends string, TBit extends Bit>(
-  left: Flag<TFlags, TBit>,
-  right: Flag<TFlags, TBit>,
+export function isSubsetOf<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  left: Flag<TFlags, TBit, TBrand>,
+  right: Flag<TFlags, TBit, TBrand>,
 ): boolean {
   assertSameRegistry(left, right);
 
@@ -26,5 +30,5 @@ export function isSubsetOf<TFlags extends string, TBit extends Bit>(
 
   const bits = combinator.and(left.bits, right.bits);
 
-  return bits === left.bits;
+  return combinator.equals(bits, left.bits);
 }
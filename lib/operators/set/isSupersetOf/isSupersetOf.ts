@@ -16,9 +16,13 @@ import type { Flag } from "@/flags/types";
  * isSupersetOf(a, b); // true  — a contains all of b's flags
  * isSupersetOf(b, a); // false — b lacks "write"
  */
-export function isSupersetOf<TFlags extends string, TBit extends Bit>(
-  left: Flag<TFlags, TBit>,
-  right: Flag<TFlags, TBit>,
+export function isSupersetOf<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  left: Flag<TFlags, TBit, TBrand>,
+  right: Flag<TFlags, TBit, TBrand>,
 ): boolean {
   assertSameRegistry(left, right);
 
@@ -26,5 +30,5 @@ export function isSupersetOf<TFlags extends string, TBit extends Bit>(
 
   const bits = combinator.and(left.bits, right.bits);
 
-  return bits === right.bits;
+  return combinator.equals(bits, right.bits);
 }
@@ -15,13 +15,20 @@ import type { Flag } from "@/flags/types";
  * overlaps(a, b); // true  — "write" is shared
  * overlaps(a, registry.of("admin")); // false — no common flags
  */
-export function overlaps<TFlags extends string, TBit extends Bit>(
-  left: Flag<TFlags, TBit>,
-  right: Flag<TFlags, TBit>,
+export function overlaps<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(
+  left: Flag<TFlags, TBit, TBrand>,
+  right: Flag<TFlags, TBit, TBrand>,
 ): boolean {
   assertSameRegistry(left, right);
 
   const { combinator } = left.registry;
 
-  return !!combinator.and(left.bits, right.bits);
+  return !combinator.equals(
+    combinator.and(left.bits, right.bits),
+    combinator.zero,
+  );
 }
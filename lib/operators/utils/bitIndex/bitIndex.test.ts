@@ -0,0 +1,37 @@
+import { describe, expect, test } from "bun:test";
+
+import { BitsetFlagRegistry } from "@/flags/registry/BitsetFlagRegistry";
+import { NumberFlagRegistry } from "@/flags/registry/NumberFlagRegistry";
+
+import { bitIndex } from "./bitIndex";
+
+describe("bitIndex", () => {
+  test("indexes names by bit position", () => {
+    // input: read = bit 0, write = bit 1, admin = bit 3
+    const registry = NumberFlagRegistry.define({ read: 1, write: 2, admin: 8 });
+    const index = bitIndex(registry);
+    expect(index?.[0]).toBe("read");
+    expect(index?.[1]).toBe("write");
+    expect(index?.[2]).toBeUndefined();
+    expect(index?.[3]).toBe("admin");
+  });
+
+  test("returns null when registry order is not bit order", () => {
+    // input: admin = bit 3 registered before read = bit 0
+    const registry = NumberFlagRegistry.define({ admin: 8, read: 1 });
+    expect(bitIndex(registry)).toBeNull();
+  });
+
+  test("returns the same index for repeated calls", () => {
+    const registry = NumberFlagRegistry.from("read", "write");
+    expect(bitIndex(registry)).toBe(bitIndex(registry));
+  });
+
+  test("indexes high bits of a bitset registry", () => {
+    // input: 300 flags -> f299 at position 299
+    const wide = BitsetFlagRegistry.from(
+      ...Array.from({ length: 300 }, (_, i) => `f${i}`),
+    );
+    expect(bitIndex(wide)?.[299]).toBe("f299");
+  });
+});
@@ -0,0 +1,67 @@
+import type { Bit } from "@/core";
+import type { FlagRegistry } from "@/flags";
+
+/**
+ * Registries mapped to their bit index, or to `null` when their order is not
+ * the order of their bits.
+ *
+ * @internal
+ */
+const indexes = new WeakMap<object, readonly string[] | null>();
+
+/**
+ * Builds the index returned by {@link bitIndex}.
+ *
+ * @internal
+ */
+function buildIndex<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(registry: FlagRegistry<TFlags, TBit, TBrand>): TFlags[] | null {
+  const { combinator } = registry;
+
+  const names: TFlags[] = [];
+  let previous = -1;
+
+  for (const [name, bit] of registry.entries()) {
+    const position = combinator.trailingZeros(bit);
+
+    if (position <= previous) return null;
+
+    names[position] = name;
+    previous = position;
+  }
+
+  return names;
+}
+
+/**
+ * Returns the flag names of `registry` indexed by bit position, so the name
+ * of a set bit is one lookup away once `trailingZeros` or `bitLength` has
+ * found it. Computed once per registry.
+ *
+ * Returns `null` when the registry order (the order of `keys()`) is not the
+ * order of the bits, as after `define()` with unsorted values or
+ * `extend()` into a lower free bit. Callers then have to scan the entries in
+ * registry order.
+ *
+ * @param registry - The registry to index.
+ * @returns The names by bit position, with holes for unused positions, or
+ *   `null`.
+ *
+ * @example
+ * // read = bit 0, write = bit 1, admin = bit 3
+ * bitIndex(registry); // ["read", "write", <empty>, "admin"]
+ */
+export function bitIndex<
+  TFlags extends string,
+  TBit extends Bit,
+  TBrand extends string | symbol,
+>(registry: FlagRegistry<TFlags, TBit, TBrand>): readonly TFlags[] | null {
+  if (!indexes.has(registry)) {
+    indexes.set(registry, buildIndex(registry));
+  }
+
+  return indexes.get(registry) as readonly TFlags[] | null;
+}
@@ -0,0 +1 @@
+export { bitIndex } from "./bitIndex";
@@ -1 +1,2 @@
 export * from "./assertSameRegistry";
+export * from "./bitIndex";